@@ -0,0 +1,24 @@
+-- Create durable job queue for webhook activity processing
+CREATE TABLE IF NOT EXISTS activity_jobs (
+  id SERIAL PRIMARY KEY,
+  activity_id TEXT NOT NULL,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'processing', 'completed', 'dead'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP, -- earliest time the job may be claimed
+  locked_until TIMESTAMP WITH TIME ZONE, -- visibility timeout while processing
+  locked_by VARCHAR(100), -- worker that holds the lock
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Only one open job per activity so duplicate webhooks do not queue twice
+CREATE UNIQUE INDEX idx_activity_jobs_open_activity ON activity_jobs(activity_id)
+  WHERE status IN ('pending', 'processing');
+
+-- Index for claiming due jobs and reclaiming expired locks
+CREATE INDEX idx_activity_jobs_status_run_at ON activity_jobs(status, run_at);
+CREATE INDEX idx_activity_jobs_locked_until ON activity_jobs(locked_until)
+  WHERE status = 'processing';
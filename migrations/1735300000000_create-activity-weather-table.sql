@@ -0,0 +1,23 @@
+-- Create history of processed activities and the weather attached to them
+CREATE TABLE IF NOT EXISTS activity_weather (
+  id SERIAL PRIMARY KEY,
+  activity_id TEXT NOT NULL,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  activity_name TEXT,
+  sport_type VARCHAR(50), -- Strava activity type, e.g. 'Ride', 'Run'
+  activity_start_date TIMESTAMP WITH TIME ZONE,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  data_source VARCHAR(20), -- 'current', 'historical', 'archive' ('fallback' on legacy rows)
+  weather_data JSONB, -- full WeatherData snapshot
+  appended_text TEXT, -- weather line added to the description
+  outcome VARCHAR(20) NOT NULL, -- 'success', 'skipped', 'failed'
+  reason TEXT, -- skip reason or error message
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  duration_ms INTEGER,
+  processed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Index for per-user history listings
+CREATE INDEX idx_activity_weather_user_processed_at ON activity_weather(user_id, processed_at DESC);
+CREATE INDEX idx_activity_weather_activity_id ON activity_weather(activity_id);
@@ -0,0 +1,26 @@
+-- Create table tracking weather backfills of a user's past activities
+CREATE TABLE IF NOT EXISTS backfill_jobs (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'running', 'completed', 'failed'
+  after_date TIMESTAMP WITH TIME ZONE NOT NULL, -- only activities starting after this time
+  before_date TIMESTAMP WITH TIME ZONE NOT NULL, -- only activities starting before this time
+  activities_found INTEGER NOT NULL DEFAULT 0,
+  processed INTEGER NOT NULL DEFAULT 0,
+  enriched INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Index for looking up a user's backfills and finding stale running jobs
+CREATE INDEX idx_backfill_jobs_user_id ON backfill_jobs(user_id, created_at DESC);
+CREATE INDEX idx_backfill_jobs_status ON backfill_jobs(status, updated_at);
+
+-- Only one unfinished backfill per user
+CREATE UNIQUE INDEX idx_backfill_jobs_active_user ON backfill_jobs(user_id)
+  WHERE status IN ('pending', 'running');
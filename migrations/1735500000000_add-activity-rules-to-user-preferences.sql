@@ -0,0 +1,8 @@
+-- Per-user rules for which activities get weather added
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS "includeSportTypes" TEXT[] NOT NULL DEFAULT '{}', -- empty means every sport type
+  ADD COLUMN IF NOT EXISTS "excludeSportTypes" TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS "skipPrivate" BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS "skipTrainer" BOOLEAN NOT NULL DEFAULT false, -- trainer and virtual activities
+  ADD COLUMN IF NOT EXISTS "minDurationMinutes" INTEGER, -- null means no minimum
+  ADD COLUMN IF NOT EXISTS "skipWithoutMovement" BOOLEAN NOT NULL DEFAULT false;
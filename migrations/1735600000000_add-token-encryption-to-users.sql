@@ -0,0 +1,8 @@
+-- Envelope encryption of Strava tokens: accessToken and refreshToken hold
+-- ciphertext under a per-row data key, wrapped by the master key "tokenKeyId"
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS "tokenKeyId" TEXT, -- null for rows not yet encrypted
+  ADD COLUMN IF NOT EXISTS "tokenDataKey" TEXT;
+
+-- Finds rows still under an old key during rotation
+CREATE INDEX IF NOT EXISTS idx_users_token_key_id ON users("tokenKeyId");
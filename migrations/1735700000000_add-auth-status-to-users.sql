@@ -0,0 +1,7 @@
+-- Whether the user's Strava authorization still works
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS "authStatus" VARCHAR(20) NOT NULL DEFAULT 'active'; -- 'active', 'reauth_required'
+
+-- Index for the token refresh scheduler
+CREATE INDEX IF NOT EXISTS idx_users_token_expires_at ON users("tokenExpiresAt")
+  WHERE "authStatus" = 'active';
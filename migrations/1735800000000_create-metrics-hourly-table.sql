@@ -0,0 +1,23 @@
+-- Hourly rollups of the metrics table, kept after raw rows are pruned
+CREATE TABLE IF NOT EXISTS metrics_hourly (
+  bucket_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  metric_type VARCHAR(50) NOT NULL,
+  metric_name VARCHAR(100) NOT NULL,
+  endpoint VARCHAR(200) NOT NULL DEFAULT '', -- API endpoint, '' for other metric types
+  status_class VARCHAR(10) NOT NULL DEFAULT '', -- '2xx', '4xx', 'error', '' for other metric types
+  count INTEGER NOT NULL,
+  success_count INTEGER NOT NULL,
+  value_sum NUMERIC NOT NULL, -- total duration in ms, for averages
+  retry_sum NUMERIC NOT NULL DEFAULT 0,
+  p50 NUMERIC NOT NULL, -- duration percentiles within the hour
+  p90 NUMERIC NOT NULL,
+  p95 NUMERIC NOT NULL,
+  p99 NUMERIC NOT NULL,
+  PRIMARY KEY (bucket_start, metric_type, metric_name, endpoint, status_class)
+);
+
+-- Index for reading a metric type over a time range
+CREATE INDEX IF NOT EXISTS idx_metrics_hourly_type_bucket ON metrics_hourly(metric_type, bucket_start DESC);
+
+-- Index for pruning raw metrics by age
+CREATE INDEX IF NOT EXISTS idx_metrics_created_at ON metrics(created_at);
@@ -0,0 +1,19 @@
+-- Strava webhook subscription this app created; events for any other
+-- subscription are rejected
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  subscription_id INTEGER PRIMARY KEY,
+  callback_url TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Inbox of handled webhook events, so Strava redeliveries are acknowledged
+-- without being processed again
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id SERIAL PRIMARY KEY,
+  object_id BIGINT NOT NULL,
+  aspect_type VARCHAR(20) NOT NULL, -- 'create', 'update', 'delete'
+  event_time BIGINT NOT NULL, -- Unix seconds, as sent by Strava
+  owner_id BIGINT NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (object_id, aspect_type, event_time)
+);
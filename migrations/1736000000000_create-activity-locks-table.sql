@@ -0,0 +1,7 @@
+-- Lease held while an activity is being processed, so a webhook job and a
+-- manual request cannot both write weather to the same activity
+CREATE TABLE IF NOT EXISTS activity_locks (
+  activity_id TEXT PRIMARY KEY,
+  locked_by TEXT NOT NULL, -- random token of the holder
+  locked_until TIMESTAMP WITH TIME ZONE NOT NULL -- expires if the holder dies
+);
@@ -0,0 +1,3 @@
+-- Webhook events are pruned by age once Strava can no longer redeliver them
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at
+  ON webhook_events (received_at);
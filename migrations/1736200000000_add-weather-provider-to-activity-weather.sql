@@ -0,0 +1,3 @@
+-- Record which provider or archive served the weather; after failover it is
+-- not the first configured provider
+ALTER TABLE activity_weather ADD COLUMN IF NOT EXISTS weather_provider VARCHAR(30);
@@ -23,37 +23,108 @@ dotenvConfig({ path: envPath });
  * Environment variable validation schema
  * Defines all required and optional environment variables with their types
  */
-const environmentSchema = z.object({
-  // Application environment
-  NODE_ENV: z
-    .enum(["development", "production", "test"])
-    .default("development"),
-  PORT: z.string().transform(Number).default("3001"),
-  APP_URL: z.string().url(),
-
-  // Database configuration
-  DATABASE_URL: z.string().url(),
-
-  // Admin authentication
-  ADMIN_TOKEN: z.string().optional(),
-
-  // Strava API credentials
-  STRAVA_CLIENT_ID: z.string().min(1),
-  STRAVA_CLIENT_SECRET: z.string().min(1),
-  STRAVA_WEBHOOK_VERIFY_TOKEN: z.string().min(1),
-
-  // Weather API credentials
-  OPENWEATHERMAP_API_KEY: z.string().min(1),
-
-  // Security tokens
-  SESSION_SECRET: z.string().min(32),
-
-  // Logging configuration
-  LOG_LEVEL: z
-    .enum(["error", "warn", "info", "http", "debug"])
-    .default("info")
-    .optional(),
-});
+const environmentSchema = z
+  .object({
+    // Application environment
+    NODE_ENV: z
+      .enum(["development", "production", "test"])
+      .default("development"),
+    PORT: z.string().transform(Number).default("3001"),
+    APP_URL: z.string().url(),
+
+    // Database configuration
+    DATABASE_URL: z.string().url(),
+
+    // Admin authentication
+    ADMIN_TOKEN: z.string().optional(),
+
+    // Bearer token for the Prometheus scrape endpoint; /metrics is disabled
+    // when unset
+    METRICS_TOKEN: z.string().min(16).optional(),
+
+    // Strava API credentials
+    STRAVA_CLIENT_ID: z.string().min(1),
+    STRAVA_CLIENT_SECRET: z.string().min(1),
+    STRAVA_WEBHOOK_VERIFY_TOKEN: z.string().min(1),
+
+    // Weather API credentials
+    OPENWEATHERMAP_API_KEY: z.string().min(1),
+
+    // Weather providers in failover order, e.g. "openweathermap,open-meteo"
+    WEATHER_PROVIDERS: z
+      .string()
+      .default("openweathermap,open-meteo")
+      .transform((value) =>
+        value
+          .split(",")
+          .map((name) => name.trim())
+          .filter(Boolean),
+      )
+      .pipe(z.array(z.enum(["openweathermap", "open-meteo"])).min(1)),
+
+    // Historical weather archive for activities older than five days
+    WEATHER_ARCHIVE_PROVIDER: z.enum(["open-meteo"]).optional(),
+
+    // Security tokens
+    SESSION_SECRET: z.string().min(32),
+
+    // Master keys for Strava tokens at rest, e.g. "2024-06:<base64 32-byte key>"
+    // Comma-separate several keys while rotating; older keys stay readable
+    TOKEN_ENCRYPTION_KEYS: z
+      .string()
+      .min(1)
+      .transform((value) =>
+        value
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+          .map((entry) => {
+            const separator = entry.indexOf(":");
+            return {
+              id: entry.slice(0, separator),
+              key: Buffer.from(entry.slice(separator + 1), "base64"),
+            };
+          }),
+      )
+      .pipe(
+        z
+          .array(
+            z.object({
+              id: z.string().min(1, "key id is required"),
+              key: z
+                .instanceof(Buffer)
+                .refine((key) => key.length === 32, "key must be 32 bytes"),
+            }),
+          )
+          .min(1),
+      ),
+    // Key used for new writes; defaults to the first key
+    TOKEN_ENCRYPTION_KEY_ID: z.string().optional(),
+
+    // Days to keep raw metric rows; older data survives as hourly rollups
+    METRICS_RAW_RETENTION_DAYS: z
+      .string()
+      .default("30")
+      .transform(Number)
+      .pipe(z.number().int().min(1)),
+
+    // Logging configuration
+    LOG_LEVEL: z
+      .enum(["error", "warn", "info", "http", "debug"])
+      .default("info")
+      .optional(),
+  })
+  .refine(
+    (env) =>
+      !env.TOKEN_ENCRYPTION_KEY_ID ||
+      env.TOKEN_ENCRYPTION_KEYS.some(
+        ({ id }) => id === env.TOKEN_ENCRYPTION_KEY_ID,
+      ),
+    {
+      message: "must name one of TOKEN_ENCRYPTION_KEYS",
+      path: ["TOKEN_ENCRYPTION_KEY_ID"],
+    },
+  );
 
 // Validate environment variables
 const parseResult = environmentSchema.safeParse(process.env);
@@ -92,6 +163,13 @@ export const config = {
       baseUrl: "https://api.openweathermap.org/data/2.5",
       oneCallUrl: "https://api.openweathermap.org/data/3.0/onecall",
     },
+    openMeteo: {
+      forecastUrl: "https://api.open-meteo.com/v1/forecast",
+      archiveUrl: "https://archive-api.open-meteo.com/v1/archive",
+    },
+    weather: {
+      providers: parseResult.data.WEATHER_PROVIDERS,
+    },
   },
 
   // Application constants
@@ -100,6 +178,16 @@ export const config = {
     tokenExpiry: 30 * 24 * 60 * 60 * 1000, // 30 days in milliseconds
   },
 
+  // Envelope encryption of Strava tokens
+  tokenEncryption: {
+    keys: Object.fromEntries(
+      parseResult.data.TOKEN_ENCRYPTION_KEYS.map(({ id, key }) => [id, key]),
+    ),
+    activeKeyId:
+      parseResult.data.TOKEN_ENCRYPTION_KEY_ID ??
+      parseResult.data.TOKEN_ENCRYPTION_KEYS[0]!.id,
+  },
+
   // Feature flags (can be extended with environment variables)
   features: {
     webhooksEnabled: true,
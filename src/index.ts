@@ -8,6 +8,12 @@ import { config } from "./config/environment";
 import { errorHandler } from "./middleware/errorHandler";
 import { requestLogger } from "./middleware/requestLogger";
 import { logger } from "./utils/logger";
+import { activityJobWorker } from "./services/activityJobWorker";
+import { backfillService } from "./services/backfillService";
+import { tokenRefreshScheduler } from "./services/tokenRefreshScheduler";
+import { metricsRetentionJob } from "./services/metricsRetentionJob";
+import { webhookEventRetentionJob } from "./services/webhookEventRetentionJob";
+import { metricsService } from "./services/metricsService";
 import rateLimit from "express-rate-limit";
 
 // Route imports
@@ -19,6 +25,7 @@ import { activitiesRouter } from "./routes/activities";
 import { adminRouter } from "./routes/admin";
 import metricsRouter from "./routes/metrics";
 import { docsRouter } from "./routes/docs";
+import { prometheusRouter } from "./routes/prometheus";
 
 const requiredEnvVars = [
   "DATABASE_URL",
@@ -100,6 +107,9 @@ app.use(`${API_PREFIX}/metrics`, metricsRouter);
 app.use(`${API_PREFIX}/docs`, docsRouter);
 app.use(`${API_PREFIX}/health`, healthRouter);
 
+// Prometheus scrape endpoint, outside the API prefix by convention
+app.use("/metrics", prometheusRouter);
+
 /**
  * Custom error handler
  */
@@ -116,6 +126,12 @@ const server = app.listen(port, async () => {
     authMethod: "session",
   });
 
+  metricsService.start();
+  activityJobWorker.start();
+  tokenRefreshScheduler.start();
+  metricsRetentionJob.start();
+  webhookEventRetentionJob.start();
+
   // Initialize webhooks in production
   if (config.isProduction) {
     try {
@@ -151,6 +167,18 @@ const gracefulShutdown = async (signal: NodeJS.Signals): Promise<void> => {
     logger.info("HTTP server closed");
 
     try {
+      // Let in-flight activity work finish before closing the pool
+      await Promise.all([
+        activityJobWorker.stop(),
+        backfillService.stop(),
+        tokenRefreshScheduler.stop(),
+        metricsRetentionJob.stop(),
+        webhookEventRetentionJob.stop(),
+      ]);
+
+      // Write metrics buffered by the work that just finished
+      await metricsService.stop();
+
       // Cleanup tasks
       if (config.isDevelopment) {
         const { cleanupWebhookOnShutdown } = await import(
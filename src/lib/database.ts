@@ -1,9 +1,13 @@
 import { Kysely, PostgresDialect, sql } from "kysely";
 import { Pool } from "pg";
 import { createServiceLogger } from "../utils/logger";
+import type { WeatherData } from "../services/weatherService";
 
 const logger = createServiceLogger("database");
 
+// "reauth_required" once Strava rejects the refresh token
+export type UserAuthStatus = "active" | "reauth_required";
+
 // Database table interfaces for Kysely
 export interface UserTable {
   id: string;
@@ -11,6 +15,9 @@ export interface UserTable {
   accessToken: string;
   refreshToken: string;
   tokenExpiresAt: Date;
+  tokenKeyId: string | null; // master key wrapping tokenDataKey; null before encryption
+  tokenDataKey: string | null;
+  authStatus: UserAuthStatus;
   weatherEnabled: boolean;
   firstName: string | null;
   lastName: string | null;
@@ -30,6 +37,12 @@ export interface UserPreferenceTable {
   includeUvIndex: boolean;
   includeVisibility: boolean;
   customFormat: string | null;
+  includeSportTypes: string[];
+  excludeSportTypes: string[];
+  skipPrivate: boolean;
+  skipTrainer: boolean;
+  minDurationMinutes: number | null;
+  skipWithoutMovement: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -43,10 +56,120 @@ export interface MetricsTable {
   created_at: Date;
 }
 
+export interface MetricsHourlyTable {
+  bucket_start: Date;
+  metric_type: MetricsTable["metric_type"];
+  metric_name: string;
+  endpoint: string; // "" for metric types without endpoints
+  status_class: string; // "" for metric types without responses
+  count: number;
+  success_count: number;
+  value_sum: number;
+  retry_sum: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+export type ActivityJobStatus = "pending" | "processing" | "completed" | "dead";
+
+export interface ActivityJobTable {
+  id?: number; // Optional for inserts (auto-generated)
+  activity_id: string;
+  user_id: string;
+  status: ActivityJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_until: Date | null;
+  locked_by: string | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// "fallback" marks legacy rows where current weather stood in for old activities
+export type WeatherDataSource =
+  | "current"
+  | "historical"
+  | "archive"
+  | "fallback";
+
+export type ActivityOutcome = "success" | "skipped" | "failed";
+
+export interface ActivityWeatherTable {
+  id?: number; // Optional for inserts (auto-generated)
+  activity_id: string;
+  user_id: string;
+  activity_name: string | null;
+  sport_type: string | null;
+  activity_start_date: Date | null;
+  latitude: number | null;
+  longitude: number | null;
+  data_source: WeatherDataSource | null;
+  weather_provider: string | null;
+  weather_data: WeatherData | null;
+  appended_text: string | null;
+  outcome: ActivityOutcome;
+  reason: string | null;
+  retry_count: number;
+  duration_ms: number | null;
+  processed_at: Date;
+}
+
+export type BackfillJobStatus = "pending" | "running" | "completed" | "failed";
+
+export interface BackfillJobTable {
+  id?: number; // Optional for inserts (auto-generated)
+  user_id: string;
+  status: BackfillJobStatus;
+  after_date: Date;
+  before_date: Date;
+  activities_found: number;
+  processed: number;
+  enriched: number;
+  skipped: number;
+  failed: number;
+  last_error: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+  updated_at: Date;
+}
+
+export interface ActivityLockTable {
+  activity_id: string;
+  locked_by: string;
+  locked_until: Date;
+}
+
+export interface WebhookSubscriptionTable {
+  subscription_id: number;
+  callback_url: string;
+  created_at: Date;
+}
+
+export interface WebhookEventTable {
+  id?: number; // Optional for inserts (auto-generated)
+  object_id: number;
+  aspect_type: string;
+  event_time: number;
+  owner_id: number;
+  received_at: Date;
+}
+
 export interface Database {
   users: UserTable;
   user_preferences: UserPreferenceTable;
   metrics: MetricsTable;
+  metrics_hourly: MetricsHourlyTable;
+  activity_jobs: ActivityJobTable;
+  activity_weather: ActivityWeatherTable;
+  backfill_jobs: BackfillJobTable;
+  webhook_subscriptions: WebhookSubscriptionTable;
+  webhook_events: WebhookEventTable;
+  activity_locks: ActivityLockTable;
 }
 
 // Create the database connection
@@ -1,6 +1,10 @@
 import type { Request, Response, NextFunction } from "express";
 import { config } from "../config/environment";
 import { logger } from "../utils/logger";
+import {
+  httpRequestDuration,
+  toStatusClass,
+} from "../services/prometheusMetrics";
 
 /**
  * Enhanced request logging middleware
@@ -35,6 +39,15 @@ export function requestLogger(
   res.on("finish", () => {
     const responseTime = Date.now() - startTime;
 
+    httpRequestDuration.observe(
+      {
+        method: req.method,
+        route: getRoutePattern(req),
+        status_class: toStatusClass(res.statusCode),
+      },
+      responseTime / 1000,
+    );
+
     // Log response details
     if (config.isDevelopment || shouldLogResponse(req, res)) {
       const logData = {
@@ -68,6 +81,15 @@ function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Matched route pattern, e.g. "/api/activities/:activityId"
+ *
+ * Used instead of the URL so metrics are not split per activity or user.
+ */
+function getRoutePattern(req: Request): string {
+  return req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+}
+
 /**
  * Extract client IP address from request
  */
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CompiledQuery } from "kysely";
+
+// Queries reach a driver that records them instead of a real database
+const queries = vi.hoisted(() => ({
+  executed: [] as CompiledQuery[],
+  results: [] as { rows: unknown[]; numAffectedRows?: bigint }[],
+}));
+
+vi.mock("../../lib/database", async () => {
+  const {
+    Kysely,
+    PostgresAdapter,
+    PostgresIntrospector,
+    PostgresQueryCompiler,
+  } = await import("kysely");
+
+  const connection = {
+    async executeQuery(query: CompiledQuery) {
+      queries.executed.push(query);
+      return queries.results.shift() ?? { rows: [] };
+    },
+    async *streamQuery() {},
+  };
+
+  return {
+    database: new Kysely<any>({
+      dialect: {
+        createAdapter: () => new PostgresAdapter(),
+        createDriver: () => ({
+          init: async () => {},
+          acquireConnection: async () => connection,
+          beginTransaction: async () => {},
+          commitTransaction: async () => {},
+          rollbackTransaction: async () => {},
+          releaseConnection: async () => {},
+          destroy: async () => {},
+        }),
+        createIntrospector: (db) => new PostgresIntrospector(db),
+        createQueryCompiler: () => new PostgresQueryCompiler(),
+      },
+    }),
+  };
+});
+
+vi.mock("../../config/environment", () => ({
+  config: {
+    tokenEncryption: {
+      keys: { old: Buffer.alloc(32, 1), current: Buffer.alloc(32, 2) },
+      activeKeyId: "current",
+    },
+  },
+}));
+
+vi.mock("../../utils/logger", () => ({
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import { UserRepository } from "../userRepository";
+import { TokenCipher } from "../../utils/tokenEncryption";
+import { factories } from "../../test/setup";
+
+describe("UserRepository token encryption", () => {
+  const repository = new UserRepository();
+  const plaintext = {
+    accessToken: "plain-access-token",
+    refreshToken: "plain-refresh-token",
+  };
+
+  // Simulates the database echoing back what was written
+  const returnWrittenRow = (row: Record<string, unknown>) => {
+    queries.results.push({ rows: [row] });
+  };
+
+  const writtenParameters = () =>
+    queries.executed.flatMap((query) => query.parameters);
+
+  const expectNoPlaintext = () => {
+    const written = JSON.stringify(writtenParameters());
+    expect(written).not.toContain(plaintext.accessToken);
+    expect(written).not.toContain(plaintext.refreshToken);
+  };
+
+  const encryptedRow = (keyId: string) => {
+    const cipher = new TokenCipher(
+      { old: Buffer.alloc(32, 1), current: Buffer.alloc(32, 2) },
+      keyId,
+    );
+    return factories.user({ id: "user-1", ...cipher.encrypt(plaintext) });
+  };
+
+  beforeEach(() => {
+    queries.executed = [];
+    queries.results = [];
+  });
+
+  it("should encrypt tokens on create", async () => {
+    returnWrittenRow(encryptedRow("current"));
+
+    const user = await repository.create(
+      factories.user({ ...plaintext, tokenExpiresAt: new Date() }),
+    );
+
+    expectNoPlaintext();
+    expect(writtenParameters()).toContain("current");
+    expect(user).toMatchObject(plaintext);
+  });
+
+  it("should encrypt tokens on upsert", async () => {
+    returnWrittenRow(encryptedRow("current"));
+
+    const user = await repository.upsert(
+      factories.user({ ...plaintext, tokenExpiresAt: new Date() }),
+    );
+
+    expectNoPlaintext();
+    expect(user).toMatchObject(plaintext);
+  });
+
+  it("should encrypt refreshed tokens on update", async () => {
+    returnWrittenRow(encryptedRow("current"));
+
+    const user = await repository.update("user-1", {
+      ...plaintext,
+      tokenExpiresAt: new Date(),
+    });
+
+    expectNoPlaintext();
+    expect(queries.executed[0]!.sql).toContain('"tokenKeyId"');
+    expect(user).toMatchObject(plaintext);
+  });
+
+  it("should reject updating only one token", async () => {
+    await expect(
+      repository.update("user-1", { accessToken: plaintext.accessToken }),
+    ).rejects.toThrow("accessToken and refreshToken must be updated together");
+    expect(queries.executed).toHaveLength(0);
+  });
+
+  it("should decrypt tokens on read", async () => {
+    queries.results.push({ rows: [encryptedRow("old")] });
+
+    const user = await repository.findById("user-1");
+
+    expect(user).toMatchObject(plaintext);
+  });
+
+  it("should re-encrypt old and plaintext rows under the active key", async () => {
+    queries.results.push(
+      {
+        rows: [
+          encryptedRow("old"),
+          factories.user({
+            id: "user-2",
+            ...plaintext,
+            tokenKeyId: null,
+            tokenDataKey: null,
+          }),
+        ],
+      },
+      { rows: [], numAffectedRows: 1n },
+      { rows: [], numAffectedRows: 1n },
+      { rows: [] },
+    );
+
+    const rotated = await repository.rotateTokenKeys();
+
+    expect(rotated).toBe(2);
+    expectNoPlaintext();
+
+    const updates = queries.executed.filter((query) =>
+      query.sql.includes("UPDATE users"),
+    );
+    expect(updates).toHaveLength(2);
+    for (const update of updates) {
+      expect(update.parameters[2]).toBe("current");
+    }
+    // Each row is only rewritten if its tokens are unchanged since the read
+    expect(updates.map((update) => update.parameters[5])).toEqual([
+      expect.any(String),
+      null,
+    ]);
+  });
+
+  it("should not overwrite tokens refreshed between the read and the write", async () => {
+    const stale = encryptedRow("old");
+    // A process still encrypting under the old key refreshes the tokens,
+    // so the key id is unchanged but the ciphertext and data key are not
+    const refreshed = encryptedRow("old");
+    queries.results.push({ rows: [stale] }, { rows: [], numAffectedRows: 0n });
+
+    const rotated = await repository.rotateTokenKeys();
+
+    expect(rotated).toBe(0);
+    const [update] = queries.executed.filter((query) =>
+      query.sql.includes("UPDATE users"),
+    );
+    expect(update!.sql).toContain('"tokenDataKey" IS NOT DISTINCT FROM $6');
+    expect(update!.parameters[5]).toBe(stale.tokenDataKey);
+    expect(update!.parameters[5]).not.toBe(refreshed.tokenDataKey);
+  });
+});
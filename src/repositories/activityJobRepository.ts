@@ -0,0 +1,303 @@
+import { sql } from "kysely";
+import { database } from "../lib/database";
+import type { ActivityJobStatus } from "../lib/database";
+import type { ActivityJob } from "../types/database";
+import { parseDatabaseError } from "../types/database";
+import { createServiceLogger } from "../utils/logger";
+
+const logger = createServiceLogger("activityJobRepository");
+
+/**
+ * Postgres-backed queue of activities waiting to be processed
+ *
+ * Jobs move from pending → processing → completed, or to dead once they
+ * run out of attempts. A processing job holds a lock until `locked_until`;
+ * if its worker dies the lock expires and another worker reclaims it.
+ */
+export class ActivityJobRepository {
+  async enqueue(jobData: {
+    activityId: string;
+    userId: string;
+    maxAttempts?: number;
+  }): Promise<{ job: ActivityJob; created: boolean }> {
+    try {
+      const query = sql<ActivityJob>`
+        INSERT INTO activity_jobs (
+          activity_id,
+          user_id,
+          status,
+          max_attempts
+        ) VALUES (
+          ${jobData.activityId},
+          ${jobData.userId},
+          'pending',
+          ${jobData.maxAttempts ?? 5}
+        )
+        ON CONFLICT (activity_id) WHERE status IN ('pending', 'processing')
+        DO NOTHING
+        RETURNING *
+      `;
+
+      const result = await query.execute(database);
+      const job = result.rows[0];
+
+      if (job) {
+        logger.info("Activity job enqueued", {
+          jobId: job.id,
+          activityId: jobData.activityId,
+        });
+        return { job, created: true };
+      }
+
+      // An open job already exists for this activity
+      const existing = await sql<ActivityJob>`
+        SELECT * FROM activity_jobs
+        WHERE activity_id = ${jobData.activityId}
+        AND status IN ('pending', 'processing')
+      `.execute(database);
+
+      const existingJob = existing.rows[0];
+      if (!existingJob) {
+        throw new Error("Failed to enqueue activity job");
+      }
+
+      logger.debug("Activity job already queued", {
+        jobId: existingJob.id,
+        activityId: jobData.activityId,
+      });
+      return { job: existingJob, created: false };
+    } catch (error) {
+      logger.error("Failed to enqueue activity job", { jobData, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Remove an activity's pending job, e.g. once the activity is deleted
+   *
+   * A job that is already processing is left to its worker.
+   *
+   * @returns Number of jobs removed
+   */
+  async deletePending(activityId: string): Promise<number> {
+    try {
+      const query = sql`
+        DELETE FROM activity_jobs
+        WHERE activity_id = ${activityId}
+        AND status = 'pending'
+      `;
+
+      const result = await query.execute(database);
+      const count = Number(result.numAffectedRows ?? 0);
+
+      if (count > 0) {
+        logger.info("Pending activity job removed", { activityId });
+      }
+      return count;
+    } catch (error) {
+      logger.error("Failed to remove pending activity job", {
+        activityId,
+        error,
+      });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Claim the next due job, including jobs whose lock has expired
+   *
+   * Uses SKIP LOCKED so concurrent workers never claim the same row.
+   */
+  async claimNext(
+    workerId: string,
+    visibilityTimeoutMs: number,
+  ): Promise<ActivityJob | null> {
+    try {
+      const query = sql<ActivityJob>`
+        UPDATE activity_jobs
+        SET
+          status = 'processing',
+          attempts = attempts + 1,
+          locked_by = ${workerId},
+          locked_until = NOW() + make_interval(secs => ${visibilityTimeoutMs / 1000}),
+          updated_at = NOW()
+        WHERE id = (
+          SELECT id FROM activity_jobs
+          WHERE attempts < max_attempts
+          AND (
+            (status = 'pending' AND run_at <= NOW())
+            OR (status = 'processing' AND locked_until < NOW())
+          )
+          ORDER BY run_at
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `;
+
+      const result = await query.execute(database);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error("Failed to claim activity job", { workerId, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  async complete(id: number, workerId: string): Promise<boolean> {
+    return this.release(id, workerId, {
+      status: "completed",
+      runAt: null,
+      error: null,
+    });
+  }
+
+  async retry(
+    id: number,
+    workerId: string,
+    runAt: Date,
+    error: string,
+  ): Promise<boolean> {
+    return this.release(id, workerId, { status: "pending", runAt, error });
+  }
+
+  /**
+   * Put a job back in the queue without using up the attempt it was claimed with
+   *
+   * For jobs that could not run yet rather than jobs that failed.
+   */
+  async reschedule(
+    id: number,
+    workerId: string,
+    runAt: Date,
+    reason: string,
+  ): Promise<boolean> {
+    return this.release(id, workerId, {
+      status: "pending",
+      runAt,
+      error: reason,
+      refundAttempt: true,
+    });
+  }
+
+  async deadLetter(
+    id: number,
+    workerId: string,
+    error: string,
+  ): Promise<boolean> {
+    return this.release(id, workerId, { status: "dead", runAt: null, error });
+  }
+
+  /**
+   * Move jobs whose lock expired on their final attempt to the dead letter state
+   */
+  async deadLetterExpired(): Promise<number> {
+    try {
+      const query = sql`
+        UPDATE activity_jobs
+        SET
+          status = 'dead',
+          locked_by = NULL,
+          locked_until = NULL,
+          last_error = COALESCE(last_error, 'Visibility timeout expired on final attempt'),
+          updated_at = NOW()
+        WHERE status = 'processing'
+        AND locked_until < NOW()
+        AND attempts >= max_attempts
+      `;
+
+      const result = await query.execute(database);
+      const count = Number(result.numAffectedRows ?? 0);
+
+      if (count > 0) {
+        logger.warn("Dead-lettered expired activity jobs", { count });
+      }
+      return count;
+    } catch (error) {
+      logger.error("Failed to dead-letter expired activity jobs", { error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  async countByStatus(): Promise<Record<ActivityJobStatus, number>> {
+    try {
+      const query = sql<{ status: ActivityJobStatus; count: string }>`
+        SELECT status, COUNT(*) as count
+        FROM activity_jobs
+        GROUP BY status
+      `;
+
+      const result = await query.execute(database);
+      const counts: Record<ActivityJobStatus, number> = {
+        pending: 0,
+        processing: 0,
+        completed: 0,
+        dead: 0,
+      };
+
+      for (const row of result.rows) {
+        counts[row.status] = Number(row.count);
+      }
+      return counts;
+    } catch (error) {
+      logger.error("Failed to count activity jobs", { error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Release a job held by this worker
+   *
+   * Only succeeds while the worker still owns the lock, so a worker whose
+   * visibility timeout expired cannot overwrite the job's new owner.
+   */
+  private async release(
+    id: number,
+    workerId: string,
+    outcome: {
+      status: ActivityJobStatus;
+      runAt: Date | null;
+      error: string | null;
+      refundAttempt?: boolean;
+    },
+  ): Promise<boolean> {
+    try {
+      const query = sql`
+        UPDATE activity_jobs
+        SET
+          status = ${outcome.status},
+          run_at = COALESCE(${outcome.runAt}, run_at),
+          last_error = ${outcome.error},
+          attempts = attempts - ${outcome.refundAttempt ? 1 : 0},
+          locked_by = NULL,
+          locked_until = NULL,
+          updated_at = NOW()
+        WHERE id = ${id}
+        AND status = 'processing'
+        AND locked_by = ${workerId}
+      `;
+
+      const result = await query.execute(database);
+      const released = Number(result.numAffectedRows ?? 0) > 0;
+
+      if (!released) {
+        logger.warn("Activity job lock lost before release", {
+          jobId: id,
+          workerId,
+          status: outcome.status,
+        });
+      }
+      return released;
+    } catch (error) {
+      logger.error("Failed to release activity job", {
+        jobId: id,
+        workerId,
+        status: outcome.status,
+        error,
+      });
+      throw parseDatabaseError(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const activityJobRepository = new ActivityJobRepository();
@@ -0,0 +1,94 @@
+import { sql } from "kysely";
+import { database } from "../lib/database";
+import { parseDatabaseError } from "../types/database";
+import { createServiceLogger } from "../utils/logger";
+
+const logger = createServiceLogger("activityLockRepository");
+
+/**
+ * Per-activity leases that serialize processing across workers and requests
+ *
+ * A lease is a row held until `locked_until`; if its holder dies the lease
+ * expires and the next caller takes it over.
+ */
+export class ActivityLockRepository {
+  /**
+   * Take the lease for an activity unless someone else holds it
+   *
+   * @param owner - Random token identifying this holder
+   * @param ttlMs - How long the lease lasts if it is never released
+   * @returns Whether the lease was acquired
+   */
+  async acquire(
+    activityId: string,
+    owner: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    try {
+      const query = sql<{ activity_id: string }>`
+        INSERT INTO activity_locks (activity_id, locked_by, locked_until)
+        VALUES (
+          ${activityId},
+          ${owner},
+          NOW() + make_interval(secs => ${ttlMs / 1000})
+        )
+        ON CONFLICT (activity_id) DO UPDATE SET
+          locked_by = EXCLUDED.locked_by,
+          locked_until = EXCLUDED.locked_until
+        WHERE activity_locks.locked_until < NOW()
+        RETURNING activity_id
+      `;
+
+      const result = await query.execute(database);
+      return result.rows.length > 0;
+    } catch (error) {
+      logger.error("Failed to acquire activity lock", { activityId, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Push back the expiry of a lease we still hold
+   *
+   * @returns False if the lease expired and was taken over
+   */
+  async renew(
+    activityId: string,
+    owner: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    try {
+      const query = sql<{ activity_id: string }>`
+        UPDATE activity_locks
+        SET locked_until = NOW() + make_interval(secs => ${ttlMs / 1000})
+        WHERE activity_id = ${activityId}
+        AND locked_by = ${owner}
+        RETURNING activity_id
+      `;
+
+      const result = await query.execute(database);
+      return result.rows.length > 0;
+    } catch (error) {
+      logger.error("Failed to renew activity lock", { activityId, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Give up a lease, if it is still ours
+   */
+  async release(activityId: string, owner: string): Promise<void> {
+    try {
+      await sql`
+        DELETE FROM activity_locks
+        WHERE activity_id = ${activityId}
+        AND locked_by = ${owner}
+      `.execute(database);
+    } catch (error) {
+      logger.error("Failed to release activity lock", { activityId, error });
+      throw parseDatabaseError(error);
+    }
+  }
+}
+
+export const activityLockRepository = new ActivityLockRepository();
@@ -0,0 +1,226 @@
+import { sql } from "kysely";
+import { database } from "../lib/database";
+import type {
+  ActivityOutcome,
+  ActivityWeather,
+  ActivityWeatherInsert,
+} from "../types/database";
+import { parseDatabaseError } from "../types/database";
+import { createServiceLogger } from "../utils/logger";
+
+const logger = createServiceLogger("activityWeatherRepository");
+
+/**
+ * History of processed activities
+ *
+ * Every processing attempt appends a row, so an activity's rows form its
+ * processing log and the newest row holds its current state.
+ */
+export class ActivityWeatherRepository {
+  async create(recordData: ActivityWeatherInsert): Promise<ActivityWeather> {
+    try {
+      const query = sql<ActivityWeather>`
+        INSERT INTO activity_weather (
+          activity_id,
+          user_id,
+          activity_name,
+          sport_type,
+          activity_start_date,
+          latitude,
+          longitude,
+          data_source,
+          weather_provider,
+          weather_data,
+          appended_text,
+          outcome,
+          reason,
+          retry_count,
+          duration_ms,
+          processed_at
+        ) VALUES (
+          ${recordData.activityId},
+          ${recordData.userId},
+          ${recordData.activityName ?? null},
+          ${recordData.sportType ?? null},
+          ${recordData.activityStartDate ?? null},
+          ${recordData.latitude ?? null},
+          ${recordData.longitude ?? null},
+          ${recordData.dataSource ?? null},
+          ${recordData.weatherProvider ?? null},
+          ${recordData.weatherData ? JSON.stringify(recordData.weatherData) : null},
+          ${recordData.appendedText ?? null},
+          ${recordData.outcome},
+          ${recordData.reason ?? null},
+          ${recordData.retryCount ?? 0},
+          ${recordData.durationMs ?? null},
+          ${new Date()}
+        )
+        RETURNING *
+      `;
+
+      const result = await query.execute(database);
+      const record = result.rows[0];
+
+      if (!record) {
+        throw new Error("Failed to create activity weather record");
+      }
+
+      logger.debug("Activity weather recorded", {
+        recordId: record.id,
+        activityId: recordData.activityId,
+        outcome: recordData.outcome,
+      });
+      return record;
+    } catch (error) {
+      logger.error("Failed to create activity weather record", {
+        activityId: recordData.activityId,
+        userId: recordData.userId,
+        outcome: recordData.outcome,
+        error,
+      });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Latest processing state of each of a user's activities, newest activity first
+   *
+   * Date filters apply to the activity start date, falling back to the
+   * processing time for records made before the activity was fetched.
+   */
+  async findLatestByUser(
+    userId: string,
+    options: {
+      from?: Date;
+      to?: Date;
+      sportType?: string;
+      outcome?: ActivityOutcome;
+      limit?: number;
+      offset?: number;
+    } = {},
+  ): Promise<{ records: ActivityWeather[]; total: number }> {
+    const { limit = 20, offset = 0 } = options;
+
+    const conditions = [sql`TRUE`];
+    if (options.from) {
+      conditions.push(
+        sql`COALESCE(activity_start_date, processed_at) >= ${options.from}`,
+      );
+    }
+    if (options.to) {
+      conditions.push(
+        sql`COALESCE(activity_start_date, processed_at) <= ${options.to}`,
+      );
+    }
+    if (options.sportType) {
+      conditions.push(sql`sport_type = ${options.sportType}`);
+    }
+    if (options.outcome) {
+      conditions.push(sql`outcome = ${options.outcome}`);
+    }
+
+    const filtered = sql`
+      WITH latest AS (
+        SELECT DISTINCT ON (activity_id) *
+        FROM activity_weather
+        WHERE user_id = ${userId}
+        ORDER BY activity_id, processed_at DESC, id DESC
+      )
+      SELECT * FROM latest
+      WHERE ${sql.join(conditions, sql` AND `)}
+    `;
+
+    try {
+      const query = sql<ActivityWeather>`
+        ${filtered}
+        ORDER BY COALESCE(activity_start_date, processed_at) DESC, id DESC
+        LIMIT ${limit}
+        OFFSET ${offset}
+      `;
+      const countQuery = sql<{ count: string }>`
+        SELECT COUNT(*) as count FROM (${filtered}) AS filtered
+      `;
+
+      const [result, countResult] = await Promise.all([
+        query.execute(database),
+        countQuery.execute(database),
+      ]);
+      const records = result.rows;
+      const total = Number(countResult.rows[0]?.count ?? 0);
+
+      return { records, total };
+    } catch (error) {
+      logger.error("Failed to find activity weather records for user", {
+        userId,
+        options,
+        error,
+      });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Processing log for one of a user's activities, oldest first
+   */
+  async findByActivityId(
+    activityId: string,
+    userId: string,
+  ): Promise<ActivityWeather[]> {
+    try {
+      const query = sql<ActivityWeather>`
+        SELECT * FROM activity_weather
+        WHERE activity_id = ${activityId}
+        AND user_id = ${userId}
+        ORDER BY processed_at ASC, id ASC
+      `;
+
+      const result = await query.execute(database);
+      return result.rows;
+    } catch (error) {
+      logger.error("Failed to find activity weather records", {
+        activityId,
+        userId,
+        error,
+      });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Delete the processing log for an activity
+   *
+   * @returns Number of records deleted
+   */
+  async deleteByActivityId(
+    activityId: string,
+    userId: string,
+  ): Promise<number> {
+    try {
+      const query = sql`
+        DELETE FROM activity_weather
+        WHERE activity_id = ${activityId}
+        AND user_id = ${userId}
+      `;
+
+      const result = await query.execute(database);
+      const count = Number(result.numAffectedRows ?? 0);
+
+      logger.info("Activity weather records deleted", {
+        activityId,
+        userId,
+        count,
+      });
+      return count;
+    } catch (error) {
+      logger.error("Failed to delete activity weather records", {
+        activityId,
+        userId,
+        error,
+      });
+      throw parseDatabaseError(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const activityWeatherRepository = new ActivityWeatherRepository();
@@ -0,0 +1,209 @@
+import { sql, type RawBuilder } from "kysely";
+import { database } from "../lib/database";
+import type { ActivityOutcome, BackfillJob } from "../types/database";
+import { parseDatabaseError } from "../types/database";
+import { createServiceLogger } from "../utils/logger";
+
+const logger = createServiceLogger("backfillJobRepository");
+
+/**
+ * Progress counter incremented for each processing outcome
+ */
+const OUTCOME_COLUMNS: Record<ActivityOutcome, string> = {
+  success: "enriched",
+  skipped: "skipped",
+  failed: "failed",
+};
+
+export class BackfillJobRepository {
+  async create(jobData: {
+    userId: string;
+    after: Date;
+    before: Date;
+  }): Promise<BackfillJob> {
+    try {
+      const query = sql<BackfillJob>`
+        INSERT INTO backfill_jobs (
+          user_id,
+          status,
+          after_date,
+          before_date
+        ) VALUES (
+          ${jobData.userId},
+          'pending',
+          ${jobData.after},
+          ${jobData.before}
+        )
+        RETURNING *
+      `;
+
+      const result = await query.execute(database);
+      const job = result.rows[0];
+
+      if (!job) {
+        throw new Error("Failed to create backfill job");
+      }
+
+      logger.info("Backfill job created", {
+        jobId: job.id,
+        userId: jobData.userId,
+      });
+      return job;
+    } catch (error) {
+      logger.error("Failed to create backfill job", { jobData, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  async findById(id: number, userId: string): Promise<BackfillJob | null> {
+    try {
+      const query = sql<BackfillJob>`
+        SELECT * FROM backfill_jobs
+        WHERE id = ${id}
+        AND user_id = ${userId}
+      `;
+
+      const result = await query.execute(database);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error("Failed to find backfill job", { id, userId, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  async findActiveByUser(userId: string): Promise<BackfillJob | null> {
+    try {
+      const query = sql<BackfillJob>`
+        SELECT * FROM backfill_jobs
+        WHERE user_id = ${userId}
+        AND status IN ('pending', 'running')
+        ORDER BY created_at DESC
+        LIMIT 1
+      `;
+
+      const result = await query.execute(database);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error("Failed to find active backfill job", { userId, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  async markRunning(id: number): Promise<void> {
+    await this.updateJob(
+      id,
+      sql`status = 'running', started_at = NOW()`,
+      "mark backfill job running",
+    );
+  }
+
+  async addActivitiesFound(id: number, count: number): Promise<void> {
+    await this.updateJob(
+      id,
+      sql`activities_found = activities_found + ${count}`,
+      "update backfill job activity count",
+    );
+  }
+
+  async recordOutcome(id: number, outcome: ActivityOutcome): Promise<void> {
+    const column = sql.raw(OUTCOME_COLUMNS[outcome]);
+
+    await this.updateJob(
+      id,
+      sql`processed = processed + 1, ${column} = ${column} + 1`,
+      "record backfill job progress",
+    );
+  }
+
+  async complete(id: number): Promise<void> {
+    await this.updateJob(
+      id,
+      sql`status = 'completed', completed_at = NOW()`,
+      "complete backfill job",
+    );
+  }
+
+  async fail(id: number, error: string): Promise<void> {
+    await this.updateJob(
+      id,
+      sql`status = 'failed', last_error = ${error}, completed_at = NOW()`,
+      "fail backfill job",
+    );
+  }
+
+  /**
+   * Mark an unfinished job as alive without recording progress
+   *
+   * Keeps a job that is waiting on the Strava rate limiter from being
+   * failed as stale.
+   */
+  async touch(id: number): Promise<void> {
+    try {
+      const query = sql`
+        UPDATE backfill_jobs
+        SET updated_at = NOW()
+        WHERE id = ${id}
+        AND status IN ('pending', 'running')
+      `;
+
+      await query.execute(database);
+    } catch (error) {
+      logger.error("Failed to touch backfill job", { jobId: id, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Fail unfinished jobs that have made no progress recently
+   *
+   * Backfills run in-process, so a job left running by a crashed
+   * instance stops updating and would otherwise block new backfills.
+   */
+  async failStale(staleAfterMs: number): Promise<number> {
+    try {
+      const query = sql`
+        UPDATE backfill_jobs
+        SET
+          status = 'failed',
+          last_error = 'Backfill stopped unexpectedly',
+          completed_at = NOW(),
+          updated_at = NOW()
+        WHERE status IN ('pending', 'running')
+        AND updated_at < NOW() - make_interval(secs => ${staleAfterMs / 1000})
+      `;
+
+      const result = await query.execute(database);
+      const count = Number(result.numAffectedRows ?? 0);
+
+      if (count > 0) {
+        logger.warn("Failed stale backfill jobs", { count });
+      }
+      return count;
+    } catch (error) {
+      logger.error("Failed to fail stale backfill jobs", { error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  private async updateJob(
+    id: number,
+    changes: RawBuilder<unknown>,
+    action: string,
+  ): Promise<void> {
+    try {
+      const query = sql`
+        UPDATE backfill_jobs
+        SET ${changes}, updated_at = NOW()
+        WHERE id = ${id}
+      `;
+
+      await query.execute(database);
+    } catch (error) {
+      logger.error(`Failed to ${action}`, { jobId: id, error });
+      throw parseDatabaseError(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const backfillJobRepository = new BackfillJobRepository();
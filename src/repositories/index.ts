@@ -4,3 +4,20 @@ export {
   UserPreferenceRepository,
   userPreferenceRepository,
 } from "./userPreferenceRepository";
+export {
+  ActivityJobRepository,
+  activityJobRepository,
+} from "./activityJobRepository";
+export {
+  ActivityWeatherRepository,
+  activityWeatherRepository,
+} from "./activityWeatherRepository";
+export {
+  BackfillJobRepository,
+  backfillJobRepository,
+} from "./backfillJobRepository";
+export { WebhookRepository, webhookRepository } from "./webhookRepository";
+export {
+  ActivityLockRepository,
+  activityLockRepository,
+} from "./activityLockRepository";
@@ -40,6 +40,12 @@ export class UserPreferenceRepository {
           "includeUvIndex",
           "includeVisibility",
           "customFormat",
+          "includeSportTypes",
+          "excludeSportTypes",
+          "skipPrivate",
+          "skipTrainer",
+          "minDurationMinutes",
+          "skipWithoutMovement",
           "createdAt",
           "updatedAt"
         ) VALUES (
@@ -50,6 +56,12 @@ export class UserPreferenceRepository {
           ${preferenceData.includeUvIndex},
           ${preferenceData.includeVisibility},
           ${preferenceData.customFormat},
+          ${preferenceData.includeSportTypes},
+          ${preferenceData.excludeSportTypes},
+          ${preferenceData.skipPrivate},
+          ${preferenceData.skipTrainer},
+          ${preferenceData.minDurationMinutes},
+          ${preferenceData.skipWithoutMovement},
           ${new Date()},
           ${new Date()}
         )
@@ -88,6 +100,12 @@ export class UserPreferenceRepository {
           "includeUvIndex",
           "includeVisibility",
           "customFormat",
+          "includeSportTypes",
+          "excludeSportTypes",
+          "skipPrivate",
+          "skipTrainer",
+          "minDurationMinutes",
+          "skipWithoutMovement",
           "createdAt",
           "updatedAt"
         ) VALUES (
@@ -98,6 +116,12 @@ export class UserPreferenceRepository {
           ${preferenceData.includeUvIndex},
           ${preferenceData.includeVisibility},
           ${preferenceData.customFormat},
+          ${preferenceData.includeSportTypes},
+          ${preferenceData.excludeSportTypes},
+          ${preferenceData.skipPrivate},
+          ${preferenceData.skipTrainer},
+          ${preferenceData.minDurationMinutes},
+          ${preferenceData.skipWithoutMovement},
           ${new Date()},
           ${new Date()}
         )
@@ -108,6 +132,12 @@ export class UserPreferenceRepository {
           "includeUvIndex" = EXCLUDED."includeUvIndex",
           "includeVisibility" = EXCLUDED."includeVisibility",
           "customFormat" = EXCLUDED."customFormat",
+          "includeSportTypes" = EXCLUDED."includeSportTypes",
+          "excludeSportTypes" = EXCLUDED."excludeSportTypes",
+          "skipPrivate" = EXCLUDED."skipPrivate",
+          "skipTrainer" = EXCLUDED."skipTrainer",
+          "minDurationMinutes" = EXCLUDED."minDurationMinutes",
+          "skipWithoutMovement" = EXCLUDED."skipWithoutMovement",
           "updatedAt" = ${new Date()}
         RETURNING *
       `;
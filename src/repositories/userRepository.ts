@@ -8,9 +8,18 @@ import type {
 } from "../types/database";
 import { parseDatabaseError } from "../types/database";
 import { createServiceLogger } from "../utils/logger";
+import { tokenCipher } from "../utils/tokenEncryption";
 
 const logger = createServiceLogger("userRepository");
 
+/**
+ * Replace the stored token ciphertext with plaintext tokens
+ */
+const decryptTokens = <T extends User>(user: T): T => ({
+  ...user,
+  ...tokenCipher.decrypt(user),
+});
+
 export class UserRepository {
   async findById(id: string): Promise<User | null> {
     try {
@@ -20,7 +29,8 @@ export class UserRepository {
       `;
 
       const result = await query.execute(database);
-      return result.rows[0] || null;
+      const user = result.rows[0];
+      return user ? decryptTokens(user) : null;
     } catch (error) {
       logger.error("Failed to find user by ID", { id, error });
       throw parseDatabaseError(error);
@@ -35,7 +45,8 @@ export class UserRepository {
       `;
 
       const result = await query.execute(database);
-      return result.rows[0] || null;
+      const user = result.rows[0];
+      return user ? decryptTokens(user) : null;
     } catch (error) {
       logger.error("Failed to find user by Strava athlete ID", {
         stravaAthleteId,
@@ -55,6 +66,12 @@ export class UserRepository {
         pref_includeUvIndex: boolean | null;
         pref_includeVisibility: boolean | null;
         pref_customFormat: string | null;
+        pref_includeSportTypes: string[] | null;
+        pref_excludeSportTypes: string[] | null;
+        pref_skipPrivate: boolean | null;
+        pref_skipTrainer: boolean | null;
+        pref_minDurationMinutes: number | null;
+        pref_skipWithoutMovement: boolean | null;
         pref_createdAt: Date | null;
         pref_updatedAt: Date | null;
       };
@@ -63,14 +80,20 @@ export class UserRepository {
         SELECT 
           u.*,
           p.id as pref_id,
-          p."userId" as pref_userId,
-          p."temperatureUnit" as pref_temperatureUnit,
-          p."weatherFormat" as pref_weatherFormat,
-          p."includeUvIndex" as pref_includeUvIndex,
-          p."includeVisibility" as pref_includeVisibility,
-          p."customFormat" as pref_customFormat,
-          p."createdAt" as pref_createdAt,
-          p."updatedAt" as pref_updatedAt
+          p."userId" as "pref_userId",
+          p."temperatureUnit" as "pref_temperatureUnit",
+          p."weatherFormat" as "pref_weatherFormat",
+          p."includeUvIndex" as "pref_includeUvIndex",
+          p."includeVisibility" as "pref_includeVisibility",
+          p."customFormat" as "pref_customFormat",
+          p."includeSportTypes" as "pref_includeSportTypes",
+          p."excludeSportTypes" as "pref_excludeSportTypes",
+          p."skipPrivate" as "pref_skipPrivate",
+          p."skipTrainer" as "pref_skipTrainer",
+          p."minDurationMinutes" as "pref_minDurationMinutes",
+          p."skipWithoutMovement" as "pref_skipWithoutMovement",
+          p."createdAt" as "pref_createdAt",
+          p."updatedAt" as "pref_updatedAt"
         FROM users u
         LEFT JOIN user_preferences p ON u.id = p."userId"
         WHERE u.id = ${id}
@@ -88,6 +111,9 @@ export class UserRepository {
         accessToken: result.accessToken,
         refreshToken: result.refreshToken,
         tokenExpiresAt: result.tokenExpiresAt,
+        tokenKeyId: result.tokenKeyId,
+        tokenDataKey: result.tokenDataKey,
+        authStatus: result.authStatus,
         weatherEnabled: result.weatherEnabled,
         firstName: result.firstName,
         lastName: result.lastName,
@@ -110,12 +136,18 @@ export class UserRepository {
             includeUvIndex: result.pref_includeUvIndex!,
             includeVisibility: result.pref_includeVisibility!,
             customFormat: result.pref_customFormat,
+            includeSportTypes: result.pref_includeSportTypes!,
+            excludeSportTypes: result.pref_excludeSportTypes!,
+            skipPrivate: result.pref_skipPrivate!,
+            skipTrainer: result.pref_skipTrainer!,
+            minDurationMinutes: result.pref_minDurationMinutes,
+            skipWithoutMovement: result.pref_skipWithoutMovement!,
             createdAt: result.pref_createdAt!,
             updatedAt: result.pref_updatedAt!,
           }
         : null;
 
-      return { ...user, preferences };
+      return { ...decryptTokens(user), preferences };
     } catch (error) {
       logger.error("Failed to find user with preferences", { id, error });
       throw parseDatabaseError(error);
@@ -146,15 +178,46 @@ export class UserRepository {
       `;
 
       const result = await query.execute(database);
-      return result.rows;
+      return result.rows.map(decryptTokens);
     } catch (error) {
       logger.error("Failed to find users", { options, error });
       throw parseDatabaseError(error);
     }
   }
 
+  /**
+   * Find users whose access token expires before the given time
+   *
+   * Users who need to re-authorize are excluded, as their refresh token
+   * has already been rejected.
+   *
+   * @param before - Expiry cutoff
+   * @param limit - Maximum users to return, soonest expiry first
+   */
+  async findWithExpiringTokens(before: Date, limit: number): Promise<User[]> {
+    try {
+      const query = sql<User>`
+        SELECT * FROM users
+        WHERE "tokenExpiresAt" <= ${before}
+          AND "authStatus" = 'active'
+        ORDER BY "tokenExpiresAt" ASC
+        LIMIT ${limit}
+      `;
+
+      const result = await query.execute(database);
+      return result.rows.map(decryptTokens);
+    } catch (error) {
+      logger.error("Failed to find users with expiring tokens", {
+        before,
+        error,
+      });
+      throw parseDatabaseError(error);
+    }
+  }
+
   async create(userData: UserInsert): Promise<User> {
     try {
+      const tokens = tokenCipher.encrypt(userData);
       const query = sql<User>`
         INSERT INTO users (
           id,
@@ -162,6 +225,8 @@ export class UserRepository {
           "accessToken",
           "refreshToken",
           "tokenExpiresAt",
+          "tokenKeyId",
+          "tokenDataKey",
           "weatherEnabled",
           "firstName",
           "lastName",
@@ -174,9 +239,11 @@ export class UserRepository {
         ) VALUES (
           gen_random_uuid(),
           ${userData.stravaAthleteId},
-          ${userData.accessToken},
-          ${userData.refreshToken},
+          ${tokens.accessToken},
+          ${tokens.refreshToken},
           ${userData.tokenExpiresAt},
+          ${tokens.tokenKeyId},
+          ${tokens.tokenDataKey},
           ${userData.weatherEnabled},
           ${userData.firstName},
           ${userData.lastName},
@@ -198,7 +265,7 @@ export class UserRepository {
       }
 
       logger.info("User created", { userId: user.id });
-      return user;
+      return decryptTokens(user);
     } catch (error) {
       logger.error("Failed to create user", {
         userData: { ...userData, accessToken: "***", refreshToken: "***" },
@@ -210,6 +277,7 @@ export class UserRepository {
 
   async upsert(userData: UserInsert): Promise<User> {
     try {
+      const tokens = tokenCipher.encrypt(userData);
       const query = sql<User>`
         INSERT INTO users (
           id,
@@ -217,6 +285,8 @@ export class UserRepository {
           "accessToken",
           "refreshToken",
           "tokenExpiresAt",
+          "tokenKeyId",
+          "tokenDataKey",
           "weatherEnabled",
           "firstName",
           "lastName",
@@ -229,9 +299,11 @@ export class UserRepository {
         ) VALUES (
           gen_random_uuid(),
           ${userData.stravaAthleteId},
-          ${userData.accessToken},
-          ${userData.refreshToken},
+          ${tokens.accessToken},
+          ${tokens.refreshToken},
           ${userData.tokenExpiresAt},
+          ${tokens.tokenKeyId},
+          ${tokens.tokenDataKey},
           ${userData.weatherEnabled},
           ${userData.firstName},
           ${userData.lastName},
@@ -247,6 +319,9 @@ export class UserRepository {
           "accessToken" = EXCLUDED."accessToken",
           "refreshToken" = EXCLUDED."refreshToken",
           "tokenExpiresAt" = EXCLUDED."tokenExpiresAt",
+          "tokenKeyId" = EXCLUDED."tokenKeyId",
+          "tokenDataKey" = EXCLUDED."tokenDataKey",
+          "authStatus" = 'active',
           "weatherEnabled" = EXCLUDED."weatherEnabled",
           "firstName" = EXCLUDED."firstName",
           "lastName" = EXCLUDED."lastName",
@@ -266,7 +341,7 @@ export class UserRepository {
       }
 
       logger.info("User upserted", { userId: user.id });
-      return user;
+      return decryptTokens(user);
     } catch (error) {
       logger.error("Failed to upsert user", {
         userData: { ...userData, accessToken: "***", refreshToken: "***" },
@@ -278,10 +353,24 @@ export class UserRepository {
 
   async update(id: string, userData: UserUpdate): Promise<User> {
     try {
+      const { accessToken, refreshToken, ...fields } = userData;
+
+      // Both tokens share the row's data key, so they are always rewritten together
+      if ((accessToken === undefined) !== (refreshToken === undefined)) {
+        throw new Error(
+          "accessToken and refreshToken must be updated together",
+        );
+      }
+      const tokens =
+        accessToken !== undefined && refreshToken !== undefined
+          ? tokenCipher.encrypt({ accessToken, refreshToken })
+          : {};
+
       const user = await database
         .updateTable("users")
         .set({
-          ...userData,
+          ...fields,
+          ...tokens,
           updatedAt: new Date(),
         })
         .where("id", "=", id)
@@ -293,7 +382,7 @@ export class UserRepository {
       }
 
       logger.info("User updated", { userId: id });
-      return user;
+      return decryptTokens(user);
     } catch (error) {
       logger.error("Failed to update user", {
         id,
@@ -308,6 +397,62 @@ export class UserRepository {
     }
   }
 
+  /**
+   * Store refreshed tokens only if the refresh token is still `expected`
+   *
+   * Strava rotates refresh tokens, so a refresh that lost a race must not
+   * overwrite the winner's token. Tokens are encrypted with a fresh data key
+   * on every write, so the stored token is decrypted and compared under a
+   * row lock rather than in the WHERE clause.
+   *
+   * @returns The updated user, or null if the refresh token had changed
+   */
+  async swapTokens(
+    id: string,
+    expectedRefreshToken: string,
+    tokens: { accessToken: string; refreshToken: string; tokenExpiresAt: Date },
+  ): Promise<User | null> {
+    try {
+      return await database.transaction().execute(async (trx) => {
+        const current = await trx
+          .selectFrom("users")
+          .selectAll()
+          .where("id", "=", id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!current) {
+          throw new (require("../types/database").NotFoundError)("User");
+        }
+        if (
+          tokenCipher.decrypt(current).refreshToken !== expectedRefreshToken
+        ) {
+          logger.info("Refresh token changed concurrently, tokens not stored", {
+            userId: id,
+          });
+          return null;
+        }
+
+        const user = await trx
+          .updateTable("users")
+          .set({
+            ...tokenCipher.encrypt(tokens),
+            tokenExpiresAt: tokens.tokenExpiresAt,
+            updatedAt: new Date(),
+          })
+          .where("id", "=", id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        logger.info("User tokens refreshed", { userId: id });
+        return decryptTokens(user);
+      });
+    } catch (error) {
+      logger.error("Failed to store refreshed tokens", { id, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
   async delete(id: string): Promise<void> {
     try {
       const query = sql`
@@ -351,6 +496,63 @@ export class UserRepository {
     }
   }
 
+  /**
+   * Re-encrypt every user's tokens under the active key
+   *
+   * Also encrypts rows written before token encryption. Every token write
+   * wraps a fresh data key, so rows are claimed by the data key they were
+   * read with: a concurrent token refresh wins even when it was written
+   * under the same, older key.
+   *
+   * @param batchSize - Rows to read per query
+   * @returns Number of rows re-encrypted
+   */
+  async rotateTokenKeys(batchSize = 100): Promise<number> {
+    let rotated = 0;
+
+    try {
+      for (;;) {
+        const { rows } = await sql<User>`
+          SELECT * FROM users
+          WHERE "tokenKeyId" IS DISTINCT FROM ${tokenCipher.activeKeyId}
+          ORDER BY id
+          LIMIT ${batchSize}
+        `.execute(database);
+
+        if (rows.length === 0) break;
+
+        const rotatedBefore = rotated;
+        for (const user of rows) {
+          const tokens = tokenCipher.encrypt(tokenCipher.decrypt(user));
+
+          const result = await sql`
+            UPDATE users
+            SET "accessToken" = ${tokens.accessToken},
+                "refreshToken" = ${tokens.refreshToken},
+                "tokenKeyId" = ${tokens.tokenKeyId},
+                "tokenDataKey" = ${tokens.tokenDataKey}
+            WHERE id = ${user.id}
+              AND "tokenDataKey" IS NOT DISTINCT FROM ${user.tokenDataKey}
+          `.execute(database);
+
+          rotated += Number(result.numAffectedRows ?? 0);
+        }
+
+        // Stop if another writer keeps these rows on an older key
+        if (rotated === rotatedBefore) break;
+      }
+
+      logger.info("User token keys rotated", {
+        rotated,
+        keyId: tokenCipher.activeKeyId,
+      });
+      return rotated;
+    } catch (error) {
+      logger.error("Failed to rotate user token keys", { rotated, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
   async count(): Promise<number> {
     try {
       const query = sql<{ count: number }>`
@@ -0,0 +1,168 @@
+import { sql } from "kysely";
+import { database } from "../lib/database";
+import { parseDatabaseError } from "../types/database";
+import { createServiceLogger } from "../utils/logger";
+
+const logger = createServiceLogger("webhookRepository");
+
+/**
+ * Strava webhook event as recorded in the inbox
+ *
+ * Strava delivers at least once; a redelivery repeats the same object_id,
+ * aspect_type and event_time.
+ */
+export interface WebhookInboxEvent {
+  object_id: number;
+  aspect_type: string;
+  event_time: number;
+  owner_id: number;
+}
+
+/**
+ * Strava webhook subscription and inbox of handled events
+ */
+export class WebhookRepository {
+  /**
+   * Store the subscription events must belong to, replacing any other
+   */
+  async saveSubscription(subscription: {
+    id: number;
+    callback_url: string;
+  }): Promise<void> {
+    try {
+      await database.transaction().execute(async (trx) => {
+        await trx
+          .deleteFrom("webhook_subscriptions")
+          .where("subscription_id", "!=", subscription.id)
+          .execute();
+        await trx
+          .insertInto("webhook_subscriptions")
+          .values({
+            subscription_id: subscription.id,
+            callback_url: subscription.callback_url,
+            created_at: new Date(),
+          })
+          .onConflict((oc) =>
+            oc.column("subscription_id").doUpdateSet({
+              callback_url: subscription.callback_url,
+            }),
+          )
+          .execute();
+      });
+
+      logger.info("Webhook subscription saved", {
+        subscriptionId: subscription.id,
+      });
+    } catch (error) {
+      logger.error("Failed to save webhook subscription", {
+        subscriptionId: subscription.id,
+        error,
+      });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  async deleteSubscription(subscriptionId: number): Promise<void> {
+    try {
+      await database
+        .deleteFrom("webhook_subscriptions")
+        .where("subscription_id", "=", subscriptionId)
+        .execute();
+    } catch (error) {
+      logger.error("Failed to delete webhook subscription", {
+        subscriptionId,
+        error,
+      });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * @returns The stored subscription id, or null if none has been saved
+   */
+  async findSubscriptionId(): Promise<number | null> {
+    try {
+      const row = await database
+        .selectFrom("webhook_subscriptions")
+        .select("subscription_id")
+        .orderBy("created_at", "desc")
+        .executeTakeFirst();
+
+      return row?.subscription_id ?? null;
+    } catch (error) {
+      logger.error("Failed to find webhook subscription", { error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Record an event in the inbox before handling it
+   *
+   * @returns False if the event was already recorded, i.e. a redelivery
+   */
+  async claimEvent(event: WebhookInboxEvent): Promise<boolean> {
+    try {
+      const query = sql<{ id: number }>`
+        INSERT INTO webhook_events (
+          object_id,
+          aspect_type,
+          event_time,
+          owner_id
+        ) VALUES (
+          ${event.object_id},
+          ${event.aspect_type},
+          ${event.event_time},
+          ${event.owner_id}
+        )
+        ON CONFLICT (object_id, aspect_type, event_time) DO NOTHING
+        RETURNING id
+      `;
+
+      const result = await query.execute(database);
+      return result.rows.length > 0;
+    } catch (error) {
+      logger.error("Failed to record webhook event", { event, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Remove an event from the inbox so Strava's redelivery is handled
+   *
+   * Used when handling failed after the event was claimed.
+   */
+  async releaseEvent(event: WebhookInboxEvent): Promise<void> {
+    try {
+      await sql`
+        DELETE FROM webhook_events
+        WHERE object_id = ${event.object_id}
+        AND aspect_type = ${event.aspect_type}
+        AND event_time = ${event.event_time}
+      `.execute(database);
+    } catch (error) {
+      logger.error("Failed to release webhook event", { event, error });
+      throw parseDatabaseError(error);
+    }
+  }
+
+  /**
+   * Delete inbox events received before the cutoff
+   *
+   * @returns Number of events deleted
+   */
+  async pruneEvents(olderThan: Date): Promise<number> {
+    try {
+      const result = await database
+        .deleteFrom("webhook_events")
+        .where("received_at", "<", olderThan)
+        .executeTakeFirst();
+
+      return Number(result.numDeletedRows);
+    } catch (error) {
+      logger.error("Failed to prune webhook events", { olderThan, error });
+      throw parseDatabaseError(error);
+    }
+  }
+}
+
+export const webhookRepository = new WebhookRepository();
@@ -0,0 +1,417 @@
+import { describe, it, expect, beforeEach, vi, MockedFunction } from "vitest";
+import request from "supertest";
+import express from "express";
+import { factories } from "../../test/setup";
+
+// Mock environment config to prevent validation errors in CI
+vi.mock("../../config/environment", () => ({
+  config: {
+    STRAVA_CLIENT_ID: "test-client-id",
+    STRAVA_CLIENT_SECRET: "test-client-secret",
+    SESSION_SECRET: "test-session-secret",
+    DATABASE_URL: "postgresql://test",
+    OPENWEATHERMAP_API_KEY: "test-weather-key",
+    STRAVA_WEBHOOK_VERIFY_TOKEN: "test-webhook-token",
+    APP_URL: "http://localhost:3000",
+    LOG_LEVEL: "info",
+    isProduction: false,
+    isDevelopment: true,
+    isTest: true,
+  },
+}));
+
+vi.mock("../../lib", () => ({
+  activityWeatherRepository: {
+    findLatestByUser: vi.fn(),
+    findByActivityId: vi.fn(),
+  },
+  backfillJobRepository: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock("../../services/backfillService", () => ({
+  backfillService: {
+    start: vi.fn(),
+  },
+}));
+
+vi.mock("../../services/activityProcessor", () => ({
+  activityProcessor: {
+    processActivity: vi.fn(),
+  },
+}));
+
+vi.mock("../../middleware/auth", () => ({
+  authenticateUser: vi.fn((req: any, _res: any, next: any) => {
+    req.user = { id: "user-123", stravaAthleteId: "12345" };
+    next();
+  }),
+}));
+
+vi.mock("../../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import { activitiesRouter } from "../activities";
+import { activityWeatherRepository, backfillJobRepository } from "../../lib";
+import { backfillService } from "../../services/backfillService";
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/activities", activitiesRouter);
+  app.use(
+    (
+      err: any,
+      _req: express.Request,
+      res: express.Response,
+      _next: express.NextFunction,
+    ) => {
+      res.status(err.statusCode || 500).json({
+        error: { message: err.message, statusCode: err.statusCode || 500 },
+      });
+    },
+  );
+  return app;
+}
+
+describe("Activities Router", () => {
+  let app: express.Application;
+
+  const weatherData = factories.weatherData();
+
+  const successRecord = {
+    id: 2,
+    activity_id: "123456",
+    user_id: "user-123",
+    activity_name: "Morning Run",
+    sport_type: "Run",
+    activity_start_date: new Date("2024-01-15T07:30:00Z"),
+    latitude: 52.52,
+    longitude: 13.405,
+    data_source: "historical",
+    weather_provider: "openweathermap",
+    weather_data: weatherData,
+    appended_text: "Partly cloudy, 15°C",
+    outcome: "success",
+    reason: null,
+    retry_count: 1,
+    duration_ms: 850,
+    processed_at: new Date("2024-01-15T09:00:00Z"),
+  };
+
+  const failedRecord = {
+    ...successRecord,
+    id: 1,
+    data_source: null,
+    weather_provider: null,
+    weather_data: null,
+    appended_text: null,
+    outcome: "failed",
+    reason: "Activity not found on Strava",
+    retry_count: 0,
+    processed_at: new Date("2024-01-15T08:00:00Z"),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = createTestApp();
+  });
+
+  describe("GET /api/activities", () => {
+    beforeEach(() => {
+      (
+        activityWeatherRepository.findLatestByUser as MockedFunction<any>
+      ).mockResolvedValue({ records: [successRecord], total: 41 });
+    });
+
+    it("should list processed activities with pagination", async () => {
+      const response = await request(app).get("/api/activities");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.pagination).toEqual({
+        page: 1,
+        limit: 20,
+        total: 41,
+        totalPages: 3,
+      });
+      expect(response.body.data.activities[0]).toMatchObject({
+        activityId: "123456",
+        name: "Morning Run",
+        sportType: "Run",
+        location: { lat: 52.52, lon: 13.405 },
+        outcome: "success",
+        dataSource: "historical",
+        appendedText: "Partly cloudy, 15°C",
+      });
+      expect(activityWeatherRepository.findLatestByUser).toHaveBeenCalledWith(
+        "user-123",
+        { limit: 20, offset: 0 },
+      );
+    });
+
+    it("should pass filters and page offset to the repository", async () => {
+      const response = await request(app).get("/api/activities").query({
+        page: 3,
+        limit: 10,
+        from: "2024-01-01T00:00:00Z",
+        to: "2024-01-31T23:59:59Z",
+        sportType: "Ride",
+        outcome: "skipped",
+      });
+
+      expect(response.status).toBe(200);
+      expect(activityWeatherRepository.findLatestByUser).toHaveBeenCalledWith(
+        "user-123",
+        {
+          from: new Date("2024-01-01T00:00:00Z"),
+          to: new Date("2024-01-31T23:59:59Z"),
+          sportType: "Ride",
+          outcome: "skipped",
+          limit: 10,
+          offset: 20,
+        },
+      );
+    });
+
+    it("should reject invalid query parameters", async () => {
+      const response = await request(app)
+        .get("/api/activities")
+        .query({ outcome: "exploded" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toMatch(/^Invalid query parameters:/);
+      expect(activityWeatherRepository.findLatestByUser).not.toHaveBeenCalled();
+    });
+
+    it("should reject an inverted date range", async () => {
+      const response = await request(app)
+        .get("/api/activities")
+        .query({ from: "2024-02-01", to: "2024-01-01" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe(
+        "Invalid query parameters: from must be before to",
+      );
+    });
+  });
+
+  describe("GET /api/activities/:activityId", () => {
+    it("should return the weather snapshot and processing log", async () => {
+      (
+        activityWeatherRepository.findByActivityId as MockedFunction<any>
+      ).mockResolvedValue([failedRecord, successRecord]);
+
+      const response = await request(app).get("/api/activities/123456");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        activityId: "123456",
+        outcome: "success",
+        dataSource: "historical",
+        weatherProvider: "openweathermap",
+        weatherData,
+      });
+      expect(response.body.data.log).toEqual([
+        {
+          outcome: "failed",
+          reason: "Activity not found on Strava",
+          dataSource: null,
+          weatherProvider: null,
+          retryCount: 0,
+          durationMs: 850,
+          processedAt: "2024-01-15T08:00:00.000Z",
+        },
+        {
+          outcome: "success",
+          reason: null,
+          dataSource: "historical",
+          weatherProvider: "openweathermap",
+          retryCount: 1,
+          durationMs: 850,
+          processedAt: "2024-01-15T09:00:00.000Z",
+        },
+      ]);
+      expect(activityWeatherRepository.findByActivityId).toHaveBeenCalledWith(
+        "123456",
+        "user-123",
+      );
+    });
+
+    it("should keep the last snapshot when a later attempt failed", async () => {
+      (
+        activityWeatherRepository.findByActivityId as MockedFunction<any>
+      ).mockResolvedValue([
+        successRecord,
+        { ...failedRecord, processed_at: new Date("2024-01-16T08:00:00Z") },
+      ]);
+
+      const response = await request(app).get("/api/activities/123456");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.outcome).toBe("failed");
+      expect(response.body.data.weatherData).toEqual(weatherData);
+    });
+
+    it("should return 404 for activities that were never processed", async () => {
+      (
+        activityWeatherRepository.findByActivityId as MockedFunction<any>
+      ).mockResolvedValue([]);
+
+      const response = await request(app).get("/api/activities/999");
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.message).toBe(
+        "Activity has not been processed",
+      );
+    });
+
+    it("should reject non-numeric activity IDs", async () => {
+      const response = await request(app).get("/api/activities/abc");
+
+      expect(response.status).toBe(400);
+      expect(activityWeatherRepository.findByActivityId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("activity backfill", () => {
+    const backfillJob = {
+      id: 5,
+      user_id: "user-123",
+      status: "pending",
+      after_date: new Date("2024-01-01T00:00:00Z"),
+      before_date: new Date("2024-02-01T00:00:00Z"),
+      activities_found: 0,
+      processed: 0,
+      enriched: 0,
+      skipped: 0,
+      failed: 0,
+      last_error: null,
+      created_at: new Date("2024-02-01T12:00:00Z"),
+      started_at: null,
+      completed_at: null,
+      updated_at: new Date("2024-02-01T12:00:00Z"),
+    };
+
+    it("should start a backfill for the requested range", async () => {
+      (backfillService.start as MockedFunction<any>).mockResolvedValue({
+        job: backfillJob,
+        created: true,
+      });
+
+      const response = await request(app)
+        .post("/api/activities/backfill")
+        .send({
+          after: "2024-01-01T00:00:00Z",
+          before: "2024-02-01T00:00:00Z",
+        });
+
+      expect(response.status).toBe(202);
+      expect(response.body.data).toMatchObject({
+        jobId: 5,
+        status: "pending",
+        progress: { activitiesFound: 0, processed: 0 },
+      });
+      expect(backfillService.start).toHaveBeenCalledWith("user-123", {
+        after: new Date("2024-01-01T00:00:00Z"),
+        before: new Date("2024-02-01T00:00:00Z"),
+      });
+    });
+
+    it("should default the end of the range to now", async () => {
+      (backfillService.start as MockedFunction<any>).mockResolvedValue({
+        job: backfillJob,
+        created: true,
+      });
+
+      await request(app)
+        .post("/api/activities/backfill")
+        .send({ after: "2024-01-01T00:00:00Z" });
+
+      expect(backfillService.start).toHaveBeenCalledWith("user-123", {
+        after: new Date("2024-01-01T00:00:00Z"),
+        before: expect.any(Date),
+      });
+    });
+
+    it("should return 409 with the running job when one exists", async () => {
+      (backfillService.start as MockedFunction<any>).mockResolvedValue({
+        job: { ...backfillJob, status: "running" },
+        created: false,
+      });
+
+      const response = await request(app)
+        .post("/api/activities/backfill")
+        .send({ after: "2024-01-01T00:00:00Z" });
+
+      expect(response.status).toBe(409);
+      expect(response.body.data).toMatchObject({ jobId: 5, status: "running" });
+    });
+
+    it("should reject an inverted range", async () => {
+      const response = await request(app)
+        .post("/api/activities/backfill")
+        .send({
+          after: "2024-02-01T00:00:00Z",
+          before: "2024-01-01T00:00:00Z",
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe(
+        "Invalid backfill data: after must be earlier than before",
+      );
+      expect(backfillService.start).not.toHaveBeenCalled();
+    });
+
+    it("should report progress for the user's backfill job", async () => {
+      (backfillJobRepository.findById as MockedFunction<any>).mockResolvedValue(
+        {
+          ...backfillJob,
+          status: "running",
+          activities_found: 50,
+          processed: 12,
+          enriched: 9,
+          skipped: 2,
+          failed: 1,
+        },
+      );
+
+      const response = await request(app).get("/api/activities/backfill/5");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.progress).toEqual({
+        activitiesFound: 50,
+        processed: 12,
+        enriched: 9,
+        skipped: 2,
+        failed: 1,
+      });
+      expect(backfillJobRepository.findById).toHaveBeenCalledWith(
+        5,
+        "user-123",
+      );
+    });
+
+    it("should return 404 for unknown backfill jobs", async () => {
+      (backfillJobRepository.findById as MockedFunction<any>).mockResolvedValue(
+        null,
+      );
+
+      const response = await request(app).get("/api/activities/backfill/99");
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
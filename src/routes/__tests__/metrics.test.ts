@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi, MockedFunction } from "vitest";
+import request from "supertest";
+import express from "express";
+
+vi.mock("../../services/metricsService", () => ({
+  METRICS_BUCKETS: {
+    "5m": 300,
+    "15m": 900,
+    "1h": 3600,
+    "6h": 21600,
+    "1d": 86400,
+  },
+  metricsService: {
+    getStats: vi.fn(),
+    getSeries: vi.fn(),
+  },
+}));
+
+vi.mock("../../utils/logger", () => ({
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import metricsRouter from "../metrics";
+import { metricsService } from "../../services/metricsService";
+
+function createTestApp() {
+  const app = express();
+  app.use("/api/metrics", metricsRouter);
+  return app;
+}
+
+describe("Metrics Router", () => {
+  let app: express.Application;
+
+  const percentiles = { p50: 100, p90: 250.4, p95: 400, p99: 900.6 };
+  const emptyApi = {
+    avg_duration_ms: 0,
+    success_rate: 0,
+    percentiles_ms: { p50: 0, p90: 0, p95: 0, p99: 0 },
+    endpoints: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = createTestApp();
+
+    (metricsService.getStats as MockedFunction<any>).mockResolvedValue({
+      webhook_processing: {
+        count: 10,
+        success_rate: 0.9,
+        avg_duration_ms: 180,
+        p95_duration_ms: 400,
+        percentiles_ms: percentiles,
+        avg_retry_count: 0.2,
+      },
+      api_performance: {
+        strava: {
+          avg_duration_ms: 150,
+          success_rate: 0.5,
+          percentiles_ms: percentiles,
+          endpoints: [
+            {
+              endpoint: "GET /activities/{id}",
+              status_class: "2xx",
+              count: 4,
+              avg_duration_ms: 120,
+              percentiles_ms: percentiles,
+            },
+          ],
+        },
+        weather: emptyApi,
+      },
+      token_refresh: { success_rate: 1, avg_duration_ms: 300 },
+      percentiles_approximate: false,
+    });
+  });
+
+  describe("GET /api/metrics", () => {
+    it("should report percentiles and the endpoint breakdown", async () => {
+      const response = await request(app).get("/api/metrics");
+
+      expect(response.status).toBe(200);
+      expect(response.body.percentiles_approximate).toBe(false);
+      expect(response.body.webhook_processing.duration_percentiles).toEqual({
+        p50: "100ms",
+        p90: "250ms",
+        p95: "400ms",
+        p99: "901ms",
+      });
+      expect(response.body.api_performance.strava.endpoints).toEqual([
+        {
+          endpoint: "GET /activities/{id}",
+          status_class: "2xx",
+          count: 4,
+          avg_response_time: "120ms",
+          response_time_percentiles: {
+            p50: "100ms",
+            p90: "250ms",
+            p95: "400ms",
+            p99: "901ms",
+          },
+        },
+      ]);
+      expect(response.body.series).toBeUndefined();
+      expect(metricsService.getSeries).not.toHaveBeenCalled();
+    });
+
+    it("should include a bucketed series when requested", async () => {
+      const series = [
+        {
+          bucket_start: "2024-01-15T10:00:00.000Z",
+          metric_type: "api_call",
+          metric_name: "strava_api",
+          count: 4,
+          success_rate: 1,
+          avg_duration_ms: 120,
+          percentiles_ms: percentiles,
+          percentiles_approximate: false,
+        },
+      ];
+      (metricsService.getSeries as MockedFunction<any>).mockResolvedValue(
+        series,
+      );
+
+      const response = await request(app).get(
+        "/api/metrics?bucket=1h&since=2024-01-15T00:00:00Z",
+      );
+
+      expect(response.status).toBe(200);
+      expect(metricsService.getSeries).toHaveBeenCalledWith(
+        "1h",
+        new Date("2024-01-15T00:00:00Z"),
+      );
+      expect(response.body.bucket).toBe("1h");
+      expect(response.body.series).toEqual(series);
+    });
+
+    it("should reject unknown bucket sizes", async () => {
+      const response = await request(app).get("/api/metrics?bucket=7m");
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(
+        "Invalid bucket: use one of 5m, 15m, 1h, 6h, 1d",
+      );
+      expect(metricsService.getStats).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -11,8 +11,13 @@ import request from "supertest";
 import express from "express";
 import { stravaRouter } from "../strava";
 import { config } from "../../config/environment";
-import { userRepository } from "../../lib";
-import { activityProcessor } from "../../services/activityProcessor";
+import {
+  userRepository,
+  activityJobRepository,
+  activityWeatherRepository,
+  webhookRepository,
+} from "../../lib";
+import { webhookSubscriptionService } from "../../services/webhookSubscription";
 import { factories } from "../../test/setup";
 
 // Mock dependencies
@@ -21,11 +26,22 @@ vi.mock("../../lib", () => ({
     findByStravaAthleteId: vi.fn(),
     deleteByStravaAthleteId: vi.fn(),
   },
+  activityJobRepository: {
+    enqueue: vi.fn(),
+    deletePending: vi.fn(),
+  },
+  activityWeatherRepository: {
+    deleteByActivityId: vi.fn(),
+  },
+  webhookRepository: {
+    claimEvent: vi.fn(),
+    releaseEvent: vi.fn(),
+  },
 }));
 
-vi.mock("../../services/activityProcessor", () => ({
-  activityProcessor: {
-    processActivity: vi.fn(),
+vi.mock("../../services/webhookSubscription", () => ({
+  webhookSubscriptionService: {
+    getSubscriptionId: vi.fn(),
   },
 }));
 
@@ -78,10 +94,13 @@ describe("Strava Webhook Router", () => {
     event_time: 1705311000,
   };
 
-  const successProcessingResult = {
-    success: true,
-    activityId: "123456",
-    weatherData: factories.weatherData(),
+  const queuedJob = {
+    id: 42,
+    activity_id: "123456",
+    user_id: "user-123",
+    status: "pending",
+    attempts: 0,
+    max_attempts: 5,
   };
 
   beforeEach(() => {
@@ -105,10 +124,22 @@ describe("Strava Webhook Router", () => {
       userRepository.findByStravaAthleteId as MockedFunction<any>
     ).mockResolvedValue(mockUser);
 
-    // Default successful activity processing
+    // Events belong to our subscription and are new
     (
-      activityProcessor.processActivity as MockedFunction<any>
-    ).mockResolvedValue(successProcessingResult);
+      webhookSubscriptionService.getSubscriptionId as MockedFunction<any>
+    ).mockResolvedValue(98765);
+    (webhookRepository.claimEvent as MockedFunction<any>).mockResolvedValue(
+      true,
+    );
+    (webhookRepository.releaseEvent as MockedFunction<any>).mockResolvedValue(
+      undefined,
+    );
+
+    // Default successful enqueue
+    (activityJobRepository.enqueue as MockedFunction<any>).mockResolvedValue({
+      job: queuedJob,
+      created: true,
+    });
   });
 
   afterEach(() => {
@@ -169,20 +200,17 @@ describe("Strava Webhook Router", () => {
   });
 
   describe("POST /api/strava/webhook (event processing)", () => {
-    describe("successful processing", () => {
-      it("should process valid activity create webhook", async () => {
+    describe("activity queueing", () => {
+      it("should queue valid activity create webhook and acknowledge", async () => {
         const response = await request(app)
           .post("/api/strava/webhook")
           .send(validWebhookEvent);
 
         expect(response.status).toBe(200);
         expect(response.body).toEqual({
-          message: "Webhook processed",
+          message: "Event queued",
           activityId: "123456",
-          attempts: 0,
-          processingTimeMs: expect.any(Number),
-          success: true,
-          skipped: false,
+          jobId: 42,
         });
 
         // Verify user lookup
@@ -190,62 +218,121 @@ describe("Strava Webhook Router", () => {
           "12345",
         );
 
-        // Verify activity processing
-        expect(activityProcessor.processActivity).toHaveBeenCalledWith(
-          "123456",
-          "user-123",
-          0,
-        );
-      });
-
-      it("should handle skipped activity processing", async () => {
-        const skippedResult = {
-          success: false,
+        expect(activityJobRepository.enqueue).toHaveBeenCalledWith({
           activityId: "123456",
-          skipped: true,
-          reason: "No GPS coordinates",
-        };
+          userId: "user-123",
+        });
+      });
 
+      it("should acknowledge duplicate deliveries with the existing job", async () => {
         (
-          activityProcessor.processActivity as MockedFunction<any>
-        ).mockResolvedValue(skippedResult);
+          activityJobRepository.enqueue as MockedFunction<any>
+        ).mockResolvedValue({
+          job: { ...queuedJob, status: "processing" },
+          created: false,
+        });
 
         const response = await request(app)
           .post("/api/strava/webhook")
           .send(validWebhookEvent);
 
+        expect(response.status).toBe(200);
+        expect(response.body.jobId).toBe(42);
+      });
+    });
+
+    describe("activity updates", () => {
+      it.each([
+        [{ title: "Evening Ride" }],
+        [{ type: "Run" }],
+        [{ private: "true" }],
+      ])("should re-queue the activity when %o changes", async (updates) => {
+        const response = await request(app)
+          .post("/api/strava/webhook")
+          .send({ ...validWebhookEvent, aspect_type: "update", updates });
+
         expect(response.status).toBe(200);
         expect(response.body).toEqual({
-          message: "Webhook processed",
+          message: "Event queued",
           activityId: "123456",
-          attempts: 0,
-          processingTimeMs: expect.any(Number),
-          success: false,
-          skipped: true,
+          jobId: 42,
+        });
+        expect(activityJobRepository.enqueue).toHaveBeenCalledWith({
+          activityId: "123456",
+          userId: "user-123",
         });
       });
+
+      it("should ignore updates without changed fields", async () => {
+        const response = await request(app)
+          .post("/api/strava/webhook")
+          .send({ ...validWebhookEvent, aspect_type: "update" });
+
+        expect(response.status).toBe(200);
+        expect(response.body.message).toBe("Event acknowledged");
+        expect(userRepository.findByStravaAthleteId).not.toHaveBeenCalled();
+      });
     });
 
-    describe("retry logic", () => {
-      it("should not retry on non-retryable errors", async () => {
-        const authError = {
-          success: false,
-          activityId: "123456",
-          error: "Strava access token expired",
-        };
+    describe("activity deletion", () => {
+      const deleteEvent = { ...validWebhookEvent, aspect_type: "delete" };
 
+      beforeEach(() => {
         (
-          activityProcessor.processActivity as MockedFunction<any>
-        ).mockResolvedValue(authError);
+          activityWeatherRepository.deleteByActivityId as MockedFunction<any>
+        ).mockResolvedValue(2);
+        (
+          activityJobRepository.deletePending as MockedFunction<any>
+        ).mockResolvedValue(0);
+      });
 
+      it("should purge processing records for deleted activities", async () => {
         const response = await request(app)
           .post("/api/strava/webhook")
-          .send(validWebhookEvent);
+          .send(deleteEvent);
 
         expect(response.status).toBe(200);
-        expect(response.body.success).toBe(false);
-        expect(response.body.attempts).toBe(0); // No retries
-        expect(activityProcessor.processActivity).toHaveBeenCalledTimes(1);
+        expect(response.body).toEqual({
+          message: "Activity deleted",
+          activityId: "123456",
+          recordsDeleted: 2,
+        });
+        expect(
+          activityWeatherRepository.deleteByActivityId,
+        ).toHaveBeenCalledWith("123456", "user-123");
+        expect(activityJobRepository.deletePending).toHaveBeenCalledWith(
+          "123456",
+        );
+        expect(activityJobRepository.enqueue).not.toHaveBeenCalled();
+      });
+
+      it("should purge records even when weather is disabled", async () => {
+        (
+          userRepository.findByStravaAthleteId as MockedFunction<any>
+        ).mockResolvedValue({ ...mockUser, weatherEnabled: false });
+
+        const response = await request(app)
+          .post("/api/strava/webhook")
+          .send(deleteEvent);
+
+        expect(response.body.message).toBe("Activity deleted");
+        expect(activityWeatherRepository.deleteByActivityId).toHaveBeenCalled();
+      });
+
+      it("should return 500 so Strava redelivers when the purge fails", async () => {
+        (
+          activityWeatherRepository.deleteByActivityId as MockedFunction<any>
+        ).mockRejectedValue(new Error("Database error"));
+
+        const response = await request(app)
+          .post("/api/strava/webhook")
+          .send(deleteEvent);
+
+        expect(response.status).toBe(500);
+        expect(response.body).toEqual({ message: "Failed to delete activity" });
+        expect(webhookRepository.releaseEvent).toHaveBeenCalledWith(
+          deleteEvent,
+        );
       });
     });
 
@@ -285,7 +372,36 @@ describe("Strava Webhook Router", () => {
           "12345",
         );
 
-        expect(activityProcessor.processActivity).not.toHaveBeenCalled();
+        expect(activityJobRepository.enqueue).not.toHaveBeenCalled();
+      });
+
+      it("should handle Strava's authorized=false athlete update", async () => {
+        const response = await request(app)
+          .post("/api/strava/webhook")
+          .send({
+            ...deauthorizeEvent,
+            aspect_type: "update",
+            updates: { authorized: "false" },
+          });
+
+        expect(response.status).toBe(200);
+        expect(userRepository.deleteByStravaAthleteId).toHaveBeenCalledWith(
+          "12345",
+        );
+      });
+
+      it("should delete user data whatever the subscription id", async () => {
+        const response = await request(app)
+          .post("/api/strava/webhook")
+          .send({ ...deauthorizeEvent, subscription_id: 11111 });
+
+        expect(response.status).toBe(200);
+        expect(userRepository.deleteByStravaAthleteId).toHaveBeenCalledWith(
+          "12345",
+        );
+        expect(
+          webhookSubscriptionService.getSubscriptionId,
+        ).not.toHaveBeenCalled();
       });
 
       it("should handle deauthorization for non-existent user", async () => {
@@ -339,23 +455,7 @@ describe("Strava Webhook Router", () => {
 
         expect(response.status).toBe(200);
         expect(response.body.message).toBe("Event acknowledged");
-        expect(activityProcessor.processActivity).not.toHaveBeenCalled();
-        expect(userRepository.deleteByStravaAthleteId).not.toHaveBeenCalled();
-      });
-
-      it("should ignore activity non-create events", async () => {
-        const updateEvent = {
-          ...validWebhookEvent,
-          aspect_type: "update",
-        };
-
-        const response = await request(app)
-          .post("/api/strava/webhook")
-          .send(updateEvent);
-
-        expect(response.status).toBe(200);
-        expect(response.body.message).toBe("Event acknowledged");
-        expect(activityProcessor.processActivity).not.toHaveBeenCalled();
+        expect(activityJobRepository.enqueue).not.toHaveBeenCalled();
         expect(userRepository.deleteByStravaAthleteId).not.toHaveBeenCalled();
       });
 
@@ -370,7 +470,7 @@ describe("Strava Webhook Router", () => {
 
         expect(response.status).toBe(200);
         expect(response.body.message).toBe("Event acknowledged");
-        expect(activityProcessor.processActivity).not.toHaveBeenCalled();
+        expect(activityJobRepository.enqueue).not.toHaveBeenCalled();
       });
 
       it("should handle user with weather disabled", async () => {
@@ -385,7 +485,7 @@ describe("Strava Webhook Router", () => {
 
         expect(response.status).toBe(200);
         expect(response.body.message).toBe("Event acknowledged");
-        expect(activityProcessor.processActivity).not.toHaveBeenCalled();
+        expect(activityJobRepository.enqueue).not.toHaveBeenCalled();
       });
 
       it("should handle invalid webhook event format", async () => {
@@ -400,7 +500,7 @@ describe("Strava Webhook Router", () => {
 
         expect(response.status).toBe(200);
         expect(response.body.message).toBe("Invalid event acknowledged");
-        expect(activityProcessor.processActivity).not.toHaveBeenCalled();
+        expect(activityJobRepository.enqueue).not.toHaveBeenCalled();
       });
 
       it("should handle empty request body", async () => {
@@ -410,27 +510,71 @@ describe("Strava Webhook Router", () => {
 
         expect(response.status).toBe(200);
         expect(response.body.message).toBe("Invalid event acknowledged");
-        expect(activityProcessor.processActivity).not.toHaveBeenCalled();
+        expect(activityJobRepository.enqueue).not.toHaveBeenCalled();
       });
     });
 
     describe("error handling", () => {
-      it("should handle general processing errors", async () => {
+      it("should return 500 so Strava redelivers when the job cannot be queued", async () => {
         (
-          activityProcessor.processActivity as MockedFunction<any>
-        ).mockResolvedValue({
-          success: false,
-          activityId: "123456",
-          error: "Failed to update activity",
-        });
+          activityJobRepository.enqueue as MockedFunction<any>
+        ).mockRejectedValue(new Error("Database connection failed"));
+
+        const response = await request(app)
+          .post("/api/strava/webhook")
+          .send(validWebhookEvent);
+
+        expect(response.status).toBe(500);
+        expect(response.body.message).toBe("Failed to queue event");
+        expect(webhookRepository.releaseEvent).toHaveBeenCalledWith(
+          validWebhookEvent,
+        );
+      });
+    });
+
+    describe("subscription validation and deduplication", () => {
+      it("should reject events for another subscription", async () => {
+        const response = await request(app)
+          .post("/api/strava/webhook")
+          .send({ ...validWebhookEvent, subscription_id: 11111 });
+
+        expect(response.status).toBe(403);
+        expect(response.body).toEqual({ error: "Unknown subscription" });
+        expect(webhookRepository.claimEvent).not.toHaveBeenCalled();
+        expect(activityJobRepository.enqueue).not.toHaveBeenCalled();
+      });
+
+      it("should accept events while the subscription id is unknown", async () => {
+        (
+          webhookSubscriptionService.getSubscriptionId as MockedFunction<any>
+        ).mockResolvedValue(null);
+
+        const response = await request(app)
+          .post("/api/strava/webhook")
+          .send(validWebhookEvent);
+
+        expect(response.status).toBe(200);
+        expect(response.body.message).toBe("Event queued");
+        expect(activityJobRepository.enqueue).toHaveBeenCalled();
+      });
+
+      it("should acknowledge redelivered events without queueing them again", async () => {
+        (webhookRepository.claimEvent as MockedFunction<any>).mockResolvedValue(
+          false,
+        );
 
         const response = await request(app)
           .post("/api/strava/webhook")
           .send(validWebhookEvent);
 
         expect(response.status).toBe(200);
-        expect(response.body.success).toBe(false);
-        expect(response.body.attempts).toBe(0);
+        expect(response.body).toEqual({
+          message: "Duplicate event acknowledged",
+        });
+        expect(webhookRepository.claimEvent).toHaveBeenCalledWith(
+          validWebhookEvent,
+        );
+        expect(activityJobRepository.enqueue).not.toHaveBeenCalled();
       });
     });
   });
@@ -0,0 +1,345 @@
+import { describe, it, expect, beforeEach, vi, MockedFunction } from "vitest";
+import request from "supertest";
+import express from "express";
+import { factories } from "../../test/setup";
+
+// Mock environment config to prevent validation errors in CI
+vi.mock("../../config/environment", () => ({
+  config: {
+    STRAVA_CLIENT_ID: "test-client-id",
+    STRAVA_CLIENT_SECRET: "test-client-secret",
+    SESSION_SECRET: "test-session-secret",
+    DATABASE_URL: "postgresql://test",
+    OPENWEATHERMAP_API_KEY: "test-weather-key",
+    STRAVA_WEBHOOK_VERIFY_TOKEN: "test-webhook-token",
+    APP_URL: "http://localhost:3000",
+    LOG_LEVEL: "info",
+    isProduction: false,
+    isDevelopment: true,
+    isTest: true,
+    api: {
+      strava: { tokenUrl: "https://www.strava.com/oauth/token" },
+      openWeatherMap: {
+        oneCallUrl: "https://api.openweathermap.org/data/3.0/onecall",
+      },
+      weather: { providers: ["openweathermap"] },
+    },
+  },
+}));
+
+vi.mock("../../lib", () => ({
+  userRepository: {
+    findWithPreferences: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  userPreferenceRepository: {
+    findByUserId: vi.fn(),
+    update: vi.fn(),
+    upsert: vi.fn(),
+  },
+}));
+
+vi.mock("../../middleware/auth", () => ({
+  authenticateUser: vi.fn((req: any, _res: any, next: any) => {
+    req.user = { id: "user-123", stravaAthleteId: "12345" };
+    next();
+  }),
+}));
+
+vi.mock("../../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(() => ({
+      info: vi.fn(),
+      debug: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    })),
+  },
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import { usersRouter } from "../users";
+import { DEFAULT_USER_PREFERENCES } from "../../services/userPreferences";
+import { userRepository, userPreferenceRepository } from "../../lib";
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/users", usersRouter);
+  app.use(
+    (
+      err: any,
+      _req: express.Request,
+      res: express.Response,
+      _next: express.NextFunction,
+    ) => {
+      res.status(err.statusCode || 500).json({
+        error: { message: err.message, statusCode: err.statusCode || 500 },
+      });
+    },
+  );
+  return app;
+}
+
+describe("Users Router", () => {
+  let app: express.Application;
+
+  const savedPreferences = {
+    id: "pref-1",
+    userId: "user-123",
+    temperatureUnit: "fahrenheit",
+    weatherFormat: "simple",
+    includeUvIndex: false,
+    includeVisibility: false,
+    customFormat: null,
+    createdAt: new Date("2024-01-01"),
+    updatedAt: new Date("2024-01-01"),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = createTestApp();
+
+    (
+      userRepository.findWithPreferences as MockedFunction<any>
+    ).mockResolvedValue({
+      ...factories.user({ id: "user-123" }),
+      preferences: null,
+    });
+  });
+
+  describe("GET /api/users/me", () => {
+    it("should include the Strava authorization status", async () => {
+      (
+        userRepository.findWithPreferences as MockedFunction<any>
+      ).mockResolvedValue({
+        ...factories.user({ id: "user-123", authStatus: "reauth_required" }),
+        preferences: null,
+      });
+
+      const response = await request(app).get("/api/users/me");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.authStatus).toBe("reauth_required");
+    });
+
+    it("should show the defaults the weather line is rendered with", async () => {
+      const response = await request(app).get("/api/users/me");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.preferences).toEqual(DEFAULT_USER_PREFERENCES);
+      expect(response.body.data.preferences.temperatureUnit).toBe("celsius");
+    });
+  });
+
+  describe("PATCH /api/users/me/preferences", () => {
+    it("should save a valid custom format", async () => {
+      (
+        userPreferenceRepository.upsert as MockedFunction<any>
+      ).mockImplementation(async (data: any) => data);
+
+      const response = await request(app)
+        .patch("/api/users/me/preferences")
+        .send({ customFormat: "{icon_emoji} {temp|f}" });
+
+      expect(response.status).toBe(200);
+      expect(userPreferenceRepository.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ customFormat: "{icon_emoji} {temp|f}" }),
+      );
+    });
+
+    it("should reject unknown placeholders with their position", async () => {
+      const response = await request(app)
+        .patch("/api/users/me/preferences")
+        .send({ customFormat: "Temp {temp}, {sunshine}" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe(
+        "Invalid preferences data: customFormat: Unknown placeholder 'sunshine' at position 13",
+      );
+      expect(userPreferenceRepository.upsert).not.toHaveBeenCalled();
+    });
+    it("should save activity rules", async () => {
+      (
+        userPreferenceRepository.upsert as MockedFunction<any>
+      ).mockImplementation(async (data: any) => data);
+
+      const response = await request(app)
+        .patch("/api/users/me/preferences")
+        .send({ excludeSportTypes: ["Swim"], minDurationMinutes: 10 });
+
+      expect(response.status).toBe(200);
+      expect(userPreferenceRepository.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          includeSportTypes: [],
+          excludeSportTypes: ["Swim"],
+          minDurationMinutes: 10,
+          skipPrivate: false,
+        }),
+      );
+    });
+
+    it("should only change the sent fields of saved preferences", async () => {
+      const saved = {
+        ...savedPreferences,
+        customFormat: "{temp}",
+        excludeSportTypes: ["Swim"],
+      };
+      (
+        userPreferenceRepository.findByUserId as MockedFunction<any>
+      ).mockResolvedValueOnce(saved);
+      (
+        userPreferenceRepository.update as MockedFunction<any>
+      ).mockImplementation(async (_userId: string, data: any) => ({
+        ...saved,
+        ...data,
+      }));
+
+      const response = await request(app)
+        .patch("/api/users/me/preferences")
+        .send({ includeUvIndex: true });
+
+      expect(response.status).toBe(200);
+      expect(userPreferenceRepository.update).toHaveBeenCalledWith("user-123", {
+        includeUvIndex: true,
+      });
+      expect(userPreferenceRepository.upsert).not.toHaveBeenCalled();
+      expect(response.body.data).toMatchObject({
+        customFormat: "{temp}",
+        excludeSportTypes: ["Swim"],
+        includeUvIndex: true,
+      });
+    });
+
+    it("should reject an invalid minimum duration", async () => {
+      const response = await request(app)
+        .patch("/api/users/me/preferences")
+        .send({ minDurationMinutes: 0 });
+
+      expect(response.status).toBe(400);
+      expect(userPreferenceRepository.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/users/me/preferences/preview", () => {
+    it("should preview the default line with sample weather", async () => {
+      const response = await request(app)
+        .post("/api/users/me/preferences/preview")
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        text: "Scattered clouds, 18°C, Feels like 17°C, Humidity 62%, Wind 4.2m/s from WSW",
+        usedSampleWeather: true,
+      });
+    });
+
+    it("should apply draft preferences over saved preferences", async () => {
+      (
+        userRepository.findWithPreferences as MockedFunction<any>
+      ).mockResolvedValue({
+        ...factories.user({ id: "user-123" }),
+        preferences: savedPreferences,
+      });
+
+      const response = await request(app)
+        .post("/api/users/me/preferences/preview")
+        .send({ includeUvIndex: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.text).toBe(
+        "Scattered clouds, 64°F, UV index 4",
+      );
+      expect(response.body.data.preferences).toMatchObject({
+        temperatureUnit: "fahrenheit",
+        weatherFormat: "simple",
+        includeUvIndex: true,
+      });
+    });
+
+    it("should render a draft custom format against supplied weather data", async () => {
+      const weatherData = factories.weatherData({
+        temperature: 30,
+        windGust: undefined,
+        icon: "01d",
+        timestamp: "2024-07-01T12:00:00.000Z",
+      });
+
+      const response = await request(app)
+        .post("/api/users/me/preferences/preview")
+        .send({
+          temperatureUnit: "celsius",
+          customFormat: "{icon_emoji} {temp}{?gust} gusts {gust}{/gust}",
+          weatherData,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        text: "☀️ 30°C",
+        usedSampleWeather: false,
+      });
+    });
+
+    it("should keep route and wind exposure data for their placeholders", async () => {
+      const weatherData = {
+        ...factories.weatherData(),
+        route: {
+          minTemperature: 12,
+          maxTemperature: 17,
+          precipitation: ["light rain"],
+          windShift: 45,
+        },
+        windExposure: { headwind: 40, tailwind: 35, crosswind: 25 },
+      };
+
+      const response = await request(app)
+        .post("/api/users/me/preferences/preview")
+        .send({
+          temperatureUnit: "celsius",
+          customFormat: "{temp_min} to {temp_max}, {headwind} headwind",
+          weatherData,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.text).toBe("12°C to 17°C, 40% headwind");
+    });
+
+    it("should reject an invalid draft custom format", async () => {
+      const response = await request(app)
+        .post("/api/users/me/preferences/preview")
+        .send({ customFormat: "{temp|kelvin}" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe(
+        "Invalid preview data: customFormat: Unknown filter 'kelvin' on 'temp' at position 0",
+      );
+    });
+
+    it("should reject malformed weather data", async () => {
+      const response = await request(app)
+        .post("/api/users/me/preferences/preview")
+        .send({ weatherData: { temperature: "hot" } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toMatch(/^Invalid preview data:/);
+    });
+
+    it("should not persist anything", async () => {
+      await request(app)
+        .post("/api/users/me/preferences/preview")
+        .send({ temperatureUnit: "fahrenheit" });
+
+      expect(userPreferenceRepository.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
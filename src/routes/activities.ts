@@ -1,6 +1,13 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { z } from "zod";
 import { activityProcessor } from "../services/activityProcessor";
+import { backfillService } from "../services/backfillService";
+import {
+  activityWeatherRepository,
+  backfillJobRepository,
+  type ActivityWeather,
+  type BackfillJob,
+} from "../lib";
 import { authenticateUser } from "../middleware/auth";
 import { AppError, asyncHandler } from "../middleware/errorHandler";
 import { logger } from "../utils/logger";
@@ -9,7 +16,8 @@ import { logger } from "../utils/logger";
  * Activities router
  *
  * Handles manual activity processing requests, allowing users to
- * trigger weather data updates for specific Strava activities.
+ * trigger weather data updates for specific Strava activities, and
+ * exposes the history of what was done to each activity.
  */
 const activitiesRouter = Router();
 
@@ -20,6 +28,214 @@ const processActivityParamsSchema = z.object({
   activityId: z.string().regex(/^\d+$/, "Activity ID must be numeric"),
 });
 
+const activityHistoryQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    sportType: z.string().min(1).max(50).optional(),
+    outcome: z.enum(["success", "skipped", "failed"]).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+  });
+
+const backfillRequestSchema = z
+  .object({
+    after: z.coerce.date(),
+    before: z.coerce.date().optional(),
+  })
+  .transform((range) => ({ ...range, before: range.before ?? new Date() }))
+  .refine((range) => range.after < range.before, {
+    message: "after must be earlier than before",
+  });
+
+const backfillParamsSchema = z.object({
+  jobId: z.coerce.number().int().positive("Job ID must be a positive integer"),
+});
+
+/**
+ * POST /api/activities/backfill
+ *
+ * Start a background job that adds weather to the user's past activities
+ * in a date range. Only one backfill can run per user at a time.
+ */
+activitiesRouter.post(
+  "/backfill",
+  authenticateUser,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user!;
+
+    const validation = backfillRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(
+        "Invalid backfill data: " + validation.error.errors[0]?.message,
+        400,
+      );
+    }
+
+    const { job, created } = await backfillService.start(
+      user.id,
+      validation.data,
+    );
+
+    if (!created) {
+      res.status(409).json({
+        success: false,
+        message: "A backfill is already running",
+        data: toBackfillStatus(job),
+      });
+      return;
+    }
+
+    logger.info("Activity backfill started", {
+      jobId: job.id,
+      userId: user.id,
+      requestId: (req as any).requestId,
+    });
+
+    res.status(202).json({
+      success: true,
+      message: "Backfill started",
+      data: toBackfillStatus(job),
+    });
+  }),
+);
+
+/**
+ * GET /api/activities/backfill/:jobId
+ *
+ * Get the progress of one of the user's backfill jobs.
+ */
+activitiesRouter.get(
+  "/backfill/:jobId",
+  authenticateUser,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user!;
+
+    const paramsValidation = backfillParamsSchema.safeParse(req.params);
+    if (!paramsValidation.success) {
+      const errorMessage =
+        paramsValidation.error.errors[0]?.message ||
+        "Invalid request parameters";
+      throw new AppError(errorMessage, 400);
+    }
+
+    const job = await backfillJobRepository.findById(
+      paramsValidation.data.jobId,
+      user.id,
+    );
+
+    if (!job) {
+      throw new AppError("Backfill job not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: toBackfillStatus(job),
+    });
+  }),
+);
+
+/**
+ * GET /api/activities
+ *
+ * List the authenticated user's processed activities with the latest
+ * outcome for each, newest activity first.
+ */
+activitiesRouter.get(
+  "/",
+  authenticateUser,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user!;
+
+    const validation = activityHistoryQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      throw new AppError(
+        "Invalid query parameters: " + validation.error.errors[0]?.message,
+        400,
+      );
+    }
+
+    const { page, limit, ...filters } = validation.data;
+    const { records, total } = await activityWeatherRepository.findLatestByUser(
+      user.id,
+      { ...filters, limit, offset: (page - 1) * limit },
+    );
+
+    res.json({
+      success: true,
+      data: {
+        activities: records.map(toActivityHistoryEntry),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  }),
+);
+
+/**
+ * GET /api/activities/:activityId
+ *
+ * Get the stored weather snapshot and full processing log for one of the
+ * authenticated user's activities.
+ */
+activitiesRouter.get(
+  "/:activityId",
+  authenticateUser,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user!;
+
+    const paramsValidation = processActivityParamsSchema.safeParse(req.params);
+    if (!paramsValidation.success) {
+      const errorMessage =
+        paramsValidation.error.errors[0]?.message ||
+        "Invalid request parameters";
+      throw new AppError(errorMessage, 400);
+    }
+
+    const { activityId } = paramsValidation.data;
+    const records = await activityWeatherRepository.findByActivityId(
+      activityId,
+      user.id,
+    );
+
+    const latest = records[records.length - 1];
+    if (!latest) {
+      throw new AppError("Activity has not been processed", 404);
+    }
+
+    const snapshot = [...records]
+      .reverse()
+      .find((record) => record.weather_data);
+
+    res.json({
+      success: true,
+      data: {
+        ...toActivityHistoryEntry(latest),
+        weatherData: snapshot?.weather_data ?? null,
+        dataSource: snapshot?.data_source ?? null,
+        weatherProvider: snapshot?.weather_provider ?? null,
+        appendedText: snapshot?.appended_text ?? null,
+        log: records.map((record) => ({
+          outcome: record.outcome,
+          reason: record.reason,
+          dataSource: record.data_source,
+          weatherProvider: record.weather_provider,
+          retryCount: record.retry_count,
+          durationMs: record.duration_ms,
+          processedAt: record.processed_at,
+        })),
+      },
+    });
+  }),
+);
+
 /**
  * POST /api/activities/process/:activityId
  *
@@ -110,14 +326,59 @@ activitiesRouter.post(
   }),
 );
 
+/**
+ * Shape a stored history record for API responses
+ */
+function toActivityHistoryEntry(record: ActivityWeather) {
+  return {
+    activityId: record.activity_id,
+    name: record.activity_name,
+    sportType: record.sport_type,
+    startDate: record.activity_start_date,
+    location:
+      record.latitude !== null && record.longitude !== null
+        ? { lat: record.latitude, lon: record.longitude }
+        : null,
+    outcome: record.outcome,
+    reason: record.reason,
+    dataSource: record.data_source,
+    weatherProvider: record.weather_provider,
+    weatherData: record.weather_data,
+    appendedText: record.appended_text,
+    processedAt: record.processed_at,
+  };
+}
+
+/**
+ * Shape a backfill job for API responses
+ */
+function toBackfillStatus(job: BackfillJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    range: { after: job.after_date, before: job.before_date },
+    progress: {
+      activitiesFound: job.activities_found,
+      processed: job.processed,
+      enriched: job.enriched,
+      skipped: job.skipped,
+      failed: job.failed,
+    },
+    error: job.last_error,
+    createdAt: job.created_at,
+    startedAt: job.started_at,
+    completedAt: job.completed_at,
+  };
+}
+
 /**
  * Get appropriate success message based on processing result
  */
 function getSuccessMessage(result: any): string {
   if (result.skipped) {
     switch (result.reason) {
-      case "Already has weather data":
-        return "Activity already contains weather data";
+      case "Weather already up to date":
+        return "Activity weather is already up to date";
       case "Weather updates disabled":
         return "Weather updates are currently disabled for your account";
       case "No GPS coordinates":
@@ -146,6 +407,9 @@ function getErrorStatusCode(error?: string): number {
   if (errorLower.includes("rate limit") || errorLower.includes("429")) {
     return 429;
   }
+  if (errorLower.includes("already in progress")) {
+    return 409;
+  }
   if (errorLower.includes("unavailable") || errorLower.includes("503")) {
     return 503;
   }
@@ -164,6 +428,8 @@ function getErrorCode(error?: string): string {
   if (errorLower.includes("not found")) return "ACTIVITY_NOT_FOUND";
   if (errorLower.includes("unauthorized")) return "UNAUTHORIZED";
   if (errorLower.includes("rate limit")) return "RATE_LIMITED";
+  if (errorLower.includes("already in progress"))
+    return "PROCESSING_IN_PROGRESS";
   if (errorLower.includes("weather") && errorLower.includes("unavailable")) {
     return "WEATHER_SERVICE_UNAVAILABLE";
   }
@@ -2,7 +2,11 @@ import { Router, Request, Response, NextFunction } from "express";
 import { webhookSubscriptionService } from "../services/webhookSubscription";
 import { AppError } from "../middleware/errorHandler";
 import { config } from "../config/environment";
-import { userRepository } from "../lib";
+import {
+  userRepository,
+  activityJobRepository,
+  webhookRepository,
+} from "../lib";
 
 const adminRouter = Router();
 
@@ -180,6 +184,7 @@ adminRouter.post(
 
       if (existing) {
         console.log("ℹ️ Found existing subscription:", existing);
+        await webhookRepository.saveSubscription(existing);
 
         res.json({
           success: true,
@@ -251,6 +256,8 @@ adminRouter.get(
         orderDirection: "desc",
       });
 
+      const jobQueue = await activityJobRepository.countByStatus();
+
       // Filter users updated in the last 24 hours
       const last24Hours = new Date(Date.now() - 24 * 60 * 60 * 1000);
       const recentlyUpdatedUsers = recentUsers.filter(
@@ -274,6 +281,7 @@ adminRouter.get(
             callbackUrl: subscription?.callback_url,
             createdAt: subscription?.created_at,
           },
+          jobQueue,
           recentActivity: {
             usersUpdatedLast24h: recentlyUpdatedUsers.length,
             users: recentlyUpdatedUsers.map((u) => ({
@@ -2,6 +2,11 @@ import { Router } from "express";
 import { config } from "../config/environment";
 import { database, healthCheck } from "../lib/database";
 import { sql } from "kysely";
+import {
+  stravaApiService,
+  type RateLimitStatus,
+  type StravaLane,
+} from "../services/stravaApi";
 import type { Request, Response, NextFunction } from "express";
 
 const healthRouter = Router();
@@ -17,6 +22,12 @@ interface HealthStatus {
     strava_api: ServiceStatus;
     weather_api: ServiceStatus;
   };
+  rate_limits: {
+    strava_api: RateLimitStatus;
+  };
+  queues: {
+    strava_api: Record<StravaLane, Record<string, number>>;
+  };
   performance: {
     memory: NodeJS.MemoryUsage;
     cpu: number;
@@ -84,6 +95,12 @@ healthRouter.get(
           strava_api: await checkStravaAPI(),
           weather_api: await checkWeatherAPI(),
         },
+        rate_limits: {
+          strava_api: stravaApiService.getRateLimitStatus(),
+        },
+        queues: {
+          strava_api: stravaApiService.getQueueCounts(),
+        },
         performance: {
           memory: process.memoryUsage(),
           cpu: process.cpuUsage().user / 1000000, // Convert to seconds
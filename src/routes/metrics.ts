@@ -1,14 +1,41 @@
 import { Router } from "express";
-import { metricsService } from "../services/metricsService";
+import {
+  metricsService,
+  METRICS_BUCKETS,
+  type ApiStats,
+  type LatencyPercentiles,
+  type MetricsBucket,
+} from "../services/metricsService";
 import { createServiceLogger } from "../utils/logger";
 
 const router = Router();
 const logger = createServiceLogger("metrics");
 
+const formatPercentiles = (percentiles: LatencyPercentiles) => ({
+  p50: `${percentiles.p50.toFixed(0)}ms`,
+  p90: `${percentiles.p90.toFixed(0)}ms`,
+  p95: `${percentiles.p95.toFixed(0)}ms`,
+  p99: `${percentiles.p99.toFixed(0)}ms`,
+});
+
+const formatApiStats = (api: ApiStats) => ({
+  avg_response_time: `${api.avg_duration_ms.toFixed(0)}ms`,
+  success_rate: `${(api.success_rate * 100).toFixed(1)}%`,
+  response_time_percentiles: formatPercentiles(api.percentiles_ms),
+  endpoints: api.endpoints.map((endpoint) => ({
+    endpoint: endpoint.endpoint,
+    status_class: endpoint.status_class,
+    count: endpoint.count,
+    avg_response_time: `${endpoint.avg_duration_ms.toFixed(0)}ms`,
+    response_time_percentiles: formatPercentiles(endpoint.percentiles_ms),
+  })),
+});
+
 /**
  * GET /api/metrics
  *
  * Get performance metrics - API performance including webhook processing and response times.
+ * Pass ?bucket=1h (or 5m, 15m, 6h, 1d) to also get a time-bucketed series for charting.
  */
 router.get("/", async (req, res) => {
   try {
@@ -16,31 +43,43 @@ router.get("/", async (req, res) => {
       ? new Date(req.query.since as string)
       : undefined;
 
-    const stats = await metricsService.getStats(since);
+    const bucket = req.query.bucket as string | undefined;
+    if (bucket !== undefined && !Object.hasOwn(METRICS_BUCKETS, bucket)) {
+      res.status(400).json({
+        error: `Invalid bucket: use one of ${Object.keys(METRICS_BUCKETS).join(", ")}`,
+      });
+      return;
+    }
+
+    const [stats, series] = await Promise.all([
+      metricsService.getStats(since),
+      bucket
+        ? metricsService.getSeries(bucket as MetricsBucket, since)
+        : undefined,
+    ]);
 
     res.json({
       period: since ? `Since ${since.toISOString()}` : "Last 7 days",
+      percentiles_approximate: stats.percentiles_approximate,
       webhook_processing: {
         total_processed: stats.webhook_processing.count,
         success_rate: `${(stats.webhook_processing.success_rate * 100).toFixed(1)}%`,
         avg_duration: `${stats.webhook_processing.avg_duration_ms.toFixed(0)}ms`,
         p95_duration: `${stats.webhook_processing.p95_duration_ms.toFixed(0)}ms`,
+        duration_percentiles: formatPercentiles(
+          stats.webhook_processing.percentiles_ms,
+        ),
         avg_retries: stats.webhook_processing.avg_retry_count.toFixed(1),
       },
       api_performance: {
-        strava: {
-          avg_response_time: `${stats.api_performance.strava.avg_duration_ms.toFixed(0)}ms`,
-          success_rate: `${(stats.api_performance.strava.success_rate * 100).toFixed(1)}%`,
-        },
-        weather: {
-          avg_response_time: `${stats.api_performance.weather.avg_duration_ms.toFixed(0)}ms`,
-          success_rate: `${(stats.api_performance.weather.success_rate * 100).toFixed(1)}%`,
-        },
+        strava: formatApiStats(stats.api_performance.strava),
+        weather: formatApiStats(stats.api_performance.weather),
       },
       token_refresh: {
         success_rate: `${(stats.token_refresh.success_rate * 100).toFixed(1)}%`,
         avg_duration: `${stats.token_refresh.avg_duration_ms.toFixed(0)}ms`,
       },
+      ...(series && { bucket, series }),
     });
   } catch (error) {
     logger.error("Failed to fetch metrics", {
@@ -0,0 +1,51 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+import { AppError } from "../middleware/errorHandler";
+import { config } from "../config/environment";
+import { metricsRegistry } from "../services/prometheusMetrics";
+import { PROMETHEUS_CONTENT_TYPE } from "../utils/prometheus";
+
+const prometheusRouter = Router();
+
+/**
+ * Scrape authentication middleware
+ *
+ * Expects `Authorization: Bearer <METRICS_TOKEN>`. The endpoint is hidden
+ * entirely when no token is configured.
+ */
+function requireMetricsToken(req: Request, res: Response, next: NextFunction) {
+  const expectedToken = config.METRICS_TOKEN;
+  if (!expectedToken) {
+    throw new AppError("Not found", 404);
+  }
+
+  const [scheme, token] = (req.headers.authorization ?? "").split(" ");
+  const provided = Buffer.from(token ?? "");
+  const expected = Buffer.from(expectedToken);
+
+  if (
+    scheme !== "Bearer" ||
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    throw new AppError("Unauthorized - Metrics token required", 401);
+  }
+
+  next();
+}
+
+/**
+ * GET /metrics
+ *
+ * Prometheus scrape endpoint - in-process counters, histograms and gauges
+ * in the text exposition format.
+ */
+prometheusRouter.get(
+  "/",
+  requireMetricsToken,
+  (req: Request, res: Response) => {
+    res.type(PROMETHEUS_CONTENT_TYPE).send(metricsRegistry.render());
+  },
+);
+
+export { prometheusRouter };
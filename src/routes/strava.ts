@@ -1,11 +1,13 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { z } from "zod";
 import { config } from "../config/environment";
-import { userRepository } from "../lib";
 import {
-  activityProcessor,
-  type ProcessingResult,
-} from "../services/activityProcessor";
+  userRepository,
+  activityJobRepository,
+  activityWeatherRepository,
+  webhookRepository,
+} from "../lib";
+import { webhookSubscriptionService } from "../services/webhookSubscription";
 import { logger } from "../utils/logger";
 import { asyncHandler } from "../middleware/errorHandler";
 
@@ -13,8 +15,11 @@ import { asyncHandler } from "../middleware/errorHandler";
  * Strava webhook router
  *
  * Handles webhook verification and event processing for Strava integration.
- * Implements retry logic for handling race conditions when activities are
- * created but not immediately available via the Strava API.
+ * Activity events are written to a durable job queue and acknowledged
+ * immediately; the activity job worker processes them with retries.
+ * Deleting an activity purges its processing history. Events for other
+ * subscriptions are rejected (deauthorizations are always honoured), and
+ * redelivered events are acknowledged without being handled again.
  */
 const stravaRouter = Router();
 
@@ -34,13 +39,32 @@ const stravaWebhookEventSchema = z.object({
 type StravaWebhookEvent = z.infer<typeof stravaWebhookEventSchema>;
 
 /**
- * Webhook processing configuration
+ * Activity fields whose update re-processes the activity
+ *
+ * Strava only reports `title`, `type` and `private` changes, so any of them
+ * re-queues the activity and the processor decides whether the weather is
+ * still up to date.
+ */
+const REPROCESS_ON_UPDATE = ["title", "type", "private"];
+
+function requiresReprocessing(updates: StravaWebhookEvent["updates"]): boolean {
+  return Object.keys(updates ?? {}).some((field) =>
+    REPROCESS_ON_UPDATE.includes(field),
+  );
+}
+
+/**
+ * Whether an athlete event revokes the app's access
+ *
+ * Strava sends these as athlete updates with `authorized: "false"`.
  */
-const WEBHOOK_CONFIG = {
-  MAX_PROCESSING_TIME_MS: 8000, // 8 seconds max to avoid timeout
-  MAX_RETRY_ATTEMPTS: 3,
-  RETRY_DELAYS_MS: [1500, 3000], // Progressive delays between retries
-} as const;
+function isDeauthorization(event: StravaWebhookEvent): boolean {
+  return (
+    event.object_type === "athlete" &&
+    (event.aspect_type === "deauthorize" ||
+      event.updates?.authorized === "false")
+  );
+}
 
 /**
  * GET /api/strava/webhook
@@ -74,7 +98,8 @@ stravaRouter.get("/webhook", (req: Request, res: Response): void => {
 /**
  * POST /api/strava/webhook
  *
- * Webhook event handler - processes incoming Strava webhook events for activity creation and deauthorization.
+ * Webhook event handler - queues activity creations and relevant updates for
+ * processing, purges deleted activities and handles deauthorization.
  */
 stravaRouter.post(
   "/webhook",
@@ -107,11 +132,9 @@ stravaRouter.post(
         requestId,
       });
 
-      // Handle athlete deauthorization
-      if (
-        event.object_type === "athlete" &&
-        event.aspect_type === "deauthorize"
-      ) {
+      // Handle athlete deauthorization before the subscription check: an
+      // athlete who revoked access must have their data deleted regardless
+      if (isDeauthorization(event)) {
         const stravaAthleteId = event.owner_id.toString();
 
         logger.info("Processing athlete deauthorization", {
@@ -162,9 +185,30 @@ stravaRouter.post(
         }
       }
 
-      // Only process new activity creations
-      if (event.object_type !== "activity" || event.aspect_type !== "create") {
-        logger.debug("Ignoring non-activity-create event", {
+      // Only accept events for the subscription this app created. Events
+      // are let through while the id is unknown rather than dropped.
+      const subscriptionId =
+        await webhookSubscriptionService.getSubscriptionId();
+      if (subscriptionId === null) {
+        logger.warn("Webhook subscription unknown, event not verified", {
+          subscriptionId: event.subscription_id,
+          requestId,
+        });
+      } else if (event.subscription_id !== subscriptionId) {
+        logger.warn("Webhook event for unknown subscription rejected", {
+          subscriptionId: event.subscription_id,
+          expectedSubscriptionId: subscriptionId,
+          requestId,
+        });
+        res.status(403).json({ error: "Unknown subscription" });
+        return;
+      }
+
+      if (
+        event.object_type !== "activity" ||
+        event.aspect_type === "deauthorize"
+      ) {
+        logger.debug("Ignoring non-activity event", {
           objectType: event.object_type,
           aspectType: event.aspect_type,
           requestId,
@@ -173,6 +217,19 @@ stravaRouter.post(
         return;
       }
 
+      if (
+        event.aspect_type === "update" &&
+        !requiresReprocessing(event.updates)
+      ) {
+        logger.debug("Ignoring activity update that does not affect weather", {
+          objectId: event.object_id,
+          updatedFields: Object.keys(event.updates ?? {}),
+          requestId,
+        });
+        res.status(200).json({ message: "Event acknowledged" });
+        return;
+      }
+
       const activityId = event.object_id.toString();
       const stravaAthleteId = event.owner_id.toString();
 
@@ -189,126 +246,103 @@ stravaRouter.post(
         return;
       }
 
-      if (!user.weatherEnabled) {
-        logger.info("Weather updates disabled for user", {
-          userId: user.id,
+      // Strava delivers at least once; handle each event only once
+      const claimed = await webhookRepository.claimEvent(event);
+      if (!claimed) {
+        logger.info("Duplicate webhook event acknowledged", {
           activityId,
+          aspectType: event.aspect_type,
+          eventTime: event.event_time,
           requestId,
         });
-        res.status(200).json({ message: "Event acknowledged" });
+        res.status(200).json({ message: "Duplicate event acknowledged" });
         return;
       }
 
-      logger.info("Processing activity for user", {
-        userId: user.id,
-        userName: `${user.firstName} ${user.lastName}`,
-        activityId,
-        requestId,
-      });
-
-      // Process with retry logic
-      let attempts = 0;
-      let result: ProcessingResult | null = null;
-      const errors: Array<{ attempt: number; error: string }> = [];
+      // Lets Strava's redelivery through after a failure (errors are logged
+      // by the repository)
+      const releaseEvent = () =>
+        webhookRepository.releaseEvent(event).catch(() => undefined);
 
-      while (
-        attempts < WEBHOOK_CONFIG.MAX_RETRY_ATTEMPTS &&
-        Date.now() - startTime < WEBHOOK_CONFIG.MAX_PROCESSING_TIME_MS
-      ) {
+      if (event.aspect_type === "delete") {
         try {
-          // Wait between retries (progressive backoff)
-          if (attempts > 0) {
-            const delayIndex = Math.min(
-              attempts - 1,
-              WEBHOOK_CONFIG.RETRY_DELAYS_MS.length - 1,
-            );
-            const delay = WEBHOOK_CONFIG.RETRY_DELAYS_MS[delayIndex];
-
-            logger.info("Retrying activity processing", {
-              attempt: attempts + 1,
-              delayMs: delay,
-              activityId,
-              requestId,
-            });
-
-            await new Promise((resolve) => setTimeout(resolve, delay));
-          }
+          const [recordsDeleted] = await Promise.all([
+            activityWeatherRepository.deleteByActivityId(activityId, user.id),
+            activityJobRepository.deletePending(activityId),
+          ]);
 
-          result = await activityProcessor.processActivity(
+          logger.info("Deleted activity purged", {
+            userId: user.id,
             activityId,
-            user.id,
-            attempts,
-          );
-
-          // Success or non-retryable failure
-          if (result.success || result.skipped) {
-            break;
-          }
-
-          // Check if it's a "not found" error (retryable)
-          const errorLower = result.error?.toLowerCase() || "";
-          if (errorLower.includes("not found") || errorLower.includes("404")) {
-            errors.push({
-              attempt: attempts + 1,
-              error: result.error || "Not found",
-            });
-            attempts++;
-            continue;
-          }
-
-          // Other errors are not retryable
-          break;
-        } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : "Unknown error";
-          errors.push({ attempt: attempts + 1, error: errorMessage });
+            recordsDeleted,
+            requestId,
+          });
 
-          logger.error("Activity processing attempt failed", {
-            attempt: attempts + 1,
-            error: errorMessage,
+          res.status(200).json({
+            message: "Activity deleted",
             activityId,
+            recordsDeleted,
+          });
+        } catch (error) {
+          logger.error("Failed to purge deleted activity", {
             userId: user.id,
+            activityId,
+            error: error instanceof Error ? error.message : "Unknown error",
             requestId,
           });
 
-          attempts++;
+          // Non-2xx so Strava redelivers the event
+          await releaseEvent();
+          res.status(500).json({ message: "Failed to delete activity" });
         }
+        return;
       }
 
-      // Log final processing result
-      const processingTime = Date.now() - startTime;
-      const logData = {
-        activityId,
-        userId: user.id,
-        attempts,
-        processingTimeMs: processingTime,
-        success: result?.success || false,
-        skipped: result?.skipped || false,
-        skipReason: result?.reason,
-        errors: errors.length > 0 ? errors : undefined,
-        requestId,
-      };
-
-      if (result?.success && !result?.skipped) {
-        logger.info("Activity processed successfully", logData);
-      } else if (result?.skipped) {
-        logger.info("Activity processing skipped", logData);
-      } else {
-        logger.warn("Activity processing failed", {
-          ...logData,
-          finalError: result?.error || "Unknown error",
+      if (!user.weatherEnabled) {
+        logger.info("Weather updates disabled for user", {
+          userId: user.id,
+          activityId,
+          requestId,
         });
+        res.status(200).json({ message: "Event acknowledged" });
+        return;
       }
 
-      // Always respond 200 to prevent Strava retries
-      res.status(200).json({
-        message: "Webhook processed",
-        activityId,
-        attempts,
-        processingTimeMs: processingTime,
-        success: result?.success || false,
-        skipped: result?.skipped || false,
-      });
+      try {
+        const { job, created } = await activityJobRepository.enqueue({
+          activityId,
+          userId: user.id,
+        });
+
+        logger.info(
+          created ? "Activity job queued" : "Activity already queued",
+          {
+            jobId: job.id,
+            userId: user.id,
+            activityId,
+            aspectType: event.aspect_type,
+            processingTimeMs: Date.now() - startTime,
+            requestId,
+          },
+        );
+
+        res.status(200).json({
+          message: "Event queued",
+          activityId,
+          jobId: job.id,
+        });
+      } catch (error) {
+        logger.error("Failed to queue activity job", {
+          userId: user.id,
+          activityId,
+          error: error instanceof Error ? error.message : "Unknown error",
+          requestId,
+        });
+
+        // Non-2xx so Strava redelivers the event
+        await releaseEvent();
+        res.status(500).json({ message: "Failed to queue event" });
+      }
     },
   ),
 );
@@ -3,7 +3,14 @@ import { z } from "zod";
 import { userRepository, userPreferenceRepository } from "../lib";
 import { authenticateUser } from "../middleware/auth";
 import { AppError, asyncHandler } from "../middleware/errorHandler";
+import {
+  activityProcessor,
+  type WeatherDisplayPreferences,
+} from "../services/activityProcessor";
+import { DEFAULT_USER_PREFERENCES } from "../services/userPreferences";
+import type { WeatherData } from "../services/weatherService";
 import { logger } from "../utils/logger";
+import { validateWeatherTemplate } from "../utils/weatherTemplate";
 import type { Request, Response } from "express";
 
 /**
@@ -21,24 +28,124 @@ const userUpdateSchema = z.object({
   weatherEnabled: z.boolean(),
 });
 
-const preferencesUpdateSchema = z
-  .object({
-    temperatureUnit: z.enum(["fahrenheit", "celsius"]).optional(),
-    weatherFormat: z.enum(["detailed", "simple"]).optional(),
-    includeUvIndex: z.boolean().optional(),
-    includeVisibility: z.boolean().optional(),
-    customFormat: z.string().max(500).optional(),
-  })
+const preferenceFieldsSchema = z.object({
+  temperatureUnit: z.enum(["fahrenheit", "celsius"]).optional(),
+  weatherFormat: z.enum(["detailed", "simple"]).optional(),
+  includeUvIndex: z.boolean().optional(),
+  includeVisibility: z.boolean().optional(),
+  customFormat: z
+    .string()
+    .max(500)
+    .superRefine((template, ctx) => {
+      const error = validateWeatherTemplate(template);
+      if (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `customFormat: ${error.message}`,
+          params: { position: error.position },
+        });
+      }
+    })
+    .optional(),
+});
+
+const sportTypesSchema = z.array(z.string().trim().min(1).max(50)).max(50);
+
+const activityRulesSchema = z.object({
+  includeSportTypes: sportTypesSchema.optional(),
+  excludeSportTypes: sportTypesSchema.optional(),
+  skipPrivate: z.boolean().optional(),
+  skipTrainer: z.boolean().optional(),
+  minDurationMinutes: z.number().int().min(1).max(1440).nullable().optional(),
+  skipWithoutMovement: z.boolean().optional(),
+});
+
+const preferencesUpdateSchema = preferenceFieldsSchema
+  .merge(activityRulesSchema)
   .refine((data) => Object.values(data).some((v) => v !== undefined), {
     message: "At least one preference field must be provided",
   });
 
+const baseWeatherDataSchema = z.object({
+  temperature: z.number(),
+  temperatureFeel: z.number(),
+  humidity: z.number().min(0).max(100),
+  pressure: z.number(),
+  windSpeed: z.number().min(0),
+  windDirection: z.number(),
+  windGust: z.number().min(0).optional(),
+  cloudCover: z.number().min(0).max(100),
+  visibility: z.number().min(0),
+  condition: z.string().max(100),
+  description: z.string().max(200),
+  icon: z.string().max(10),
+  uvIndex: z.number().min(0).optional(),
+  timestamp: z.string().datetime(),
+});
+
+const percentSchema = z.number().min(0).max(100);
+
+const weatherDataSchema = baseWeatherDataSchema.extend({
+  route: z
+    .object({
+      minTemperature: z.number(),
+      maxTemperature: z.number(),
+      precipitation: z.array(z.string().max(100)).max(10),
+      windShift: z.number().min(0).max(180),
+      samples: z
+        .array(
+          z.object({
+            point: z.enum(["start", "midpoint", "finish"]),
+            latitude: z.number().min(-90).max(90),
+            longitude: z.number().min(-180).max(180),
+            time: z.string().datetime(),
+            weather: baseWeatherDataSchema,
+          }),
+        )
+        .max(3)
+        .default([]),
+    })
+    .optional(),
+  windExposure: z
+    .object({
+      headwind: percentSchema,
+      tailwind: percentSchema,
+      crosswind: percentSchema,
+    })
+    .optional(),
+});
+
+const preferencesPreviewSchema = preferenceFieldsSchema.extend({
+  weatherData: weatherDataSchema.optional(),
+});
+
+/**
+ * Sample conditions used for previews when no weather data is supplied
+ */
+const SAMPLE_WEATHER_DATA: WeatherData = {
+  temperature: 18,
+  temperatureFeel: 17,
+  humidity: 62,
+  pressure: 1015,
+  windSpeed: 4.2,
+  windDirection: 240,
+  windGust: 7.8,
+  cloudCover: 35,
+  visibility: 10,
+  condition: "Clouds",
+  description: "scattered clouds",
+  icon: "03d",
+  uvIndex: 4,
+  timestamp: "2024-06-15T08:00:00.000Z",
+};
+
 /**
  * GET /api/users/me
  *
  * Get current user profile including Strava data, weather preferences,
  * and account metadata. Returns comprehensive user information for
- * authenticated users.
+ * authenticated users. authStatus is "reauth_required" when Strava has
+ * rejected the user's refresh token and they need to sign in again.
  */
 usersRouter.get(
   "/me",
@@ -94,13 +201,8 @@ usersRouter.get(
         profileImageUrl: userProfile.profileImageUrl,
         location,
         weatherEnabled: userProfile.weatherEnabled,
-        preferences: userProfile.preferences || {
-          temperatureUnit: "fahrenheit",
-          weatherFormat: "detailed",
-          includeUvIndex: true,
-          includeVisibility: true,
-          customFormat: null,
-        },
+        authStatus: userProfile.authStatus,
+        preferences: userProfile.preferences || DEFAULT_USER_PREFERENCES,
         memberSince: userProfile.createdAt,
         lastUpdated: userProfile.updatedAt,
       },
@@ -169,7 +271,10 @@ usersRouter.patch(
  *
  * Update weather display preferences including temperature units (celsius/fahrenheit),
  * display format (detailed/simple), and which data points to include (UV index, visibility).
- * Also supports custom format strings for weather display.
+ * Activity rules opt activities out of weather by sport type, privacy, trainer
+ * or virtual flag, minimum duration, or lack of movement.
+ * Also supports custom format templates for weather display; templates with unknown
+ * placeholders or filters are rejected with the position of the offending token.
  */
 usersRouter.patch(
   "/me/preferences",
@@ -208,15 +313,15 @@ usersRouter.patch(
       requestId,
     });
 
-    const updatedPreferences = await userPreferenceRepository.upsert({
-      userId: user.id,
-      temperatureUnit: "fahrenheit",
-      weatherFormat: "detailed",
-      includeUvIndex: true,
-      includeVisibility: true,
-      customFormat: null,
-      ...preferencesData,
-    });
+    // Only the fields sent are changed; a first save starts from the defaults
+    const saved = await userPreferenceRepository.findByUserId(user.id);
+    const updatedPreferences = saved
+      ? await userPreferenceRepository.update(user.id, preferencesData)
+      : await userPreferenceRepository.upsert({
+          userId: user.id,
+          ...DEFAULT_USER_PREFERENCES,
+          ...preferencesData,
+        });
 
     logger.info("Weather preferences updated successfully", {
       userId: user.id,
@@ -232,6 +337,75 @@ usersRouter.patch(
   }),
 );
 
+/**
+ * POST /api/users/me/preferences/preview
+ *
+ * Preview the weather text that would be appended to an activity for a draft
+ * set of preferences. Draft fields override the user's saved preferences and
+ * nothing is persisted. Uses sample conditions unless weatherData is supplied.
+ */
+usersRouter.post(
+  "/me/preferences/preview",
+  authenticateUser,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user!;
+    const requestId = (req as any).requestId;
+
+    const validation = preferencesPreviewSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      logger.warn("Invalid preferences preview request", {
+        userId: user.id,
+        errors: validation.error.errors,
+        requestId,
+      });
+      throw new AppError(
+        "Invalid preview data: " + validation.error.errors[0]?.message,
+        400,
+      );
+    }
+
+    const { weatherData, ...draft } = validation.data;
+
+    const userProfile = await userRepository.findWithPreferences(user.id);
+    const saved = userProfile?.preferences;
+
+    const preferences: Partial<WeatherDisplayPreferences> = {
+      ...(saved && {
+        temperatureUnit: saved.temperatureUnit,
+        weatherFormat: saved.weatherFormat,
+        includeUvIndex: saved.includeUvIndex,
+        includeVisibility: saved.includeVisibility,
+        customFormat: saved.customFormat,
+      }),
+      ...Object.fromEntries(
+        Object.entries(draft).filter(([, value]) => value !== undefined),
+      ),
+    };
+
+    const previewWeather = weatherData ?? SAMPLE_WEATHER_DATA;
+    const text = activityProcessor.renderWeatherLine(
+      previewWeather,
+      preferences,
+    );
+
+    logger.debug("Weather preferences preview rendered", {
+      userId: user.id,
+      usedSampleWeather: !weatherData,
+      requestId,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        text,
+        preferences,
+        weatherData: previewWeather,
+        usedSampleWeather: !weatherData,
+      },
+    });
+  }),
+);
+
 /**
  * DELETE /api/users/me
  *
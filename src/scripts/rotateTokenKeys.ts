@@ -0,0 +1,38 @@
+import { disconnect, userRepository } from "../lib";
+import { logger } from "../utils/logger";
+import { tokenCipher } from "../utils/tokenEncryption";
+
+/**
+ * Token key rotation command
+ *
+ * Re-encrypts every user's Strava tokens under the active key
+ * (TOKEN_ENCRYPTION_KEY_ID). Keep the old key in TOKEN_ENCRYPTION_KEYS
+ * until this has finished, then remove it. Safe to run repeatedly.
+ *
+ * Usage: npm run tokens:rotate
+ */
+async function main(): Promise<void> {
+  logger.info("Rotating token encryption keys", {
+    keyId: tokenCipher.activeKeyId,
+  });
+
+  const rotated = await userRepository.rotateTokenKeys();
+
+  logger.info("Token encryption key rotation complete", {
+    keyId: tokenCipher.activeKeyId,
+    rotated,
+  });
+}
+
+main()
+  .then(() => 0)
+  .catch((error) => {
+    logger.error("Token encryption key rotation failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return 1;
+  })
+  .then(async (exitCode) => {
+    await disconnect();
+    process.exit(exitCode);
+  });
@@ -0,0 +1,241 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  MockedFunction,
+} from "vitest";
+
+vi.mock("../../lib", () => ({
+  activityJobRepository: {
+    claimNext: vi.fn(),
+    complete: vi.fn(),
+    retry: vi.fn(),
+    reschedule: vi.fn(),
+    deadLetter: vi.fn(),
+    deadLetterExpired: vi.fn(),
+  },
+}));
+
+vi.mock("../activityProcessor", () => ({
+  activityProcessor: {
+    processActivity: vi.fn(),
+  },
+}));
+
+vi.mock("../../utils/logger", () => ({
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import { ActivityJobWorker, JOB_CONFIG } from "../activityJobWorker";
+import { activityJobRepository } from "../../lib";
+import { activityProcessor } from "../activityProcessor";
+
+describe("ActivityJobWorker", () => {
+  let worker: ActivityJobWorker;
+
+  const claimedJob = {
+    id: 7,
+    activity_id: "123456",
+    user_id: "user-123",
+    status: "processing" as const,
+    attempts: 1,
+    max_attempts: 5,
+    run_at: new Date("2024-01-15T10:00:00Z"),
+    locked_until: new Date("2024-01-15T10:10:00Z"),
+    locked_by: "worker",
+    last_error: null,
+    created_at: new Date("2024-01-15T10:00:00Z"),
+    updated_at: new Date("2024-01-15T10:00:00Z"),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-15T10:00:00Z"));
+    vi.spyOn(Math, "random").mockReturnValue(0);
+
+    worker = new ActivityJobWorker();
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe("processJob", () => {
+    it("should complete the job when processing succeeds", async () => {
+      (
+        activityProcessor.processActivity as MockedFunction<any>
+      ).mockResolvedValue({ success: true, activityId: "123456" });
+
+      await worker.processJob(claimedJob);
+
+      expect(activityProcessor.processActivity).toHaveBeenCalledWith(
+        "123456",
+        "user-123",
+        0,
+        "webhook",
+      );
+      expect(activityJobRepository.complete).toHaveBeenCalledWith(
+        7,
+        worker.workerId,
+      );
+      expect(activityJobRepository.retry).not.toHaveBeenCalled();
+    });
+
+    it("should complete the job when processing is skipped", async () => {
+      (
+        activityProcessor.processActivity as MockedFunction<any>
+      ).mockResolvedValue({
+        success: false,
+        activityId: "123456",
+        skipped: true,
+        reason: "No GPS coordinates",
+      });
+
+      await worker.processJob(claimedJob);
+
+      expect(activityJobRepository.complete).toHaveBeenCalled();
+    });
+
+    it("should schedule a retry with exponential backoff on failure", async () => {
+      (
+        activityProcessor.processActivity as MockedFunction<any>
+      ).mockResolvedValue({
+        success: false,
+        activityId: "123456",
+        error: "Activity not found on Strava",
+      });
+
+      await worker.processJob({ ...claimedJob, attempts: 3 });
+
+      expect(activityJobRepository.retry).toHaveBeenCalledWith(
+        7,
+        worker.workerId,
+        new Date(Date.now() + JOB_CONFIG.BASE_BACKOFF_MS * 4),
+        "Activity not found on Strava",
+      );
+    });
+
+    it("should retry when processing throws", async () => {
+      (
+        activityProcessor.processActivity as MockedFunction<any>
+      ).mockRejectedValue(new Error("socket hang up"));
+
+      await worker.processJob(claimedJob);
+
+      expect(activityJobRepository.retry).toHaveBeenCalledWith(
+        7,
+        worker.workerId,
+        expect.any(Date),
+        "socket hang up",
+      );
+    });
+
+    it("should reschedule without using an attempt when the activity is locked", async () => {
+      (
+        activityProcessor.processActivity as MockedFunction<any>
+      ).mockResolvedValue({
+        success: false,
+        activityId: "123456",
+        inProgress: true,
+        error: "Activity processing already in progress",
+      });
+
+      await worker.processJob({ ...claimedJob, attempts: 5 });
+
+      expect(activityJobRepository.reschedule).toHaveBeenCalledWith(
+        7,
+        worker.workerId,
+        new Date(Date.now() + JOB_CONFIG.IN_PROGRESS_DELAY_MS),
+        "Activity processing already in progress",
+      );
+      expect(activityJobRepository.retry).not.toHaveBeenCalled();
+      expect(activityJobRepository.deadLetter).not.toHaveBeenCalled();
+    });
+
+    it("should dead-letter the job after the final attempt", async () => {
+      (
+        activityProcessor.processActivity as MockedFunction<any>
+      ).mockResolvedValue({
+        success: false,
+        activityId: "123456",
+        error: "Strava API error: 500",
+      });
+
+      await worker.processJob({ ...claimedJob, attempts: 5 });
+
+      expect(activityJobRepository.deadLetter).toHaveBeenCalledWith(
+        7,
+        worker.workerId,
+        "Strava API error: 500",
+      );
+      expect(activityJobRepository.retry).not.toHaveBeenCalled();
+    });
+
+    it("should dead-letter permanent errors immediately", async () => {
+      (
+        activityProcessor.processActivity as MockedFunction<any>
+      ).mockResolvedValue({
+        success: false,
+        activityId: "123456",
+        error: "User not found",
+      });
+
+      await worker.processJob(claimedJob);
+
+      expect(activityJobRepository.deadLetter).toHaveBeenCalledWith(
+        7,
+        worker.workerId,
+        "User not found",
+      );
+    });
+  });
+
+  describe("getBackoffDelay", () => {
+    it("should double the delay per attempt up to the cap", () => {
+      expect(worker.getBackoffDelay(1)).toBe(JOB_CONFIG.BASE_BACKOFF_MS);
+      expect(worker.getBackoffDelay(2)).toBe(JOB_CONFIG.BASE_BACKOFF_MS * 2);
+      expect(worker.getBackoffDelay(20)).toBe(JOB_CONFIG.MAX_BACKOFF_MS);
+    });
+  });
+
+  describe("drain", () => {
+    it("should process due jobs until the queue is empty", async () => {
+      (activityJobRepository.claimNext as MockedFunction<any>)
+        .mockResolvedValueOnce(claimedJob)
+        .mockResolvedValueOnce({ ...claimedJob, id: 8 })
+        .mockResolvedValueOnce(null);
+      (
+        activityProcessor.processActivity as MockedFunction<any>
+      ).mockResolvedValue({ success: true, activityId: "123456" });
+
+      worker.start();
+      const processed = await worker.drain();
+
+      expect(processed).toBe(2);
+      expect(activityJobRepository.deadLetterExpired).toHaveBeenCalled();
+      expect(activityJobRepository.claimNext).toHaveBeenCalledWith(
+        worker.workerId,
+        JOB_CONFIG.VISIBILITY_TIMEOUT_MS,
+      );
+      expect(activityJobRepository.complete).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not claim jobs once stopped", async () => {
+      const processed = await worker.drain();
+
+      expect(processed).toBe(0);
+      expect(activityJobRepository.claimNext).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -29,20 +29,29 @@ vi.mock("../../config/environment", () => ({
 
 vi.mock("../../lib", () => ({
   userRepository: {
-    findById: vi.fn(),
+    findWithPreferences: vi.fn(),
     update: vi.fn(),
   },
+  activityWeatherRepository: {
+    create: vi.fn(),
+  },
+  activityLockRepository: {
+    acquire: vi.fn(),
+    renew: vi.fn(),
+    release: vi.fn(),
+  },
 }));
 
 vi.mock("../weatherService", () => ({
   weatherService: {
     getWeatherForActivity: vi.fn(),
+    getDataSource: vi.fn(),
   },
+  HistoricalWeatherUnavailableError: class extends Error {},
 }));
 
 vi.mock("../stravaApi", () => ({
   stravaApiService: {
-    ensureValidToken: vi.fn(),
     getActivity: vi.fn(),
     updateActivity: vi.fn(),
     refreshAccessToken: vi.fn(),
@@ -50,6 +59,12 @@ vi.mock("../stravaApi", () => ({
   },
 }));
 
+vi.mock("../userTokenService", () => ({
+  userTokenService: {
+    ensureValidToken: vi.fn(),
+  },
+}));
+
 vi.mock("../../utils/logger", () => ({
   logger: {
     info: vi.fn(),
@@ -75,14 +90,29 @@ vi.mock("../../utils/logger", () => ({
   logDebug: vi.fn(),
 }));
 
-import { ActivityProcessor } from "../activityProcessor";
-import { weatherService } from "../weatherService";
+import {
+  ActivityProcessor,
+  WEATHER_BLOCK_START,
+  WEATHER_BLOCK_END,
+} from "../activityProcessor";
+import {
+  weatherService,
+  HistoricalWeatherUnavailableError,
+} from "../weatherService";
 import { stravaApiService } from "../stravaApi";
-import { userRepository } from "../../lib";
+import { userTokenService } from "../userTokenService";
+import {
+  userRepository,
+  activityWeatherRepository,
+  activityLockRepository,
+} from "../../lib";
 
 describe("ActivityProcessor Service", () => {
   let activityProcessor: ActivityProcessor;
 
+  const weatherBlock = (line: string) =>
+    `${WEATHER_BLOCK_START}${line}${WEATHER_BLOCK_END}`;
+
   // Test data fixtures
   const mockUser = {
     id: "user-123",
@@ -92,6 +122,16 @@ describe("ActivityProcessor Service", () => {
     weatherEnabled: true,
     firstName: "John",
     lastName: "Doe",
+    preferences: null,
+  };
+
+  const noActivityRules = {
+    includeSportTypes: [],
+    excludeSportTypes: [],
+    skipPrivate: false,
+    skipTrainer: false,
+    minDurationMinutes: null,
+    skipWithoutMovement: false,
   };
 
   const mockActivity: StravaActivity = {
@@ -113,6 +153,7 @@ describe("ActivityProcessor Service", () => {
     athlete_count: 1,
     photo_count: 0,
     private: false,
+    trainer: false,
     visibility: "everyone",
     description: "Great morning run!",
   };
@@ -148,12 +189,12 @@ describe("ActivityProcessor Service", () => {
     activityProcessor = new ActivityProcessor();
 
     // Setup default mock implementations
-    (userRepository.findById as MockedFunction<any>).mockResolvedValue(
-      mockUser,
-    );
+    (
+      userRepository.findWithPreferences as MockedFunction<any>
+    ).mockResolvedValue(mockUser);
     (userRepository.update as MockedFunction<any>).mockResolvedValue(mockUser);
     (
-      stravaApiService.ensureValidToken as MockedFunction<any>
+      userTokenService.ensureValidToken as MockedFunction<any>
     ).mockResolvedValue(mockTokenData);
     (stravaApiService.getActivity as MockedFunction<any>).mockResolvedValue(
       mockActivity,
@@ -164,6 +205,18 @@ describe("ActivityProcessor Service", () => {
     (
       weatherService.getWeatherForActivity as MockedFunction<any>
     ).mockResolvedValue(mockWeatherData);
+    (weatherService.getDataSource as MockedFunction<any>).mockReturnValue(
+      "historical",
+    );
+    (activityWeatherRepository.create as MockedFunction<any>).mockResolvedValue(
+      { id: 1 },
+    );
+    (activityLockRepository.acquire as MockedFunction<any>).mockResolvedValue(
+      true,
+    );
+    (activityLockRepository.release as MockedFunction<any>).mockResolvedValue(
+      undefined,
+    );
   });
 
   afterEach(() => {
@@ -182,14 +235,18 @@ describe("ActivityProcessor Service", () => {
           success: true,
           activityId: "123456",
           weatherData: mockWeatherData,
+          dataSource: "historical",
         });
 
         // Verify service calls
-        expect(userRepository.findById).toHaveBeenCalledWith("user-123");
+        expect(userRepository.findWithPreferences).toHaveBeenCalledWith(
+          "user-123",
+        );
 
         expect(stravaApiService.getActivity).toHaveBeenCalledWith(
           "123456",
           mockTokenData.accessToken,
+          "manual",
         );
         expect(weatherService.getWeatherForActivity).toHaveBeenCalledWith(
           52.52,
@@ -203,6 +260,7 @@ describe("ActivityProcessor Service", () => {
           expect.objectContaining({
             description: expect.stringContaining("Partly cloudy, 15°C"),
           }),
+          "manual",
         );
       });
 
@@ -215,16 +273,40 @@ describe("ActivityProcessor Service", () => {
         };
 
         (
-          stravaApiService.ensureValidToken as MockedFunction<any>
+          userTokenService.ensureValidToken as MockedFunction<any>
         ).mockResolvedValue(expiredTokenData);
 
         await activityProcessor.processActivity("123456", "user-123");
 
-        expect(userRepository.update).toHaveBeenCalledWith("user-123", {
-          accessToken: expiredTokenData.accessToken,
-          refreshToken: expiredTokenData.refreshToken,
-          tokenExpiresAt: expiredTokenData.expiresAt,
-        });
+        expect(userTokenService.ensureValidToken).toHaveBeenCalledWith(
+          mockUser,
+        );
+        expect(stravaApiService.getActivity).toHaveBeenCalledWith(
+          "123456",
+          "refreshed-access-token",
+          "manual",
+        );
+      });
+
+      it("should queue Strava calls in the requested lane", async () => {
+        await activityProcessor.processActivity(
+          "123456",
+          "user-123",
+          0,
+          "webhook",
+        );
+
+        expect(stravaApiService.getActivity).toHaveBeenCalledWith(
+          "123456",
+          mockTokenData.accessToken,
+          "webhook",
+        );
+        expect(stravaApiService.updateActivity).toHaveBeenCalledWith(
+          "123456",
+          mockTokenData.accessToken,
+          expect.any(Object),
+          "webhook",
+        );
       });
 
       it("should preserve original description when adding weather", async () => {
@@ -249,16 +331,225 @@ describe("ActivityProcessor Service", () => {
               new RegExp(`^${originalDescription}\\n\\n`),
             ),
           },
+          "manual",
+        );
+      });
+    });
+
+    describe("user preferences", () => {
+      it("should render the description using saved preferences", async () => {
+        (
+          userRepository.findWithPreferences as MockedFunction<any>
+        ).mockResolvedValue({
+          ...mockUser,
+          preferences: {
+            ...noActivityRules,
+            temperatureUnit: "fahrenheit",
+            weatherFormat: "simple",
+            includeUvIndex: true,
+            includeVisibility: false,
+            customFormat: null,
+          },
+        });
+
+        await activityProcessor.processActivity("123456", "user-123");
+
+        expect(stravaApiService.updateActivity).toHaveBeenCalledWith(
+          "123456",
+          mockTokenData.accessToken,
+          {
+            description:
+              "Great morning run!\n\n" +
+              weatherBlock("Partly cloudy, 59°F, UV index 3"),
+          },
+          "manual",
+        );
+      });
+
+      it("should render the user's custom format template", async () => {
+        (
+          userRepository.findWithPreferences as MockedFunction<any>
+        ).mockResolvedValue({
+          ...mockUser,
+          preferences: {
+            ...noActivityRules,
+            temperatureUnit: "fahrenheit",
+            weatherFormat: "detailed",
+            includeUvIndex: false,
+            includeVisibility: false,
+            customFormat:
+              "{temp} {description|capitalize}{?gust}, gusts {gust}{/gust}",
+          },
+        });
+
+        await activityProcessor.processActivity("123456", "user-123");
+
+        expect(stravaApiService.updateActivity).toHaveBeenCalledWith(
+          "123456",
+          mockTokenData.accessToken,
+          {
+            description:
+              "Great morning run!\n\n" + weatherBlock("59°F Partly cloudy"),
+          },
+          "manual",
+        );
+      });
+
+      it("should fall back to the standard line for an invalid custom format", async () => {
+        (
+          userRepository.findWithPreferences as MockedFunction<any>
+        ).mockResolvedValue({
+          ...mockUser,
+          preferences: {
+            ...noActivityRules,
+            temperatureUnit: "celsius",
+            weatherFormat: "simple",
+            includeUvIndex: false,
+            includeVisibility: false,
+            customFormat: "{unknown}",
+          },
+        });
+
+        await activityProcessor.processActivity("123456", "user-123");
+
+        expect(stravaApiService.updateActivity).toHaveBeenCalledWith(
+          "123456",
+          mockTokenData.accessToken,
+          {
+            description:
+              "Great morning run!\n\n" + weatherBlock("Partly cloudy, 15°C"),
+          },
+          "manual",
+        );
+      });
+
+      it("should fall back to the default celsius line without preferences", async () => {
+        await activityProcessor.processActivity("123456", "user-123");
+
+        expect(stravaApiService.updateActivity).toHaveBeenCalledWith(
+          "123456",
+          mockTokenData.accessToken,
+          {
+            description:
+              "Great morning run!\n\n" +
+              weatherBlock(
+                "Partly cloudy, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW",
+              ),
+          },
+          "manual",
         );
       });
     });
 
+    describe("activity rules", () => {
+      const withRules = (rules: Record<string, unknown>) =>
+        (
+          userRepository.findWithPreferences as MockedFunction<any>
+        ).mockResolvedValue({
+          ...mockUser,
+          preferences: {
+            temperatureUnit: "celsius",
+            weatherFormat: "detailed",
+            includeUvIndex: false,
+            includeVisibility: false,
+            customFormat: null,
+            ...noActivityRules,
+            ...rules,
+          },
+        });
+
+      it("should skip an activity matching an opt-out rule", async () => {
+        withRules({ excludeSportTypes: ["Run"] });
+
+        const result = await activityProcessor.processActivity(
+          "123456",
+          "user-123",
+        );
+
+        expect(result).toEqual({
+          success: false,
+          activityId: "123456",
+          skipped: true,
+          reason: "Sport type Run excluded",
+        });
+        expect(weatherService.getWeatherForActivity).not.toHaveBeenCalled();
+        expect(stravaApiService.updateActivity).not.toHaveBeenCalled();
+      });
+
+      it("should process activities that match no rule", async () => {
+        withRules({ includeSportTypes: ["Run"], skipPrivate: true });
+
+        const result = await activityProcessor.processActivity(
+          "123456",
+          "user-123",
+        );
+
+        expect(result.success).toBe(true);
+        expect(stravaApiService.updateActivity).toHaveBeenCalled();
+      });
+    });
+
     describe("skip scenarios", () => {
+      it("should refresh an outdated weather block in place", async () => {
+        (stravaApiService.getActivity as MockedFunction<any>).mockResolvedValue(
+          {
+            ...mockActivity,
+            description: `Great morning run!\n\n${weatherBlock("Rain, 8°C")}`,
+          },
+        );
+
+        const result = await activityProcessor.processActivity(
+          "123456",
+          "user-123",
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.skipped).toBeUndefined();
+        expect(stravaApiService.updateActivity).toHaveBeenCalledWith(
+          "123456",
+          mockTokenData.accessToken,
+          {
+            description:
+              "Great morning run!\n\n" +
+              weatherBlock(
+                "Partly cloudy, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW",
+              ),
+          },
+          "manual",
+        );
+      });
+
+      it("should skip the update when the weather is already up to date", async () => {
+        (stravaApiService.getActivity as MockedFunction<any>).mockResolvedValue(
+          {
+            ...mockActivity,
+            description:
+              "Great morning run!\n\n" +
+              weatherBlock(
+                "Partly cloudy, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW",
+              ),
+          },
+        );
+
+        const result = await activityProcessor.processActivity(
+          "123456",
+          "user-123",
+        );
+
+        expect(result).toEqual({
+          success: true,
+          activityId: "123456",
+          skipped: true,
+          reason: "Weather already up to date",
+        });
+        expect(stravaApiService.updateActivity).not.toHaveBeenCalled();
+      });
+
       it("should skip when weather updates are disabled", async () => {
         const disabledUser = { ...mockUser, weatherEnabled: false };
-        (userRepository.findById as MockedFunction<any>).mockResolvedValue(
-          disabledUser,
-        );
+        (
+          userRepository.findWithPreferences as MockedFunction<any>
+        ).mockResolvedValue(disabledUser);
 
         const result = await activityProcessor.processActivity(
           "123456",
@@ -321,11 +612,30 @@ describe("ActivityProcessor Service", () => {
     });
 
     describe("error handling", () => {
-      it("should handle user not found", async () => {
-        (userRepository.findById as MockedFunction<any>).mockResolvedValue(
-          null,
+      it("should skip activities too old for the available weather data", async () => {
+        (
+          weatherService.getWeatherForActivity as MockedFunction<any>
+        ).mockRejectedValue(new HistoricalWeatherUnavailableError());
+
+        const result = await activityProcessor.processActivity(
+          "123456",
+          "user-123",
         );
 
+        expect(result).toEqual({
+          success: false,
+          activityId: "123456",
+          skipped: true,
+          reason: "Historical weather unavailable",
+        });
+        expect(stravaApiService.updateActivity).not.toHaveBeenCalled();
+      });
+
+      it("should handle user not found", async () => {
+        (
+          userRepository.findWithPreferences as MockedFunction<any>
+        ).mockResolvedValue(null);
+
         const result = await activityProcessor.processActivity(
           "123456",
           "user-123",
@@ -393,14 +703,176 @@ describe("ActivityProcessor Service", () => {
 
       it("should handle database errors during token update", async () => {
         const dbError = new Error("Database connection lost");
-        const refreshedToken = { ...mockTokenData, wasRefreshed: true };
 
         (
-          stravaApiService.ensureValidToken as MockedFunction<any>
-        ).mockResolvedValue(refreshedToken);
-        (userRepository.update as MockedFunction<any>).mockRejectedValue(
-          dbError,
+          userTokenService.ensureValidToken as MockedFunction<any>
+        ).mockRejectedValue(dbError);
+
+        const result = await activityProcessor.processActivity(
+          "123456",
+          "user-123",
+        );
+
+        expect(result).toEqual({
+          success: false,
+          activityId: "123456",
+          error: "Database connection lost",
+        });
+      });
+    });
+
+    describe("route weather", () => {
+      const longRide: StravaActivity = {
+        ...mockActivity,
+        type: "Ride",
+        elapsed_time: 5 * 60 * 60,
+        map: {
+          id: "a123456",
+          summary_polyline: "_p~iF~ps|U_ulLnnqC_mqNvxq`@",
+        },
+      };
+
+      beforeEach(() => {
+        (stravaApiService.getActivity as MockedFunction<any>).mockResolvedValue(
+          longRide,
         );
+      });
+
+      it("should sample weather at the midpoint and finish of long activities", async () => {
+        (weatherService.getWeatherForActivity as MockedFunction<any>)
+          .mockResolvedValueOnce(mockWeatherData)
+          .mockResolvedValueOnce({
+            ...mockWeatherData,
+            temperature: 6,
+            condition: "Rain",
+            description: "light rain",
+            windDirection: 315,
+          })
+          .mockResolvedValueOnce({ ...mockWeatherData, temperature: 11 });
+
+        const result = await activityProcessor.processActivity(
+          "123456",
+          "user-123",
+        );
+
+        expect(weatherService.getWeatherForActivity).toHaveBeenCalledTimes(3);
+        expect(weatherService.getWeatherForActivity).toHaveBeenLastCalledWith(
+          43.252,
+          -126.453,
+          new Date("2024-01-15T12:30:00Z"),
+          "123456",
+        );
+        expect(result.weatherData).toMatchObject({
+          temperature: 15,
+          route: {
+            minTemperature: 6,
+            maxTemperature: 15,
+            precipitation: ["light rain"],
+            windShift: 0,
+          },
+          windExposure: { headwind: 68, tailwind: 0, crosswind: 32 },
+        });
+        expect(result.weatherData?.route?.samples).toHaveLength(3);
+        expect(stravaApiService.updateActivity).toHaveBeenCalledWith(
+          "123456",
+          mockTokenData.accessToken,
+          {
+            description:
+              "Great morning run!\n\n" +
+              weatherBlock(
+                "Partly cloudy, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW, Route 6°C to 15°C, Light rain en route, Headwind 68%, tailwind 0%, crosswind 32%",
+              ),
+          },
+          "manual",
+        );
+      });
+
+      it("should keep the start weather when route samples fail", async () => {
+        (weatherService.getWeatherForActivity as MockedFunction<any>)
+          .mockResolvedValueOnce(mockWeatherData)
+          .mockRejectedValue(new Error("Weather API rate limit exceeded"));
+
+        const result = await activityProcessor.processActivity(
+          "123456",
+          "user-123",
+        );
+
+        expect(result.weatherData).toEqual({
+          ...mockWeatherData,
+          windExposure: { headwind: 0, tailwind: 0, crosswind: 100 },
+        });
+      });
+
+      it("should only use the start point for short activities", async () => {
+        (stravaApiService.getActivity as MockedFunction<any>).mockResolvedValue(
+          { ...longRide, elapsed_time: 1850 },
+        );
+
+        const result = await activityProcessor.processActivity(
+          "123456",
+          "user-123",
+        );
+
+        expect(weatherService.getWeatherForActivity).toHaveBeenCalledTimes(1);
+        expect(result.weatherData?.route).toBeUndefined();
+        expect(result.weatherData?.windExposure).toEqual({
+          headwind: 0,
+          tailwind: 0,
+          crosswind: 100,
+        });
+      });
+    });
+
+    describe("activity lock", () => {
+      it("should hold the activity lock while processing", async () => {
+        await activityProcessor.processActivity("123456", "user-123");
+
+        expect(activityLockRepository.acquire).toHaveBeenCalledWith(
+          "123456",
+          expect.any(String),
+          10 * 60 * 1000,
+        );
+        const owner = (activityLockRepository.acquire as MockedFunction<any>)
+          .mock.calls[0]![1];
+        expect(activityLockRepository.release).toHaveBeenCalledWith(
+          "123456",
+          owner,
+        );
+        expect(
+          (activityLockRepository.release as MockedFunction<any>).mock
+            .invocationCallOrder[0],
+        ).toBeGreaterThan(
+          (stravaApiService.updateActivity as MockedFunction<any>).mock
+            .invocationCallOrder[0]!,
+        );
+      });
+
+      it("should report in progress without touching the activity when locked", async () => {
+        (
+          activityLockRepository.acquire as MockedFunction<any>
+        ).mockResolvedValue(false);
+
+        const result = await activityProcessor.processActivity(
+          "123456",
+          "user-123",
+        );
+
+        expect(result).toEqual({
+          success: false,
+          activityId: "123456",
+          inProgress: true,
+          error: "Activity processing already in progress",
+        });
+        expect(stravaApiService.getActivity).not.toHaveBeenCalled();
+        expect(stravaApiService.updateActivity).not.toHaveBeenCalled();
+        expect(activityWeatherRepository.create).not.toHaveBeenCalled();
+        expect(activityLockRepository.release).not.toHaveBeenCalled();
+      });
+
+      it("should return a failed result when the lock cannot be taken", async () => {
+        (
+          activityLockRepository.acquire as MockedFunction<any>
+        ).mockRejectedValue(new Error("Database connection lost"));
 
         const result = await activityProcessor.processActivity(
           "123456",
@@ -412,55 +884,219 @@ describe("ActivityProcessor Service", () => {
           activityId: "123456",
           error: "Database connection lost",
         });
+        expect(stravaApiService.getActivity).not.toHaveBeenCalled();
+      });
+
+      it("should renew the lock while waiting on Strava", async () => {
+        vi.useFakeTimers();
+        try {
+          let finishFetch!: (activity: unknown) => void;
+          (stravaApiService.getActivity as MockedFunction<any>).mockReturnValue(
+            new Promise((resolve) => {
+              finishFetch = resolve;
+            }),
+          );
+          (
+            activityLockRepository.renew as MockedFunction<any>
+          ).mockResolvedValue(true);
+
+          const processing = activityProcessor.processActivity(
+            "123456",
+            "user-123",
+          );
+          await vi.advanceTimersByTimeAsync(15 * 60 * 1000);
+
+          expect(activityLockRepository.renew).toHaveBeenCalledTimes(4);
+          const owner = (activityLockRepository.acquire as MockedFunction<any>)
+            .mock.calls[0]![1];
+          expect(activityLockRepository.renew).toHaveBeenCalledWith(
+            "123456",
+            owner,
+            10 * 60 * 1000,
+          );
+
+          finishFetch(mockActivity);
+          await processing;
+          await vi.advanceTimersByTimeAsync(15 * 60 * 1000);
+          expect(activityLockRepository.renew).toHaveBeenCalledTimes(4);
+        } finally {
+          vi.useRealTimers();
+        }
       });
     });
-  });
 
-  describe("hasWeatherData", () => {
-    const testCases = [
-      { description: "Clear sky, 20°C, Feels like 18°C", expected: true },
-      { description: "Sunny, 72°F, Humidity 45%", expected: true },
-      {
-        description: "Rain, 15°C, Feels like 13°C, Wind 5m/s from NW",
-        expected: true,
-      },
-      { description: "🌤️ Weather: Partly cloudy", expected: true },
-      { description: "Weather: Cloudy with chance of rain", expected: true },
-      { description: "Just a regular run description", expected: false },
-      { description: "Temperature was perfect today!", expected: false },
-      { description: "", expected: false },
-      { description: undefined, expected: false },
-    ];
+    describe("activity history", () => {
+      it("should record the weather snapshot for a processed activity", async () => {
+        await activityProcessor.processActivity("123456", "user-123", 2);
 
-    testCases.forEach(({ description, expected }) => {
-      it(`should ${expected ? "detect" : "not detect"} weather in: "${description}"`, () => {
-        const result = (activityProcessor as any).hasWeatherData(description);
-        expect(result).toBe(expected);
+        expect(activityWeatherRepository.create).toHaveBeenCalledWith({
+          activityId: "123456",
+          userId: "user-123",
+          activityName: "Morning Run",
+          sportType: "Run",
+          activityStartDate: new Date("2024-01-15T07:30:00Z"),
+          latitude: 52.52,
+          longitude: 13.405,
+          dataSource: "historical",
+          weatherData: mockWeatherData,
+          appendedText:
+            "Partly cloudy, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW",
+          outcome: "success",
+          reason: undefined,
+          retryCount: 2,
+          durationMs: expect.any(Number),
+        });
+      });
+
+      it("should record skipped activities with the skip reason", async () => {
+        (stravaApiService.getActivity as MockedFunction<any>).mockResolvedValue(
+          { ...mockActivity, start_latlng: null },
+        );
+
+        await activityProcessor.processActivity("123456", "user-123");
+
+        expect(activityWeatherRepository.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            outcome: "skipped",
+            reason: "No GPS coordinates",
+            dataSource: undefined,
+            weatherData: undefined,
+            appendedText: undefined,
+          }),
+        );
+      });
+
+      it("should record the provider that served the weather", async () => {
+        (
+          weatherService.getWeatherForActivity as MockedFunction<any>
+        ).mockResolvedValue({ ...mockWeatherData, provider: "open-meteo" });
+
+        await activityProcessor.processActivity("123456", "user-123");
+
+        expect(activityWeatherRepository.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            dataSource: "historical",
+            weatherProvider: "open-meteo",
+          }),
+        );
+      });
+
+      it("should record failures with the error message", async () => {
+        (
+          weatherService.getWeatherForActivity as MockedFunction<any>
+        ).mockRejectedValue(new Error("Weather API rate limit exceeded"));
+
+        await activityProcessor.processActivity("123456", "user-123");
+
+        expect(activityWeatherRepository.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            outcome: "failed",
+            reason: "Weather API rate limit exceeded",
+            sportType: "Run",
+          }),
+        );
+      });
+
+      it("should not record anything for unknown users", async () => {
+        (
+          userRepository.findWithPreferences as MockedFunction<any>
+        ).mockResolvedValue(null);
+
+        await activityProcessor.processActivity("123456", "user-123");
+
+        expect(activityWeatherRepository.create).not.toHaveBeenCalled();
+      });
+
+      it("should not fail processing when the history cannot be written", async () => {
+        (
+          activityWeatherRepository.create as MockedFunction<any>
+        ).mockRejectedValue(new Error("Database connection lost"));
+
+        const result = await activityProcessor.processActivity(
+          "123456",
+          "user-123",
+        );
+
+        expect(result.success).toBe(true);
       });
     });
   });
 
-  describe("createWeatherDescription", () => {
-    it("should create properly formatted weather description", () => {
-      const result = (activityProcessor as any).createWeatherDescription(
-        mockActivity,
-        mockWeatherData,
+  describe("insertWeatherLine", () => {
+    const line = "Sunny, 20°C";
+    const insert = (description?: string) =>
+      (activityProcessor as any).insertWeatherLine(
+        { ...mockActivity, description },
+        line,
       );
 
-      expect(result).toBe(
-        "Great morning run!\n\nPartly cloudy, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW",
+    it("should append a marked block after the user's text", () => {
+      expect(insert("Great morning run!")).toBe(
+        `Great morning run!\n\n${weatherBlock(line)}`,
       );
+      expect(insert(undefined)).toBe(weatherBlock(line));
     });
 
-    it("should handle missing original description", () => {
-      const activityNoDesc = { ...mockActivity, description: undefined };
-      const result = (activityProcessor as any).createWeatherDescription(
-        activityNoDesc,
-        mockWeatherData,
+    it("should replace an earlier block in place", () => {
+      const description = `Before\n\n${weatherBlock("Rain, 8°C")}\n\nAdded later`;
+
+      expect(insert(description)).toBe(
+        `Before\n\n${weatherBlock(line)}\n\nAdded later`,
       );
+    });
 
-      expect(result).toBe(
-        "Partly cloudy, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW",
+    it("should replace an unmarked weather line from before markers", () => {
+      expect(
+        insert(
+          "Hilly one\n\nRain, 8°C, Feels like 5°C, Humidity 90%, Wind 6.1m/s from NW",
+        ),
+      ).toBe(`Hilly one\n\n${weatherBlock(line)}`);
+    });
+
+    const userNotes = [
+      "Felt like 30°C out there",
+      "Humidity 90%, brutal",
+      "Weather: Cloudy with chance of rain",
+      "Rain, 8°C, Feels like 5°C, Humidity 90%, Wind 6.1m/s from NW\n\nThen the sun came out",
+    ];
+
+    userNotes.forEach((description) => {
+      it(`should keep user text intact: "${description}"`, () => {
+        expect(insert(description)).toBe(
+          `${description}\n\n${weatherBlock(line)}`,
+        );
+      });
+    });
+  });
+
+  describe("weather description", () => {
+    const writtenDescription = () =>
+      (stravaApiService.updateActivity as MockedFunction<any>).mock.calls[0]![2]
+        .description;
+
+    it("should append the default weather line after the description", async () => {
+      await activityProcessor.processActivity("123456", "user-123");
+
+      expect(writtenDescription()).toBe(
+        "Great morning run!\n\n" +
+          weatherBlock(
+            "Partly cloudy, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW",
+          ),
+      );
+    });
+
+    it("should write only the weather block when there is no description", async () => {
+      (stravaApiService.getActivity as MockedFunction<any>).mockResolvedValue({
+        ...mockActivity,
+        description: undefined,
+      });
+
+      await activityProcessor.processActivity("123456", "user-123");
+
+      expect(writtenDescription()).toBe(
+        weatherBlock(
+          "Partly cloudy, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW",
+        ),
       );
     });
   });
@@ -522,6 +1158,108 @@ describe("ActivityProcessor Service", () => {
     });
   });
 
+  describe("formatWeatherLine with user preferences", () => {
+    const basePreferences = {
+      temperatureUnit: "celsius" as const,
+      weatherFormat: "detailed" as const,
+      includeUvIndex: false,
+      includeVisibility: false,
+      customFormat: null,
+    };
+
+    const preferenceCases = [
+      {
+        name: "celsius detailed",
+        preferences: {},
+        expected:
+          "Clear sky, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW",
+      },
+      {
+        name: "fahrenheit detailed",
+        preferences: { temperatureUnit: "fahrenheit" },
+        expected:
+          "Clear sky, 59°F, Feels like 55°F, Humidity 65%, Wind 3.5m/s from SW",
+      },
+      {
+        name: "celsius simple",
+        preferences: { weatherFormat: "simple" },
+        expected: "Clear sky, 15°C",
+      },
+      {
+        name: "fahrenheit simple",
+        preferences: { temperatureUnit: "fahrenheit", weatherFormat: "simple" },
+        expected: "Clear sky, 59°F",
+      },
+      {
+        name: "detailed with UV index",
+        preferences: { includeUvIndex: true },
+        expected:
+          "Clear sky, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW, UV index 3",
+      },
+      {
+        name: "detailed with visibility",
+        preferences: { includeVisibility: true },
+        expected:
+          "Clear sky, 15°C, Feels like 13°C, Humidity 65%, Wind 3.5m/s from SW, Visibility 10km",
+      },
+      {
+        name: "simple with UV index and visibility",
+        preferences: {
+          weatherFormat: "simple",
+          includeUvIndex: true,
+          includeVisibility: true,
+        },
+        expected: "Clear sky, 15°C, UV index 3, Visibility 10km",
+      },
+      {
+        name: "fahrenheit detailed with UV index and visibility",
+        preferences: {
+          temperatureUnit: "fahrenheit",
+          includeUvIndex: true,
+          includeVisibility: true,
+        },
+        expected:
+          "Clear sky, 59°F, Feels like 55°F, Humidity 65%, Wind 3.5m/s from SW, UV index 3, Visibility 10km",
+      },
+    ];
+
+    preferenceCases.forEach(({ name, preferences, expected }) => {
+      it(`should format ${name}`, () => {
+        const result = (activityProcessor as any).formatWeatherLine(
+          "Clear sky",
+          mockWeatherData,
+          { ...basePreferences, ...preferences },
+        );
+
+        expect(result).toBe(expected);
+      });
+    });
+
+    it("should omit UV index when the weather data has none", () => {
+      const result = (activityProcessor as any).formatWeatherLine(
+        "Clear sky",
+        { ...mockWeatherData, uvIndex: undefined },
+        { ...basePreferences, weatherFormat: "simple", includeUvIndex: true },
+      );
+
+      expect(result).toBe("Clear sky, 15°C");
+    });
+
+    it("should round converted fahrenheit temperatures", () => {
+      const result = (activityProcessor as any).formatWeatherLine(
+        "Cold",
+        { ...mockWeatherData, temperature: -3 },
+        {
+          ...basePreferences,
+          temperatureUnit: "fahrenheit",
+          weatherFormat: "simple",
+        },
+      );
+
+      expect(result).toBe("Cold, 27°F");
+    });
+  });
+
   describe("capitalizeFirst", () => {
     const testCases = [
       { input: "clear sky", expected: "Clear sky" },
@@ -573,23 +1311,31 @@ describe("ActivityProcessor Service", () => {
         {
           description: expect.stringContaining(longDescription),
         },
+        "manual",
       );
     });
 
-    it("should handle special characters in weather description", () => {
-      const specialWeather: WeatherData = {
+    it("should handle special characters in weather description", async () => {
+      (
+        weatherService.getWeatherForActivity as MockedFunction<any>
+      ).mockResolvedValue({
         ...mockWeatherData,
         description: "thunderstorm with heavy rain ⛈️",
         condition: "Thunderstorm",
-      };
+      });
 
-      const result = (activityProcessor as any).createWeatherDescription(
-        mockActivity,
-        specialWeather,
-      );
+      await activityProcessor.processActivity("123456", "user-123");
 
-      expect(result).toContain("Thunderstorm");
-      expect(result).toContain("⛈️");
+      expect(stravaApiService.updateActivity).toHaveBeenCalledWith(
+        "123456",
+        mockTokenData.accessToken,
+        {
+          description: expect.stringContaining(
+            "Thunderstorm with heavy rain ⛈️",
+          ),
+        },
+        "manual",
+      );
     });
 
     it("should handle timezone differences in activity time", async () => {
@@ -619,15 +1365,15 @@ describe("ActivityProcessor Service", () => {
   describe("performance considerations", () => {
     it("should not make unnecessary API calls when skipping", async () => {
       const disabledUser = { ...mockUser, weatherEnabled: false };
-      (userRepository.findById as MockedFunction<any>).mockResolvedValue(
-        disabledUser,
-      );
+      (
+        userRepository.findWithPreferences as MockedFunction<any>
+      ).mockResolvedValue(disabledUser);
 
       await activityProcessor.processActivity("123456", "user-123");
 
       // Should only call user lookup
-      expect(userRepository.findById).toHaveBeenCalledTimes(1);
-      expect(stravaApiService.ensureValidToken).not.toHaveBeenCalled();
+      expect(userRepository.findWithPreferences).toHaveBeenCalledTimes(1);
+      expect(userTokenService.ensureValidToken).not.toHaveBeenCalled();
       expect(stravaApiService.getActivity).not.toHaveBeenCalled();
       expect(weatherService.getWeatherForActivity).not.toHaveBeenCalled();
       expect(stravaApiService.updateActivity).not.toHaveBeenCalled();
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { findOptOutRule, type ActivityRules } from "../activityRules";
+import { factories } from "../../test/setup";
+
+describe("activityRules", () => {
+  describe("findOptOutRule", () => {
+    const noRules: ActivityRules = {
+      includeSportTypes: [],
+      excludeSportTypes: [],
+      skipPrivate: false,
+      skipTrainer: false,
+      minDurationMinutes: null,
+      skipWithoutMovement: false,
+    };
+
+    const run = factories.activity({ trainer: false });
+
+    it("should allow every activity without rules", () => {
+      expect(findOptOutRule(run, noRules)).toBeNull();
+    });
+
+    it("should only allow included sport types", () => {
+      expect(
+        findOptOutRule(run, { ...noRules, includeSportTypes: ["Ride"] }),
+      ).toBe("Sport type Run not included");
+      expect(
+        findOptOutRule(run, { ...noRules, includeSportTypes: ["ride", "run"] }),
+      ).toBeNull();
+    });
+
+    it("should skip excluded sport types", () => {
+      expect(
+        findOptOutRule(run, { ...noRules, excludeSportTypes: ["run"] }),
+      ).toBe("Sport type Run excluded");
+    });
+
+    it("should skip private activities", () => {
+      const rules = { ...noRules, skipPrivate: true };
+
+      expect(findOptOutRule({ ...run, private: true }, rules)).toBe(
+        "Private activity",
+      );
+      expect(findOptOutRule(run, rules)).toBeNull();
+    });
+
+    it("should skip trainer and virtual activities", () => {
+      const rules = { ...noRules, skipTrainer: true };
+
+      expect(findOptOutRule({ ...run, trainer: true }, rules)).toBe(
+        "Trainer or virtual activity",
+      );
+      expect(findOptOutRule({ ...run, type: "VirtualRide" }, rules)).toBe(
+        "Trainer or virtual activity",
+      );
+      expect(findOptOutRule(run, rules)).toBeNull();
+    });
+
+    it("should skip activities shorter than the minimum duration", () => {
+      // The factory activity lasts just under 31 minutes
+      expect(findOptOutRule(run, { ...noRules, minDurationMinutes: 45 })).toBe(
+        "Shorter than 45 minutes",
+      );
+      expect(
+        findOptOutRule(run, { ...noRules, minDurationMinutes: 30 }),
+      ).toBeNull();
+    });
+
+    it("should skip activities without movement", () => {
+      const rules = { ...noRules, skipWithoutMovement: true };
+
+      expect(findOptOutRule({ ...run, distance: 0 }, rules)).toBe(
+        "No movement",
+      );
+      expect(findOptOutRule({ ...run, moving_time: 0 }, rules)).toBe(
+        "No movement",
+      );
+      expect(findOptOutRule(run, rules)).toBeNull();
+    });
+  });
+});
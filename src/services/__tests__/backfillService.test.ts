@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeEach, vi, MockedFunction } from "vitest";
+
+vi.mock("../../lib", () => {
+  class UniqueConstraintError extends Error {}
+
+  return {
+    UniqueConstraintError,
+    userRepository: {
+      findById: vi.fn(),
+      update: vi.fn(),
+    },
+    backfillJobRepository: {
+      create: vi.fn(),
+      findActiveByUser: vi.fn(),
+      failStale: vi.fn(),
+      markRunning: vi.fn(),
+      addActivitiesFound: vi.fn(),
+      recordOutcome: vi.fn(),
+      complete: vi.fn(),
+      fail: vi.fn(),
+      touch: vi.fn(),
+    },
+  };
+});
+
+vi.mock("../activityProcessor", () => ({
+  activityProcessor: {
+    processActivity: vi.fn(),
+  },
+}));
+
+vi.mock("../stravaApi", () => ({
+  stravaApiService: {
+    listActivities: vi.fn(),
+  },
+}));
+
+vi.mock("../userTokenService", () => ({
+  userTokenService: {
+    ensureValidToken: vi.fn(),
+  },
+}));
+
+vi.mock("../../utils/logger", () => {
+  const mockLogger = {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+
+  return {
+    createServiceLogger: vi.fn(() => ({
+      ...mockLogger,
+      child: vi.fn(() => mockLogger),
+    })),
+  };
+});
+
+import { BackfillService, BACKFILL_CONFIG } from "../backfillService";
+import {
+  userRepository,
+  backfillJobRepository,
+  UniqueConstraintError,
+} from "../../lib";
+import { activityProcessor } from "../activityProcessor";
+import { stravaApiService } from "../stravaApi";
+import { userTokenService } from "../userTokenService";
+
+describe("BackfillService", () => {
+  let service: BackfillService;
+
+  const range = {
+    after: new Date("2024-01-01T00:00:00Z"),
+    before: new Date("2024-02-01T00:00:00Z"),
+  };
+
+  const job = {
+    id: 5,
+    user_id: "user-123",
+    status: "pending",
+    after_date: range.after,
+    before_date: range.before,
+  };
+
+  const activitiesPage = (count: number, offset = 0) =>
+    Array.from({ length: count }, (_, index) => ({ id: offset + index + 1 }));
+
+  const waitForRun = (jobId: number) => (service as any).running.get(jobId);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new BackfillService();
+
+    (
+      backfillJobRepository.findActiveByUser as MockedFunction<any>
+    ).mockResolvedValue(null);
+    (backfillJobRepository.create as MockedFunction<any>).mockResolvedValue(
+      job,
+    );
+    (userRepository.findById as MockedFunction<any>).mockResolvedValue({
+      id: "user-123",
+      accessToken: "access-token",
+      refreshToken: "refresh-token",
+      tokenExpiresAt: new Date(Date.now() + 3600000),
+    });
+    (
+      userTokenService.ensureValidToken as MockedFunction<any>
+    ).mockResolvedValue({ accessToken: "access-token", wasRefreshed: false });
+    (
+      activityProcessor.processActivity as MockedFunction<any>
+    ).mockResolvedValue({ success: true, activityId: "1" });
+  });
+
+  it("should process every page of activities and complete the job", async () => {
+    (stravaApiService.listActivities as MockedFunction<any>)
+      .mockResolvedValueOnce(activitiesPage(BACKFILL_CONFIG.PAGE_SIZE))
+      .mockResolvedValueOnce(activitiesPage(2, BACKFILL_CONFIG.PAGE_SIZE));
+
+    const result = await service.start("user-123", range);
+    await waitForRun(job.id);
+
+    expect(result).toEqual({ job, created: true });
+    expect(stravaApiService.listActivities).toHaveBeenCalledTimes(2);
+    expect(stravaApiService.listActivities).toHaveBeenLastCalledWith(
+      "access-token",
+      { ...range, page: 2, perPage: BACKFILL_CONFIG.PAGE_SIZE },
+      "bulk",
+    );
+    expect(activityProcessor.processActivity).toHaveBeenCalledTimes(
+      BACKFILL_CONFIG.PAGE_SIZE + 2,
+    );
+    expect(activityProcessor.processActivity).toHaveBeenCalledWith(
+      "1",
+      "user-123",
+      0,
+      "bulk",
+    );
+    expect(backfillJobRepository.addActivitiesFound).toHaveBeenCalledWith(5, 2);
+    expect(backfillJobRepository.complete).toHaveBeenCalledWith(5);
+  });
+
+  it("should count enriched, skipped and failed activities", async () => {
+    (
+      stravaApiService.listActivities as MockedFunction<any>
+    ).mockResolvedValueOnce(activitiesPage(3));
+    (activityProcessor.processActivity as MockedFunction<any>)
+      .mockResolvedValueOnce({ success: true, activityId: "1" })
+      .mockResolvedValueOnce({
+        success: true,
+        activityId: "2",
+        skipped: true,
+        reason: "Weather already up to date",
+      })
+      .mockResolvedValueOnce({
+        success: false,
+        activityId: "3",
+        error: "Failed to fetch weather data",
+      });
+
+    await service.start("user-123", range);
+    await waitForRun(job.id);
+
+    const outcomes = (
+      backfillJobRepository.recordOutcome as MockedFunction<any>
+    ).mock.calls.map(([, outcome]) => outcome);
+    expect(outcomes).toEqual(["success", "skipped", "failed"]);
+  });
+
+  it("should return the running backfill instead of starting another", async () => {
+    const running = { ...job, status: "running" };
+    (
+      backfillJobRepository.findActiveByUser as MockedFunction<any>
+    ).mockResolvedValue(running);
+
+    const result = await service.start("user-123", range);
+
+    expect(result).toEqual({ job: running, created: false });
+    expect(backfillJobRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("should treat a concurrent insert as an existing backfill", async () => {
+    const running = { ...job, id: 6, status: "running" };
+    (backfillJobRepository.findActiveByUser as MockedFunction<any>)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(running);
+    (backfillJobRepository.create as MockedFunction<any>).mockRejectedValue(
+      new UniqueConstraintError(),
+    );
+
+    const result = await service.start("user-123", range);
+
+    expect(result).toEqual({ job: running, created: false });
+  });
+
+  it("should fail the job when Strava cannot be reached", async () => {
+    (stravaApiService.listActivities as MockedFunction<any>).mockRejectedValue(
+      new Error("Rate limit exceeded"),
+    );
+
+    await service.start("user-123", range);
+    await waitForRun(job.id);
+
+    expect(backfillJobRepository.fail).toHaveBeenCalledWith(
+      5,
+      "Rate limit exceeded",
+    );
+    expect(backfillJobRepository.complete).not.toHaveBeenCalled();
+  });
+
+  it("should keep the job alive while it waits on the rate limiter", async () => {
+    vi.useFakeTimers();
+    try {
+      let finishListing!: (activities: unknown[]) => void;
+      (
+        stravaApiService.listActivities as MockedFunction<any>
+      ).mockReturnValueOnce(
+        new Promise((resolve) => {
+          finishListing = resolve;
+        }),
+      );
+      (backfillJobRepository.touch as MockedFunction<any>).mockResolvedValue(
+        undefined,
+      );
+
+      await service.start("user-123", range);
+      await vi.advanceTimersByTimeAsync(BACKFILL_CONFIG.STALE_AFTER_MS * 2);
+
+      expect(backfillJobRepository.touch).toHaveBeenCalledTimes(6);
+      expect(backfillJobRepository.touch).toHaveBeenCalledWith(5);
+
+      finishListing([]);
+      await waitForRun(job.id);
+      await vi.advanceTimersByTimeAsync(BACKFILL_CONFIG.STALE_AFTER_MS);
+      expect(backfillJobRepository.touch).toHaveBeenCalledTimes(6);
+      expect(backfillJobRepository.complete).toHaveBeenCalledWith(5);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should stop between activities on shutdown", async () => {
+    (
+      stravaApiService.listActivities as MockedFunction<any>
+    ).mockResolvedValueOnce(activitiesPage(3));
+    (
+      activityProcessor.processActivity as MockedFunction<any>
+    ).mockImplementationOnce(async () => {
+      void service.stop();
+      return { success: true, activityId: "1" };
+    });
+
+    await service.start("user-123", range);
+    await waitForRun(job.id);
+
+    expect(activityProcessor.processActivity).toHaveBeenCalledTimes(1);
+    expect(backfillJobRepository.fail).toHaveBeenCalledWith(
+      5,
+      "Backfill interrupted by server shutdown",
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  MockedFunction,
+} from "vitest";
+
+vi.mock("../../config/environment", () => ({
+  config: { METRICS_RAW_RETENTION_DAYS: 30 },
+}));
+
+vi.mock("../metricsService", () => ({
+  metricsService: {
+    rollupHourly: vi.fn(),
+    pruneRaw: vi.fn(),
+  },
+}));
+
+vi.mock("../../utils/logger", () => ({
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import {
+  MetricsRetentionJob,
+  METRICS_RETENTION_CONFIG,
+} from "../metricsRetentionJob";
+import { metricsService } from "../metricsService";
+
+describe("MetricsRetentionJob", () => {
+  let job: MetricsRetentionJob;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-04-15T10:30:00Z"));
+
+    (metricsService.rollupHourly as MockedFunction<any>).mockResolvedValue(24);
+    (metricsService.pruneRaw as MockedFunction<any>).mockResolvedValue(1000);
+
+    job = new MetricsRetentionJob();
+  });
+
+  afterEach(async () => {
+    await job.stop();
+    vi.useRealTimers();
+  });
+
+  it("should roll up before pruning rows past retention", async () => {
+    const result = await job.runOnce();
+
+    expect(result).toEqual({ hoursRolledUp: 24, pruned: 1000 });
+    expect(metricsService.pruneRaw).toHaveBeenCalledWith(
+      new Date("2024-03-16T10:30:00Z"),
+      METRICS_RETENTION_CONFIG.PRUNE_BATCH_SIZE,
+    );
+    expect(
+      (metricsService.rollupHourly as MockedFunction<any>).mock
+        .invocationCallOrder[0],
+    ).toBeLessThan(
+      (metricsService.pruneRaw as MockedFunction<any>).mock
+        .invocationCallOrder[0]!,
+    );
+  });
+
+  it("should not prune when the rollup fails", async () => {
+    (metricsService.rollupHourly as MockedFunction<any>).mockRejectedValue(
+      new Error("connection lost"),
+    );
+
+    job.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(metricsService.pruneRaw).not.toHaveBeenCalled();
+
+    // Retried on the next poll
+    await vi.advanceTimersByTimeAsync(
+      METRICS_RETENTION_CONFIG.POLL_INTERVAL_MS,
+    );
+    expect(metricsService.rollupHourly).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,340 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { CompiledQuery } from "kysely";
+
+// Queries reach a driver that records them instead of a real database
+const queries = vi.hoisted(() => ({
+  executed: [] as CompiledQuery[],
+  results: [] as ({ rows: unknown[]; numAffectedRows?: bigint } | Error)[],
+}));
+
+vi.mock("../../lib", async () => {
+  const {
+    Kysely,
+    PostgresAdapter,
+    PostgresIntrospector,
+    PostgresQueryCompiler,
+  } = await import("kysely");
+
+  const connection = {
+    async executeQuery(query: CompiledQuery) {
+      queries.executed.push(query);
+      const result = queries.results.shift() ?? { rows: [] };
+      if (result instanceof Error) {
+        throw result;
+      }
+      return result;
+    },
+    async *streamQuery() {},
+  };
+
+  return {
+    database: new Kysely<any>({
+      dialect: {
+        createAdapter: () => new PostgresAdapter(),
+        createDriver: () => ({
+          init: async () => {},
+          acquireConnection: async () => connection,
+          beginTransaction: async () => {},
+          commitTransaction: async () => {},
+          rollbackTransaction: async () => {},
+          releaseConnection: async () => {},
+          destroy: async () => {},
+        }),
+        createIntrospector: (db) => new PostgresIntrospector(db),
+        createQueryCompiler: () => new PostgresQueryCompiler(),
+      },
+    }),
+  };
+});
+
+vi.mock("../../config/environment", () => ({
+  config: { METRICS_RAW_RETENTION_DAYS: 30 },
+}));
+
+vi.mock("../../utils/logger", () => ({
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import { MetricsService, METRICS_BUFFER_CONFIG } from "../metricsService";
+
+describe("MetricsService rollups", () => {
+  const service = new MetricsService();
+
+  beforeEach(() => {
+    queries.executed = [];
+    queries.results = [];
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-04-15T10:30:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const rolledUpThrough = (latest: string | null) => {
+    queries.results.push({ rows: [{ latest }] });
+  };
+
+  describe("getStats", () => {
+    it("should read raw rows for short ranges", async () => {
+      await service.getStats(new Date("2024-04-14T10:30:00Z"));
+
+      expect(queries.executed.length).toBeGreaterThan(0);
+      for (const query of queries.executed) {
+        expect(query.sql).not.toContain("metrics_hourly");
+      }
+    });
+
+    it("should read raw rows for the default range however long the call takes", async () => {
+      const now = Date.now();
+      const clock = vi
+        .spyOn(Date, "now")
+        .mockReturnValueOnce(now)
+        .mockReturnValue(now + 1000);
+
+      const stats = await service.getStats();
+      clock.mockRestore();
+
+      expect(queries.executed[0]!.parameters).toContainEqual(
+        new Date(now - 7 * 24 * 60 * 60 * 1000),
+      );
+      for (const query of queries.executed) {
+        expect(query.sql).not.toContain("metrics_hourly");
+      }
+      expect(stats.percentiles_approximate).toBe(false);
+    });
+
+    it("should combine hourly rollups with recent raw rows for long ranges", async () => {
+      rolledUpThrough("2024-04-15T08:00:00Z");
+      // Rolled-up hours, percentiles already weighted by count
+      queries.results.push({
+        rows: [
+          {
+            metric_type: "webhook_processing",
+            metric_name: "strava_webhook",
+            endpoint: "",
+            status_class: "",
+            count: "10",
+            success_count: "9",
+            value_sum: "2000",
+            retry_sum: "1",
+            p50: "1000",
+            p90: "1500",
+            p95: "1800",
+            p99: "2000",
+          },
+          {
+            metric_type: "api_call",
+            metric_name: "strava_api",
+            endpoint: "GET /activities/{id}",
+            status_class: "2xx",
+            count: "4",
+            success_count: "4",
+            value_sum: "400",
+            retry_sum: "0",
+            p50: "400",
+            p90: "400",
+            p95: "400",
+            p99: "400",
+          },
+        ],
+      });
+      // Raw rows since the last rollup
+      queries.results.push({
+        rows: [
+          {
+            metric_type: "webhook_processing",
+            metric_name: "strava_webhook",
+            endpoint: "",
+            status_class: "",
+            count: "10",
+            success_count: "10",
+            value_sum: "4000",
+            retry_sum: "0",
+            p50: "300",
+            p90: "500",
+            p95: "600",
+            p99: "800",
+          },
+        ],
+      });
+
+      const stats = await service.getStats(new Date("2024-01-15T00:00:00Z"));
+
+      const [, rollupQuery, rawQuery] = queries.executed;
+      expect(rollupQuery!.sql).toContain('from "metrics_hourly"');
+      expect(rollupQuery!.parameters).toEqual([
+        new Date("2024-01-15T00:00:00Z"),
+        new Date("2024-04-15T09:00:00Z"),
+      ]);
+      expect(rawQuery!.sql).toContain('from "metrics"');
+      expect(rawQuery!.parameters).toEqual([new Date("2024-04-15T09:00:00Z")]);
+
+      expect(stats.webhook_processing).toEqual({
+        count: 20,
+        success_rate: 0.95,
+        avg_duration_ms: 300,
+        p95_duration_ms: 390,
+        percentiles_ms: { p50: 200, p90: 325, p95: 390, p99: 500 },
+        avg_retry_count: 0.05,
+      });
+      expect(stats.api_performance.strava.endpoints).toEqual([
+        {
+          endpoint: "GET /activities/{id}",
+          status_class: "2xx",
+          count: 4,
+          avg_duration_ms: 100,
+          percentiles_ms: { p50: 100, p90: 100, p95: 100, p99: 100 },
+        },
+      ]);
+      expect(stats.api_performance.weather.success_rate).toBe(0);
+      expect(stats.percentiles_approximate).toBe(true);
+    });
+  });
+
+  describe("rollupHourly", () => {
+    it("should re-aggregate the latest rolled-up hour through the last complete hour", async () => {
+      rolledUpThrough("2024-04-15T08:00:00Z");
+      queries.results.push({ rows: [], numAffectedRows: 12n });
+
+      const written = await service.rollupHourly();
+
+      expect(written).toBe(12);
+      const insert = queries.executed[1]!;
+      expect(insert.sql).toContain('insert into "metrics_hourly"');
+      expect(insert.sql).toContain("on conflict");
+      expect(insert.parameters).toEqual([
+        new Date("2024-04-15T08:00:00Z"),
+        new Date("2024-04-15T10:00:00Z"),
+      ]);
+    });
+  });
+
+  describe("pruneRaw", () => {
+    it("should keep everything until hours have been rolled up", async () => {
+      rolledUpThrough(null);
+
+      const deleted = await service.pruneRaw(
+        new Date("2024-03-15T00:00:00Z"),
+        100,
+      );
+
+      expect(deleted).toBe(0);
+      expect(queries.executed).toHaveLength(1);
+    });
+
+    it("should delete in batches up to the retention cutoff", async () => {
+      rolledUpThrough("2024-04-15T08:00:00Z");
+      queries.results.push({ rows: [], numAffectedRows: 100n });
+      queries.results.push({ rows: [], numAffectedRows: 40n });
+
+      const deleted = await service.pruneRaw(
+        new Date("2024-03-15T00:00:00Z"),
+        100,
+      );
+
+      expect(deleted).toBe(140);
+      expect(queries.executed).toHaveLength(3);
+      expect(queries.executed[1]!.parameters).toEqual([
+        new Date("2024-03-15T00:00:00Z"),
+        100,
+      ]);
+    });
+
+    it("should never delete past the last rollup", async () => {
+      rolledUpThrough("2024-03-01T00:00:00Z");
+
+      await service.pruneRaw(new Date("2024-03-15T00:00:00Z"), 100);
+
+      expect(queries.executed[1]!.parameters).toEqual([
+        new Date("2024-03-01T01:00:00Z"),
+        100,
+      ]);
+    });
+  });
+});
+
+describe("MetricsService write buffering", () => {
+  let service: MetricsService;
+
+  const recordCalls = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      service.recordApiCall("strava_api", "GET /athlete/activities", 100, 200);
+    }
+  };
+
+  beforeEach(() => {
+    queries.executed = [];
+    queries.results = [];
+    vi.useFakeTimers();
+    service = new MetricsService();
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    vi.useRealTimers();
+  });
+
+  it("should not touch the database when recording", () => {
+    recordCalls(3);
+
+    expect(queries.executed).toHaveLength(0);
+  });
+
+  it("should write buffered metrics in one insert on the flush interval", async () => {
+    service.start();
+    recordCalls(3);
+
+    await vi.advanceTimersByTimeAsync(METRICS_BUFFER_CONFIG.FLUSH_INTERVAL_MS);
+
+    expect(queries.executed).toHaveLength(1);
+    expect(queries.executed[0]!.sql).toContain('insert into "metrics"');
+    expect(queries.executed[0]!.sql.match(/\(\$/g)).toHaveLength(3);
+  });
+
+  it("should flush early once a full batch is buffered", async () => {
+    recordCalls(METRICS_BUFFER_CONFIG.BATCH_SIZE);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queries.executed).toHaveLength(1);
+  });
+
+  it("should flush what is left on stop", async () => {
+    service.start();
+    recordCalls(2);
+
+    await service.stop();
+
+    expect(queries.executed).toHaveLength(1);
+  });
+
+  it("should keep a failed batch for the next flush", async () => {
+    queries.results.push(new Error("connection lost"));
+    recordCalls(2);
+
+    await service.flush();
+    await service.flush();
+
+    expect(queries.executed).toHaveLength(2);
+    expect(queries.executed[1]!.parameters).toEqual(
+      queries.executed[0]!.parameters,
+    );
+    expect(service.droppedCount).toBe(0);
+  });
+
+  it("should drop and count metrics once the buffer is full", async () => {
+    // Every flush fails, so nothing leaves the buffer
+    queries.results = Array.from({ length: 100 }, () => new Error("down"));
+
+    recordCalls(METRICS_BUFFER_CONFIG.MAX_BUFFER_SIZE + 5);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(service.droppedCount).toBe(5);
+    queries.results = [];
+  });
+});
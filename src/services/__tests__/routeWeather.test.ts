@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import {
+  getRoutePoints,
+  getWindExposure,
+  summarizeRouteWeather,
+  ROUTE_WEATHER_CONFIG,
+} from "../routeWeather";
+import type { RouteWeatherSample } from "../weatherService";
+import { factories } from "../../test/setup";
+
+describe("routeWeather", () => {
+  describe("getRoutePoints", () => {
+    const ride = {
+      start_date: "2024-01-15T07:00:00Z",
+      start_latlng: [38.5, -120.2] as [number, number],
+      end_latlng: [43.25, -126.45] as [number, number],
+      elapsed_time: 5 * 60 * 60,
+      map: { summary_polyline: "_p~iF~ps|U_ulLnnqC_mqNvxq`@" },
+    };
+
+    it("should sample start, midpoint and finish at matching times", () => {
+      const points = getRoutePoints(ride);
+
+      expect(
+        points.map(({ point, time }) => [point, time.toISOString()]),
+      ).toEqual([
+        ["start", "2024-01-15T07:00:00.000Z"],
+        ["midpoint", "2024-01-15T09:30:00.000Z"],
+        ["finish", "2024-01-15T12:00:00.000Z"],
+      ]);
+      expect(points[1]!.lat).toBeGreaterThan(40.7);
+      expect(points[2]).toMatchObject({ lat: 43.252, lon: -126.453 });
+    });
+
+    it("should prefer the full polyline over the summary", () => {
+      const points = getRoutePoints({
+        ...ride,
+        map: { polyline: "_p~iF~ps|U", summary_polyline: "invalid" },
+      });
+
+      expect(points.map(({ point }) => point)).toEqual([
+        "start",
+        "midpoint",
+        "finish",
+      ]);
+      expect(points[2]).toMatchObject({ lat: 38.5, lon: -120.2 });
+    });
+
+    it("should fall back to the end coordinates without a polyline", () => {
+      const points = getRoutePoints({ ...ride, map: undefined });
+
+      expect(points.map(({ point }) => point)).toEqual(["start", "finish"]);
+      expect(points[1]).toMatchObject({ lat: 43.25, lon: -126.45 });
+    });
+
+    it("should only sample the start of short activities", () => {
+      const points = getRoutePoints({
+        ...ride,
+        elapsed_time: ROUTE_WEATHER_CONFIG.MIN_ELAPSED_SECONDS - 1,
+      });
+
+      expect(points.map(({ point }) => point)).toEqual(["start"]);
+    });
+
+    it("should return no points without start coordinates", () => {
+      expect(getRoutePoints({ ...ride, start_latlng: null })).toEqual([]);
+    });
+  });
+
+  describe("summarizeRouteWeather", () => {
+    const sample = (
+      point: RouteWeatherSample["point"],
+      weather: Record<string, unknown>,
+    ): RouteWeatherSample => ({
+      point,
+      latitude: 0,
+      longitude: 0,
+      time: "2024-01-15T07:00:00.000Z",
+      weather: factories.weatherData(weather),
+    });
+
+    it("should summarise temperature range, precipitation and wind shift", () => {
+      const samples = [
+        sample("start", { temperature: 12, windDirection: 350 }),
+        sample("midpoint", {
+          temperature: 4,
+          condition: "Snow",
+          description: "light snow",
+          windDirection: 10,
+        }),
+        sample("finish", {
+          temperature: 9,
+          condition: "Rain",
+          description: "light rain",
+          windDirection: 80,
+        }),
+      ];
+
+      expect(summarizeRouteWeather(samples)).toEqual({
+        minTemperature: 4,
+        maxTemperature: 12,
+        precipitation: ["light snow", "light rain"],
+        windShift: 90,
+        samples,
+      });
+    });
+
+    it("should list each precipitation description once", () => {
+      const rain = {
+        condition: "Rain",
+        description: "light rain",
+        windDirection: 200,
+      };
+
+      const summary = summarizeRouteWeather([
+        sample("start", rain),
+        sample("finish", rain),
+      ]);
+
+      expect(summary.precipitation).toEqual(["light rain"]);
+      expect(summary.windShift).toBe(0);
+    });
+  });
+
+  describe("getWindExposure", () => {
+    // Out 2km due north, then back 1km due south
+    const outAndBack: [number, number][] = [
+      [0, 0],
+      [0.018, 0],
+      [0.009, 0],
+    ];
+
+    const windFrom = (
+      point: RouteWeatherSample["point"],
+      windDirection: number,
+    ): RouteWeatherSample => ({
+      point,
+      latitude: 0,
+      longitude: 0,
+      time: "2024-01-15T07:00:00.000Z",
+      weather: factories.weatherData({ windDirection }),
+    });
+
+    it("should split distance into headwind and tailwind shares", () => {
+      expect(getWindExposure(outAndBack, [windFrom("start", 10)])).toEqual({
+        headwind: 67,
+        tailwind: 33,
+        crosswind: 0,
+      });
+    });
+
+    it("should count travel across the wind as crosswind", () => {
+      expect(getWindExposure(outAndBack, [windFrom("start", 270)])).toEqual({
+        headwind: 0,
+        tailwind: 0,
+        crosswind: 100,
+      });
+    });
+
+    it("should use the wind at the nearest sample point", () => {
+      const exposure = getWindExposure(outAndBack, [
+        windFrom("start", 0),
+        windFrom("finish", 90),
+      ]);
+
+      // The return leg is closest to the finish, where the wind is easterly
+      expect(exposure).toEqual({ headwind: 67, tailwind: 0, crosswind: 33 });
+    });
+
+    it("should return null without distance or samples", () => {
+      expect(getWindExposure([[0, 0]], [windFrom("start", 0)])).toBeNull();
+      expect(getWindExposure(outAndBack, [])).toBeNull();
+    });
+  });
+});
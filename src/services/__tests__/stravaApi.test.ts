@@ -7,8 +7,14 @@ import {
   vi,
   MockedFunction,
 } from "vitest";
-import { StravaApiService, type StravaActivity } from "../stravaApi";
+import Bottleneck from "bottleneck";
+import {
+  StravaApiService,
+  type StravaActivity,
+  type StravaLane,
+} from "../stravaApi";
 import { config } from "../../config/environment";
+import { metricsService } from "../metricsService";
 import { factories } from "../../test/setup";
 
 // Mock fetch globally
@@ -58,8 +64,10 @@ vi.mock("../metricsService", () => ({
 // Mock Bottleneck to avoid rate limiting delays in tests
 vi.mock("bottleneck", () => {
   const MockBottleneck = vi.fn().mockImplementation(() => ({
-    schedule: vi.fn((fn) => fn()),
+    schedule: vi.fn((...args) => args[args.length - 1]()),
     on: vi.fn(),
+    updateSettings: vi.fn(),
+    counts: vi.fn(() => ({ RECEIVED: 0, QUEUED: 2, RUNNING: 0, EXECUTING: 1 })),
   }));
   return { default: MockBottleneck };
 });
@@ -203,162 +211,23 @@ describe("StravaApiService", () => {
     });
   });
 
-  describe("ensureValidToken", () => {
-    describe("token validation logic", () => {
-      it("should return existing token when not expiring soon", async () => {
-        const accessToken = "current-access-token";
-        const refreshToken = "current-refresh-token";
-        const expiresAt = new Date("2024-01-15T18:00:00Z"); // 6 hours from now
-
-        const result = await stravaApiService.ensureValidToken(
-          accessToken,
-          refreshToken,
-          expiresAt,
-        );
-
-        expect(result).toEqual({
-          accessToken,
-          refreshToken,
-          expiresAt,
-          wasRefreshed: false,
-        });
-
-        // Should not make any API calls
-        expect(mockFetch).not.toHaveBeenCalled();
-      });
-
-      it("should refresh token when expiring within buffer time", async () => {
-        const accessToken = "current-access-token";
-        const refreshToken = "current-refresh-token";
-        const expiresAt = new Date("2024-01-15T12:04:00Z"); // 4 minutes from now (within 5min buffer)
-
-        const result = await stravaApiService.ensureValidToken(
-          accessToken,
-          refreshToken,
-          expiresAt,
-        );
-
-        expect(result).toEqual({
-          accessToken: "new-access-token-12345",
-          refreshToken: "new-refresh-token-67890",
-          expiresAt: new Date(1705400000 * 1000),
-          wasRefreshed: true,
-        });
-
-        // Should make token refresh API call
-        expect(mockFetch).toHaveBeenCalledWith(
-          config.api.strava.tokenUrl,
-          expect.objectContaining({
-            method: "POST",
-            body: expect.stringContaining(refreshToken),
-          }),
-        );
-      });
-
-      it("should refresh token when already expired", async () => {
-        const accessToken = "expired-access-token";
-        const refreshToken = "current-refresh-token";
-        const expiresAt = new Date("2024-01-15T11:00:00Z"); // 1 hour ago
-
-        const result = await stravaApiService.ensureValidToken(
-          accessToken,
-          refreshToken,
-          expiresAt,
-        );
-
-        expect(result).toEqual({
-          accessToken: "new-access-token-12345",
-          refreshToken: "new-refresh-token-67890",
-          expiresAt: new Date(1705400000 * 1000),
-          wasRefreshed: true,
-        });
-
-        expect(mockFetch).toHaveBeenCalled();
-      });
-
-      it("should handle exact buffer time boundary", async () => {
-        const accessToken = "current-access-token";
-        const refreshToken = "current-refresh-token";
-        const expiresAt = new Date("2024-01-15T12:05:00Z"); // Exactly 5 minutes from now
-
-        const result = await stravaApiService.ensureValidToken(
-          accessToken,
-          refreshToken,
-          expiresAt,
-        );
-
-        // Should refresh because it's at the boundary
-        expect(result.wasRefreshed).toBe(true);
-        expect(mockFetch).toHaveBeenCalled();
-      });
-    });
-
-    describe("error handling", () => {
-      it("should propagate token refresh errors", async () => {
-        const accessToken = "expired-access-token";
-        const refreshToken = "invalid-refresh-token";
-        const expiresAt = new Date("2024-01-15T11:00:00Z"); // Expired
-
-        const errorResponse = createMockResponse({
-          ok: false,
-          status: 400,
-          text: () => Promise.resolve("Bad Request"),
-        });
-        mockFetch.mockResolvedValue(errorResponse);
-
-        await expect(
-          stravaApiService.ensureValidToken(
-            accessToken,
-            refreshToken,
-            expiresAt,
-          ),
-        ).rejects.toThrow("Token refresh failed (400): Bad Request");
-      });
-
-      it("should handle network failures during token refresh", async () => {
-        const accessToken = "expired-access-token";
-        const refreshToken = "current-refresh-token";
-        const expiresAt = new Date("2024-01-15T11:00:00Z"); // Expired
-
-        mockFetch.mockRejectedValue(new Error("Connection timeout"));
-
-        await expect(
-          stravaApiService.ensureValidToken(
-            accessToken,
-            refreshToken,
-            expiresAt,
-          ),
-        ).rejects.toThrow("Connection timeout");
-      });
+  describe("isTokenExpiring", () => {
+    it("should treat tokens expiring within the buffer as expiring", () => {
+      expect(
+        stravaApiService.isTokenExpiring(new Date("2024-01-15T12:04:00Z")),
+      ).toBe(true);
+      expect(
+        stravaApiService.isTokenExpiring(new Date("2024-01-15T12:05:00Z")),
+      ).toBe(true);
+      expect(
+        stravaApiService.isTokenExpiring(new Date("2024-01-15T11:00:00Z")),
+      ).toBe(true);
     });
 
-    describe("timestamp handling", () => {
-      it("should correctly convert Unix timestamp to Date", async () => {
-        const refreshToken = "current-refresh-token";
-        const expiresAt = new Date("2024-01-15T11:00:00Z"); // Expired
-
-        const customTokenResponse = {
-          ...mockTokenRefreshResponse,
-          expires_at: 1609459200, // Jan 1, 2021 00:00:00 UTC
-        };
-
-        mockFetch.mockResolvedValue(
-          createMockResponse({
-            ok: true,
-            status: 200,
-            json: () => Promise.resolve(customTokenResponse),
-            text: () => Promise.resolve(""),
-          }),
-        );
-
-        const result = await stravaApiService.ensureValidToken(
-          "expired-token",
-          refreshToken,
-          expiresAt,
-        );
-
-        expect(result.expiresAt).toEqual(new Date("2021-01-01T00:00:00.000Z"));
-      });
+    it("should not treat tokens valid beyond the buffer as expiring", () => {
+      expect(
+        stravaApiService.isTokenExpiring(new Date("2024-01-15T18:00:00Z")),
+      ).toBe(false);
     });
   });
 
@@ -404,6 +273,48 @@ describe("StravaApiService", () => {
       ).rejects.toThrow("Resource not found or not accessible");
     });
 
+    it("should record a failed request once, with its status", async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse({
+          ok: false,
+          status: 404,
+          text: () => Promise.resolve("Not found"),
+        }),
+      );
+
+      await expect(
+        stravaApiService.getActivity("999999", "valid-token"),
+      ).rejects.toThrow();
+
+      expect(metricsService.recordApiCall).toHaveBeenCalledTimes(1);
+      expect(metricsService.recordApiCall).toHaveBeenCalledWith(
+        "strava_api",
+        "GET /activities/{id}",
+        expect.any(Number),
+        404,
+        undefined,
+        { activity_id: "999999" },
+      );
+    });
+
+    it("should record requests that got no response without a status", async () => {
+      mockFetch.mockRejectedValue(new Error("socket hang up"));
+
+      await expect(
+        stravaApiService.getActivity("123456", "valid-token"),
+      ).rejects.toThrow("socket hang up");
+
+      expect(metricsService.recordApiCall).toHaveBeenCalledTimes(1);
+      expect(metricsService.recordApiCall).toHaveBeenCalledWith(
+        "strava_api",
+        "GET /activities/{id}",
+        expect.any(Number),
+        undefined,
+        "socket hang up",
+        { activity_id: "123456" },
+      );
+    });
+
     it("should handle unauthorized access", async () => {
       mockFetch.mockResolvedValue(
         createMockResponse({
@@ -433,6 +344,53 @@ describe("StravaApiService", () => {
     });
   });
 
+  describe("listActivities", () => {
+    it("should request a page of activities in the time range", async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse({
+          json: () => Promise.resolve([mockActivity]),
+        }),
+      );
+
+      const result = await stravaApiService.listActivities("valid-token", {
+        after: new Date("2024-01-01T00:00:00Z"),
+        before: new Date("2024-01-15T00:00:00Z"),
+        page: 2,
+        perPage: 50,
+      });
+
+      expect(result).toEqual([mockActivity]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://www.strava.com/api/v3/athlete/activities?after=1704067200&before=1705276800&page=2&per_page=50",
+        {
+          headers: {
+            Authorization: "Bearer valid-token",
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    });
+
+    it("should surface API errors", async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse({
+          ok: false,
+          status: 429,
+          text: () => Promise.resolve("Too many requests"),
+        }),
+      );
+
+      await expect(
+        stravaApiService.listActivities("valid-token", {
+          after: new Date("2024-01-01T00:00:00Z"),
+          before: new Date("2024-01-15T00:00:00Z"),
+          page: 1,
+          perPage: 50,
+        }),
+      ).rejects.toThrow("Rate limit exceeded");
+    });
+  });
+
   describe("updateActivity", () => {
     const updateData = {
       description: "Updated description with weather info",
@@ -553,6 +511,174 @@ describe("StravaApiService", () => {
     });
   });
 
+  describe("rate limits", () => {
+    type MockLimiter = {
+      schedule: MockedFunction<any>;
+      updateSettings: MockedFunction<any>;
+    };
+
+    // Each service creates the shared limiter, then one per lane in order
+    const LANES: StravaLane[] = ["webhook", "manual", "bulk"];
+    const limiter = () =>
+      vi.mocked(Bottleneck).mock.results.at(-4)!.value as MockLimiter;
+    const laneLimiter = (lane: StravaLane) =>
+      vi.mocked(Bottleneck).mock.results.at(LANES.indexOf(lane) - 3)!
+        .value as MockLimiter;
+
+    const respondWithUsage = (limit: string, usage: string) =>
+      mockFetch.mockResolvedValue(
+        createMockResponse({
+          json: () => Promise.resolve(mockActivity),
+          headers: {
+            "X-RateLimit-Limit": limit,
+            "X-RateLimit-Usage": usage,
+          },
+        }),
+      );
+
+    it("should start from Strava's default limits", () => {
+      expect(Bottleneck).toHaveBeenCalledWith(
+        expect.objectContaining({ reservoir: 180, minTime: 5000 }),
+      );
+      expect(stravaApiService.getRateLimitStatus()).toEqual({
+        shortTerm: { limit: 200, usage: 0 },
+        daily: { limit: 2000, usage: 0 },
+        reservoir: 180,
+        updatedAt: null,
+      });
+    });
+
+    it("should resize the limiter from the rate limit headers", async () => {
+      respondWithUsage("600,30000", "100,1000");
+
+      await stravaApiService.getActivity("123456", "valid-token");
+
+      expect(limiter().updateSettings).toHaveBeenCalledWith({
+        reservoir: 440,
+        minTime: 1667,
+      });
+      expect(stravaApiService.getRateLimitStatus()).toEqual({
+        shortTerm: { limit: 600, usage: 100 },
+        daily: { limit: 30000, usage: 1000 },
+        reservoir: 440,
+        updatedAt: new Date("2024-01-15T12:00:00Z"),
+      });
+    });
+
+    it("should hold back part of the budget from the lower lanes", async () => {
+      respondWithUsage("200,2000", "100,1000");
+
+      await stravaApiService.getActivity("123456", "valid-token");
+
+      expect(laneLimiter("webhook").updateSettings).toHaveBeenCalledWith({
+        reservoir: 80,
+      });
+      expect(laneLimiter("manual").updateSettings).toHaveBeenCalledWith({
+        reservoir: 62,
+      });
+      expect(laneLimiter("bulk").updateSettings).toHaveBeenCalledWith({
+        reservoir: 26,
+      });
+    });
+
+    it("should queue requests in their lane ahead of lower lanes", async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse({ json: () => Promise.resolve(mockActivity) }),
+      );
+
+      await stravaApiService.getActivity("123456", "valid-token", "webhook");
+      await stravaApiService.listActivities(
+        "valid-token",
+        {
+          after: new Date("2024-01-01T00:00:00Z"),
+          before: new Date("2024-01-15T00:00:00Z"),
+          page: 1,
+          perPage: 50,
+        },
+        "bulk",
+      );
+
+      expect(laneLimiter("webhook").schedule).toHaveBeenCalledTimes(1);
+      expect(laneLimiter("bulk").schedule).toHaveBeenCalledTimes(1);
+      expect(laneLimiter("manual").schedule).not.toHaveBeenCalled();
+      expect(limiter().schedule.mock.calls.map(([options]) => options)).toEqual(
+        [{ priority: 0 }, { priority: 8 }],
+      );
+    });
+
+    it("should report queue depth per lane", () => {
+      expect(stravaApiService.getQueueCounts()).toEqual({
+        webhook: { received: 0, queued: 2, running: 0, executing: 1 },
+        manual: { received: 0, queued: 2, running: 0, executing: 1 },
+        bulk: { received: 0, queued: 2, running: 0, executing: 1 },
+      });
+    });
+
+    it("should hold back to the daily budget when it is tighter", async () => {
+      respondWithUsage("200,2000", "10,1790");
+
+      await stravaApiService.getActivity("123456", "valid-token");
+
+      expect(limiter().updateSettings).toHaveBeenCalledWith(
+        expect.objectContaining({ reservoir: 10 }),
+      );
+    });
+
+    it("should track usage reported on error responses", async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse({
+          ok: false,
+          status: 429,
+          headers: {
+            "X-RateLimit-Limit": "200,2000",
+            "X-RateLimit-Usage": "201,400",
+          },
+        }),
+      );
+
+      await expect(
+        stravaApiService.getActivity("123456", "valid-token"),
+      ).rejects.toThrow("Rate limit exceeded");
+      expect(limiter().updateSettings).toHaveBeenCalledWith(
+        expect.objectContaining({ reservoir: 0 }),
+      );
+    });
+
+    it("should ignore responses without rate limit headers", async () => {
+      respondWithUsage("", "");
+
+      await stravaApiService.getActivity("123456", "valid-token");
+
+      expect(limiter().updateSettings).not.toHaveBeenCalled();
+      expect(stravaApiService.getRateLimitStatus().updatedAt).toBeNull();
+    });
+
+    it("should reset the short-term window on the quarter hour", async () => {
+      respondWithUsage("200,2000", "150,1500");
+      await stravaApiService.getActivity("123456", "valid-token");
+
+      await vi.advanceTimersByTimeAsync(15 * 60 * 1000);
+
+      const status = stravaApiService.getRateLimitStatus();
+      expect(status.shortTerm.usage).toBe(0);
+      expect(status.daily.usage).toBe(1500);
+      expect(status.reservoir).toBe(180);
+    });
+
+    it("should reset the daily window at midnight UTC", async () => {
+      vi.setSystemTime(new Date("2024-01-15T23:50:00Z"));
+      stravaApiService = new StravaApiService();
+      respondWithUsage("200,2000", "150,1800");
+      await stravaApiService.getActivity("123456", "valid-token");
+
+      expect(stravaApiService.getRateLimitStatus().reservoir).toBe(0);
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+      expect(stravaApiService.getRateLimitStatus().daily.usage).toBe(0);
+      expect(stravaApiService.getRateLimitStatus().reservoir).toBe(180);
+    });
+  });
+
   describe("error handling edge cases", () => {
     it("should handle empty error responses", async () => {
       mockFetch.mockResolvedValue(
@@ -593,20 +719,12 @@ describe("StravaApiService", () => {
 
   describe("integration scenarios", () => {
     it("should handle complete token refresh flow", async () => {
-      // Setup: token is expiring
-      const accessToken = "expiring-token";
-      const refreshToken = "valid-refresh-token";
-      const expiresAt = new Date("2024-01-15T12:03:00Z"); // 3 minutes from now
-
-      // First call: ensure valid token (should refresh)
-      const tokenResult = await stravaApiService.ensureValidToken(
-        accessToken,
-        refreshToken,
-        expiresAt,
+      // First call: refresh the expiring token
+      const tokenResult = await stravaApiService.refreshAccessToken(
+        "valid-refresh-token",
       );
 
-      expect(tokenResult.wasRefreshed).toBe(true);
-      expect(tokenResult.accessToken).toBe("new-access-token-12345");
+      expect(tokenResult.access_token).toBe("new-access-token-12345");
 
       // Reset fetch mock for activity call
       vi.clearAllMocks();
@@ -622,7 +740,7 @@ describe("StravaApiService", () => {
       // Second call: use new token to fetch activity
       const activity = await stravaApiService.getActivity(
         "123456",
-        tokenResult.accessToken,
+        tokenResult.access_token,
       );
 
       expect(activity).toEqual(mockActivity);
@@ -0,0 +1,160 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  MockedFunction,
+} from "vitest";
+
+vi.mock("../../lib", () => ({
+  userRepository: {
+    findWithExpiringTokens: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock("../userTokenService", () => ({
+  userTokenService: {
+    refresh: vi.fn(),
+  },
+}));
+
+vi.mock("../stravaApi", () => ({
+  TokenRefreshError: class TokenRefreshError extends Error {
+    constructor(
+      message: string,
+      public readonly status: number,
+    ) {
+      super(message);
+    }
+
+    get isRevoked() {
+      return [400, 401, 403].includes(this.status);
+    }
+  },
+}));
+
+vi.mock("../../utils/logger", () => ({
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import {
+  TokenRefreshScheduler,
+  TOKEN_REFRESH_CONFIG,
+} from "../tokenRefreshScheduler";
+import { userRepository } from "../../lib";
+import { userTokenService } from "../userTokenService";
+import { TokenRefreshError } from "../stravaApi";
+import { factories } from "../../test/setup";
+
+describe("TokenRefreshScheduler", () => {
+  let scheduler: TokenRefreshScheduler;
+
+  const expiringUser = factories.user({
+    id: "user-123",
+    tokenExpiresAt: new Date("2024-01-15T10:10:00Z"),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-15T10:00:00Z"));
+
+    scheduler = new TokenRefreshScheduler();
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  describe("refreshUser", () => {
+    it("should refresh through the user token service", async () => {
+      (userTokenService.refresh as MockedFunction<any>).mockResolvedValue({
+        accessToken: "new-access-token",
+        refreshToken: "new-refresh-token",
+        expiresAt: new Date(1705334400 * 1000),
+        wasRefreshed: true,
+      });
+
+      const outcome = await scheduler.refreshUser(expiringUser);
+
+      expect(outcome).toBe("refreshed");
+      expect(userTokenService.refresh).toHaveBeenCalledWith(expiringUser);
+      expect(userRepository.update).not.toHaveBeenCalled();
+    });
+
+    it("should require re-authorization when Strava rejects the refresh token", async () => {
+      (userTokenService.refresh as MockedFunction<any>).mockRejectedValue(
+        new TokenRefreshError("Token refresh failed (400): Bad Request", 400),
+      );
+
+      const outcome = await scheduler.refreshUser(expiringUser);
+
+      expect(outcome).toBe("reauth_required");
+      expect(userRepository.update).toHaveBeenCalledWith("user-123", {
+        authStatus: "reauth_required",
+      });
+    });
+
+    it("should leave the status alone on transient failures", async () => {
+      (userTokenService.refresh as MockedFunction<any>).mockRejectedValue(
+        new TokenRefreshError("Token refresh failed (503): Unavailable", 503),
+      );
+
+      const outcome = await scheduler.refreshUser(expiringUser);
+
+      expect(outcome).toBe("failed");
+      expect(userRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("refreshDueTokens", () => {
+    it("should refresh tokens expiring within the refresh window", async () => {
+      (userRepository.findWithExpiringTokens as MockedFunction<any>)
+        .mockResolvedValueOnce([expiringUser])
+        .mockResolvedValueOnce([]);
+      (userTokenService.refresh as MockedFunction<any>).mockResolvedValue({
+        accessToken: "new-access-token",
+        refreshToken: "new-refresh-token",
+        expiresAt: new Date(1705334400 * 1000),
+        wasRefreshed: true,
+      });
+
+      scheduler.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(userRepository.findWithExpiringTokens).toHaveBeenCalledWith(
+        new Date(Date.now() + TOKEN_REFRESH_CONFIG.REFRESH_AHEAD_MS),
+        TOKEN_REFRESH_CONFIG.BATCH_SIZE,
+      );
+      expect(userTokenService.refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry a failed user within the same run", async () => {
+      (
+        userRepository.findWithExpiringTokens as MockedFunction<any>
+      ).mockResolvedValue([expiringUser]);
+      (userTokenService.refresh as MockedFunction<any>).mockRejectedValue(
+        new Error("fetch failed"),
+      );
+
+      scheduler.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(userTokenService.refresh).toHaveBeenCalledTimes(1);
+      expect(userRepository.findWithExpiringTokens).toHaveBeenCalledTimes(2);
+
+      // Picked up again on the next poll
+      await vi.advanceTimersByTimeAsync(TOKEN_REFRESH_CONFIG.POLL_INTERVAL_MS);
+      expect(userTokenService.refresh).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, vi, MockedFunction } from "vitest";
+
+vi.mock("../../lib", () => ({
+  userRepository: {
+    findById: vi.fn(),
+    swapTokens: vi.fn(),
+  },
+}));
+
+vi.mock("../stravaApi", () => ({
+  stravaApiService: {
+    refreshAccessToken: vi.fn(),
+    isTokenExpiring: vi.fn(
+      (expiresAt: Date) => expiresAt.getTime() <= Date.now() + 5 * 60 * 1000,
+    ),
+  },
+}));
+
+vi.mock("../metricsService", () => ({
+  metricsService: {
+    recordTokenRefresh: vi.fn(),
+  },
+}));
+
+vi.mock("../../utils/logger", () => ({
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import { UserTokenService } from "../userTokenService";
+import { userRepository } from "../../lib";
+import { stravaApiService } from "../stravaApi";
+import { metricsService } from "../metricsService";
+import { factories } from "../../test/setup";
+
+describe("UserTokenService", () => {
+  let service: UserTokenService;
+
+  const expiringUser = factories.user({
+    id: "42",
+    tokenExpiresAt: new Date(Date.now() + 60 * 1000),
+  });
+  const tokenResponse = {
+    access_token: "new-access-token",
+    refresh_token: "new-refresh-token",
+    expires_at: 1705334400,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new UserTokenService();
+
+    (
+      stravaApiService.refreshAccessToken as MockedFunction<any>
+    ).mockResolvedValue(tokenResponse);
+    (userRepository.swapTokens as MockedFunction<any>).mockImplementation(
+      async (id: string, _expected: string, tokens: any) => ({
+        ...expiringUser,
+        id,
+        ...tokens,
+      }),
+    );
+  });
+
+  it("should return the current tokens when they are not expiring", async () => {
+    const user = factories.user();
+
+    const tokens = await service.ensureValidToken(user);
+
+    expect(tokens).toEqual({
+      accessToken: user.accessToken,
+      refreshToken: user.refreshToken,
+      expiresAt: user.tokenExpiresAt,
+      wasRefreshed: false,
+    });
+    expect(stravaApiService.refreshAccessToken).not.toHaveBeenCalled();
+  });
+
+  it("should store refreshed tokens only if the refresh token is unchanged", async () => {
+    const tokens = await service.ensureValidToken(expiringUser);
+
+    expect(userRepository.swapTokens).toHaveBeenCalledWith(
+      "42",
+      "test-refresh-token",
+      {
+        accessToken: "new-access-token",
+        refreshToken: "new-refresh-token",
+        tokenExpiresAt: new Date(1705334400 * 1000),
+      },
+    );
+    expect(tokens).toEqual({
+      accessToken: "new-access-token",
+      refreshToken: "new-refresh-token",
+      expiresAt: new Date(1705334400 * 1000),
+      wasRefreshed: true,
+    });
+    expect(metricsService.recordTokenRefresh).toHaveBeenCalledWith(
+      42,
+      true,
+      expect.any(Number),
+    );
+  });
+
+  it("should share one refresh between concurrent callers", async () => {
+    const [first, second] = await Promise.all([
+      service.ensureValidToken(expiringUser),
+      service.refresh(expiringUser),
+    ]);
+
+    expect(stravaApiService.refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+
+    // The next refresh starts afresh once the shared one settles
+    await service.refresh(expiringUser);
+    expect(stravaApiService.refreshAccessToken).toHaveBeenCalledTimes(2);
+  });
+
+  it("should use the stored tokens when another process refreshed first", async () => {
+    const stored = factories.user({
+      id: "42",
+      accessToken: "other-access-token",
+      refreshToken: "other-refresh-token",
+      tokenExpiresAt: new Date(Date.now() + 6 * 60 * 60 * 1000),
+    });
+    (userRepository.swapTokens as MockedFunction<any>).mockResolvedValue(null);
+    (userRepository.findById as MockedFunction<any>).mockResolvedValue(stored);
+
+    const tokens = await service.ensureValidToken(expiringUser);
+
+    expect(tokens.accessToken).toBe("other-access-token");
+    expect(tokens.refreshToken).toBe("other-refresh-token");
+  });
+
+  it("should re-read the tokens and retry once when the refresh token was rotated", async () => {
+    const rotated = factories.user({
+      id: "42",
+      refreshToken: "rotated-refresh-token",
+      tokenExpiresAt: new Date(Date.now() + 60 * 1000),
+    });
+    (stravaApiService.refreshAccessToken as MockedFunction<any>)
+      .mockRejectedValueOnce(new Error("Token refresh failed (400)"))
+      .mockResolvedValueOnce(tokenResponse);
+    (userRepository.findById as MockedFunction<any>).mockResolvedValue(rotated);
+
+    const tokens = await service.ensureValidToken(expiringUser);
+
+    expect(stravaApiService.refreshAccessToken).toHaveBeenNthCalledWith(
+      2,
+      "rotated-refresh-token",
+    );
+    expect(userRepository.swapTokens).toHaveBeenCalledWith(
+      "42",
+      "rotated-refresh-token",
+      expect.any(Object),
+    );
+    expect(tokens.accessToken).toBe("new-access-token");
+  });
+
+  it("should use rotated tokens without refreshing when they are still valid", async () => {
+    const rotated = factories.user({
+      id: "42",
+      accessToken: "fresh-access-token",
+      refreshToken: "rotated-refresh-token",
+      tokenExpiresAt: new Date(Date.now() + 6 * 60 * 60 * 1000),
+    });
+    (
+      stravaApiService.refreshAccessToken as MockedFunction<any>
+    ).mockRejectedValue(new Error("Token refresh failed (400)"));
+    (userRepository.findById as MockedFunction<any>).mockResolvedValue(rotated);
+
+    const tokens = await service.ensureValidToken(expiringUser);
+
+    expect(stravaApiService.refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(tokens.accessToken).toBe("fresh-access-token");
+  });
+
+  it("should rethrow when the stored refresh token is unchanged", async () => {
+    const error = new Error("Token refresh failed (503)");
+    (
+      stravaApiService.refreshAccessToken as MockedFunction<any>
+    ).mockRejectedValue(error);
+    (userRepository.findById as MockedFunction<any>).mockResolvedValue(
+      expiringUser,
+    );
+
+    await expect(service.ensureValidToken(expiringUser)).rejects.toBe(error);
+    expect(stravaApiService.refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(metricsService.recordTokenRefresh).toHaveBeenCalledWith(
+      42,
+      false,
+      expect.any(Number),
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import axios from "axios";
+import {
+  ArchiveWeatherUnavailableError,
+  OpenMeteoArchive,
+  createWeatherArchive,
+} from "../weatherArchive";
+import { metricsService } from "../metricsService";
+
+vi.mock("axios");
+const mockedAxios = vi.mocked(axios);
+
+vi.mock("../../utils/logger", () => ({
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+vi.mock("../../config/environment", () => ({
+  config: {
+    api: {
+      openMeteo: {
+        archiveUrl: "https://archive-api.open-meteo.com/v1/archive",
+      },
+    },
+  },
+}));
+
+vi.mock("../metricsService", () => ({
+  metricsService: {
+    recordApiCall: vi.fn(),
+  },
+}));
+
+describe("OpenMeteoArchive", () => {
+  let archive: OpenMeteoArchive;
+
+  // 2023-06-01 05:00, 06:00 and 07:00 UTC
+  const hours = [1685595600, 1685599200, 1685602800];
+
+  const archiveResponse = (overrides: Record<string, unknown> = {}) => ({
+    status: 200,
+    data: {
+      hourly: {
+        time: hours,
+        temperature_2m: [11.2, 12.6, 14.1],
+        apparent_temperature: [10.1, 11.4, 13.2],
+        relative_humidity_2m: [81, 76, 70],
+        surface_pressure: [1012.4, 1012.9, 1013.3],
+        cloud_cover: [90, 60, 20],
+        wind_speed_10m: [2.14, 3.46, 4.02],
+        wind_direction_10m: [200, 215, 230],
+        wind_gusts_10m: [4.5, 6.78, 8.1],
+        weather_code: [3, 61, 1],
+        is_day: [0, 1, 1],
+        ...overrides,
+      },
+    },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    archive = new OpenMeteoArchive();
+  });
+
+  it("should request the activity day and use the closest hour", async () => {
+    mockedAxios.get.mockResolvedValue(archiveResponse());
+
+    const result = await archive.getHourlyWeather(
+      52.52,
+      13.405,
+      new Date("2023-06-01T06:20:00Z"),
+    );
+
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      "https://archive-api.open-meteo.com/v1/archive",
+      {
+        params: expect.objectContaining({
+          latitude: "52.520000",
+          longitude: "13.405000",
+          start_date: "2023-06-01",
+          end_date: "2023-06-01",
+          wind_speed_unit: "ms",
+          timeformat: "unixtime",
+        }),
+        timeout: 5000,
+      },
+    );
+    expect(result).toEqual({
+      temperature: 13,
+      temperatureFeel: 11,
+      humidity: 76,
+      pressure: 1013,
+      windSpeed: 3.5,
+      windDirection: 215,
+      windGust: 6.8,
+      cloudCover: 60,
+      visibility: 10,
+      condition: "Rain",
+      description: "light rain",
+      icon: "10d",
+      timestamp: "2023-06-01T06:00:00.000Z",
+    });
+  });
+
+  it("should use night icons for hours after dark", async () => {
+    mockedAxios.get.mockResolvedValue(archiveResponse());
+
+    const result = await archive.getHourlyWeather(
+      52.52,
+      13.405,
+      new Date("2023-06-01T05:10:00Z"),
+    );
+
+    expect(result.icon).toBe("04n");
+    expect(result.description).toBe("overcast");
+  });
+
+  it("should skip hours without data", async () => {
+    mockedAxios.get.mockResolvedValue(
+      archiveResponse({ temperature_2m: [11.2, null, 14.1] }),
+    );
+
+    const result = await archive.getHourlyWeather(
+      52.52,
+      13.405,
+      new Date("2023-06-01T05:50:00Z"),
+    );
+
+    expect(result.timestamp).toBe("2023-06-01T05:00:00.000Z");
+  });
+
+  it("should report days the archive has no data for yet as unavailable", async () => {
+    mockedAxios.get.mockResolvedValue(
+      archiveResponse({ temperature_2m: [null, null, null] }),
+    );
+
+    const request = archive.getHourlyWeather(
+      52.52,
+      13.405,
+      new Date("2023-06-01T06:00:00Z"),
+    );
+
+    await expect(request).rejects.toThrow(ArchiveWeatherUnavailableError);
+    await expect(request).rejects.toThrow(
+      "Archived weather unavailable: No weather data available for this time",
+    );
+  });
+
+  it("should report dates outside the archive range as unavailable", async () => {
+    mockedAxios.isAxiosError.mockReturnValue(true);
+    mockedAxios.get.mockRejectedValue({
+      response: { status: 400 },
+      message: "Request failed with status code 400",
+      isAxiosError: true,
+    });
+
+    await expect(
+      archive.getHourlyWeather(52.52, 13.405, new Date("2023-06-01T06:00:00Z")),
+    ).rejects.toThrow(ArchiveWeatherUnavailableError);
+    expect(metricsService.recordApiCall).toHaveBeenCalledWith(
+      "weather_api",
+      "GET /archive",
+      expect.any(Number),
+      400,
+      expect.any(String),
+      { provider: "open-meteo" },
+    );
+  });
+
+  it("should wrap request errors", async () => {
+    mockedAxios.isAxiosError.mockReturnValue(false);
+    mockedAxios.get.mockRejectedValue(new Error("socket hang up"));
+
+    await expect(
+      archive.getHourlyWeather(52.52, 13.405, new Date("2023-06-01T06:00:00Z")),
+    ).rejects.toThrow("Weather archive error: socket hang up");
+  });
+});
+
+describe("createWeatherArchive", () => {
+  it("should return null when no archive is configured", () => {
+    expect(createWeatherArchive(undefined)).toBeNull();
+  });
+
+  it("should create the Open-Meteo archive", () => {
+    expect(createWeatherArchive("open-meteo")).toBeInstanceOf(OpenMeteoArchive);
+  });
+});
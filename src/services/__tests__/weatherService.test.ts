@@ -8,7 +8,14 @@ import {
   MockedFunction,
 } from "vitest";
 import axios from "axios";
-import { WeatherService, type WeatherData } from "../weatherService";
+import {
+  WeatherService,
+  HistoricalWeatherUnavailableError,
+  type WeatherData,
+} from "../weatherService";
+import { createWeatherProviders } from "../weatherProvider";
+import { ArchiveWeatherUnavailableError } from "../weatherArchive";
+import { metricsService } from "../metricsService";
 import { config } from "../../config/environment";
 import { factories } from "../../test/setup";
 
@@ -39,6 +46,12 @@ vi.mock("../../config/environment", () => ({
       openWeatherMap: {
         oneCallUrl: "https://api.openweathermap.org/data/3.0/onecall",
       },
+      openMeteo: {
+        forecastUrl: "https://api.open-meteo.com/v1/forecast",
+      },
+      weather: {
+        providers: ["openweathermap"],
+      },
     },
   },
 }));
@@ -122,6 +135,7 @@ describe("WeatherService", () => {
     icon: "01d",
     uvIndex: 3,
     timestamp: "2024-01-15T09:30:00.000Z", // Matches the actual timestamp from the response
+    provider: "openweathermap",
   };
 
   const expectedHistoricalWeather: WeatherData = {
@@ -139,6 +153,7 @@ describe("WeatherService", () => {
     icon: "02d",
     uvIndex: 2,
     timestamp: "2024-01-15T09:30:00.000Z", // Matches the actual timestamp from the response
+    provider: "openweathermap",
   };
 
   beforeEach(() => {
@@ -160,6 +175,20 @@ describe("WeatherService", () => {
     weatherService.destroy();
   });
 
+  describe("getDataSource", () => {
+    it("should select the data source by activity age", () => {
+      expect(
+        weatherService.getDataSource(new Date("2024-01-15T11:30:00Z")),
+      ).toBe("current");
+      expect(
+        weatherService.getDataSource(new Date("2024-01-14T12:00:00Z")),
+      ).toBe("historical");
+      expect(
+        weatherService.getDataSource(new Date("2024-01-01T12:00:00Z")),
+      ).toBe("archive");
+    });
+  });
+
   describe("getWeatherForActivity", () => {
     describe("current weather path", () => {
       it("should fetch current weather for recent activities", async () => {
@@ -254,30 +283,73 @@ describe("WeatherService", () => {
         );
       });
 
-      it("should use current weather as fallback for very old activities", async () => {
+      it("should refuse very old activities when no archive is configured", async () => {
         const activityTime = new Date("2024-01-08T07:30:00Z"); // 7 days ago
-        const lat = 52.52;
-        const lon = 13.405;
-        const activityId = "123456";
 
+        await expect(
+          weatherService.getWeatherForActivity(
+            52.52,
+            13.405,
+            activityTime,
+            "123456",
+          ),
+        ).rejects.toThrow(HistoricalWeatherUnavailableError);
+
+        // Must not substitute current weather
+        expect(mockedAxios.get).not.toHaveBeenCalled();
+      });
+
+      it("should use the historical archive for very old activities", async () => {
+        const archivedWeather = factories.weatherData({
+          timestamp: "2024-01-08T08:00:00.000Z",
+        });
+        const archive = {
+          name: "test-archive",
+          getHourlyWeather: vi.fn().mockResolvedValue(archivedWeather),
+        };
+        weatherService = new WeatherService(undefined, archive);
+
+        const activityTime = new Date("2024-01-08T07:30:00Z");
         const result = await weatherService.getWeatherForActivity(
-          lat,
-          lon,
+          52.52,
+          13.405,
           activityTime,
-          activityId,
+          "123456",
         );
 
-        expect(result).toEqual(expectedCurrentWeather);
-
-        // Should call current weather API, not historical
-        expect(mockedAxios.get).toHaveBeenCalledWith(
-          config.api.openWeatherMap.oneCallUrl,
-          expect.objectContaining({
-            params: expect.objectContaining({
-              exclude: "minutely,hourly,daily,alerts",
-            }),
-          }),
+        expect(result).toEqual({
+          ...archivedWeather,
+          provider: "test-archive",
+        });
+        expect(archive.getHourlyWeather).toHaveBeenCalledWith(
+          52.52,
+          13.405,
+          activityTime,
         );
+        expect(mockedAxios.get).not.toHaveBeenCalled();
+      });
+
+      it("should refuse activities the archive has no data for yet", async () => {
+        const archive = {
+          name: "test-archive",
+          getHourlyWeather: vi
+            .fn()
+            .mockRejectedValue(
+              new ArchiveWeatherUnavailableError(
+                "No weather data available for this time",
+              ),
+            ),
+        };
+        weatherService = new WeatherService(undefined, archive);
+
+        await expect(
+          weatherService.getWeatherForActivity(
+            52.52,
+            13.405,
+            new Date("2024-01-09T07:30:00Z"), // 6 days ago
+            "123456",
+          ),
+        ).rejects.toThrow(HistoricalWeatherUnavailableError);
       });
     });
 
@@ -424,6 +496,171 @@ describe("WeatherService", () => {
       });
     });
 
+    describe("provider failover", () => {
+      const openMeteoResponse = {
+        status: 200,
+        data: {
+          hourly: {
+            time: [1705320000], // 2024-01-15T12:00:00Z
+            temperature_2m: [14.6],
+            apparent_temperature: [12.8],
+            relative_humidity_2m: [68],
+            surface_pressure: [1012.7],
+            cloud_cover: [45],
+            wind_speed_10m: [3.62],
+            wind_direction_10m: [230],
+            wind_gusts_10m: [null],
+            weather_code: [2],
+            is_day: [1],
+          },
+        },
+      };
+
+      beforeEach(() => {
+        weatherService = new WeatherService(
+          createWeatherProviders(["openweathermap", "open-meteo"]),
+        );
+      });
+
+      it("should fail over to the next provider when rate limited", async () => {
+        mockedAxios.get
+          .mockRejectedValueOnce({
+            response: { status: 429, statusText: "Too Many Requests" },
+            message: "Request failed with status code 429",
+            isAxiosError: true,
+          })
+          .mockResolvedValueOnce(openMeteoResponse);
+
+        const result = await weatherService.getWeatherForActivity(
+          52.52,
+          13.405,
+          new Date("2024-01-15T11:30:00Z"),
+          "123456",
+        );
+
+        expect(result).toMatchObject({
+          temperature: 15,
+          condition: "Clouds",
+          description: "partly cloudy",
+          timestamp: "2024-01-15T12:00:00.000Z",
+          provider: "open-meteo",
+        });
+        expect(mockedAxios.get).toHaveBeenLastCalledWith(
+          "https://api.open-meteo.com/v1/forecast",
+          expect.objectContaining({
+            params: expect.objectContaining({ start_date: "2024-01-15" }),
+          }),
+        );
+        expect(metricsService.recordApiCall).toHaveBeenCalledWith(
+          "weather_api",
+          "GET /onecall",
+          expect.any(Number),
+          429,
+          expect.any(String),
+          { provider: "openweathermap" },
+        );
+        expect(metricsService.recordApiCall).toHaveBeenCalledWith(
+          "weather_api",
+          "GET /forecast",
+          expect.any(Number),
+          200,
+          undefined,
+          { provider: "open-meteo" },
+        );
+      });
+
+      it("should fail over on timeouts for historical weather", async () => {
+        mockedAxios.get
+          .mockRejectedValueOnce({
+            code: "ECONNABORTED",
+            message: "timeout of 5000ms exceeded",
+            isAxiosError: true,
+          })
+          .mockResolvedValueOnce(openMeteoResponse);
+
+        const result = await weatherService.getWeatherForActivity(
+          52.52,
+          13.405,
+          new Date("2024-01-15T07:30:00Z"),
+          "123456",
+        );
+
+        expect(result.temperature).toBe(15);
+        expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+      });
+
+      it("should not fail over on other errors", async () => {
+        mockedAxios.get.mockRejectedValueOnce({
+          response: { status: 500, statusText: "Internal Server Error" },
+          message: "Request failed with status code 500",
+          isAxiosError: true,
+        });
+
+        await expect(
+          weatherService.getWeatherForActivity(
+            52.52,
+            13.405,
+            new Date("2024-01-15T11:30:00Z"),
+            "123456",
+          ),
+        ).rejects.toThrow("Failed to fetch weather data: Weather API error");
+        expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      });
+
+      it("should report the last provider's error when all fail", async () => {
+        mockedAxios.get.mockRejectedValue({
+          response: { status: 429, statusText: "Too Many Requests" },
+          message: "Request failed with status code 429",
+          isAxiosError: true,
+        });
+
+        await expect(
+          weatherService.getWeatherForActivity(
+            52.52,
+            13.405,
+            new Date("2024-01-15T11:30:00Z"),
+            "123456",
+          ),
+        ).rejects.toThrow(
+          "Failed to fetch weather data: Weather API rate limit exceeded",
+        );
+        expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+        expect(metricsService.recordApiCall).toHaveBeenCalledWith(
+          "weather_api",
+          "GET /forecast",
+          expect.any(Number),
+          429,
+          expect.any(String),
+          { provider: "open-meteo" },
+        );
+      });
+
+      it("should record the status of failed historical requests", async () => {
+        mockedAxios.get.mockRejectedValueOnce({
+          response: { status: 503, statusText: "Service Unavailable" },
+          message: "Request failed with status code 503",
+          isAxiosError: true,
+        });
+
+        await expect(
+          weatherService.getWeatherForActivity(
+            52.52,
+            13.405,
+            new Date("2024-01-15T07:30:00Z"),
+            "123456",
+          ),
+        ).rejects.toThrow();
+        expect(metricsService.recordApiCall).toHaveBeenCalledWith(
+          "weather_api",
+          "GET /timemachine",
+          expect.any(Number),
+          503,
+          expect.any(String),
+          { provider: "openweathermap" },
+        );
+      });
+    });
+
     describe("data formatting", () => {
       it("should properly format temperature values", async () => {
         const responseWithDecimals = {
@@ -0,0 +1,74 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  MockedFunction,
+} from "vitest";
+
+vi.mock("../../lib", () => ({
+  webhookRepository: {
+    pruneEvents: vi.fn(),
+  },
+}));
+
+vi.mock("../../utils/logger", () => ({
+  createServiceLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import {
+  WebhookEventRetentionJob,
+  WEBHOOK_EVENT_RETENTION_CONFIG,
+} from "../webhookEventRetentionJob";
+import { webhookRepository } from "../../lib";
+
+describe("WebhookEventRetentionJob", () => {
+  let job: WebhookEventRetentionJob;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-04-15T10:30:00Z"));
+
+    (webhookRepository.pruneEvents as MockedFunction<any>).mockResolvedValue(
+      12,
+    );
+
+    job = new WebhookEventRetentionJob();
+  });
+
+  afterEach(async () => {
+    await job.stop();
+    vi.useRealTimers();
+  });
+
+  it("should prune events older than the retention window", async () => {
+    const pruned = await job.runOnce();
+
+    expect(pruned).toBe(12);
+    expect(webhookRepository.pruneEvents).toHaveBeenCalledWith(
+      new Date("2024-04-08T10:30:00Z"),
+    );
+  });
+
+  it("should keep polling after a failed run", async () => {
+    (
+      webhookRepository.pruneEvents as MockedFunction<any>
+    ).mockRejectedValueOnce(new Error("connection lost"));
+
+    job.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(
+      WEBHOOK_EVENT_RETENTION_CONFIG.POLL_INTERVAL_MS,
+    );
+
+    expect(webhookRepository.pruneEvents).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,211 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { activityJobRepository, type ActivityJob } from "../lib";
+import { activityProcessor } from "./activityProcessor";
+import { createServiceLogger } from "../utils/logger";
+
+const logger = createServiceLogger("ActivityJobWorker");
+
+/**
+ * Job queue configuration
+ */
+export const JOB_CONFIG = {
+  POLL_INTERVAL_MS: 2000,
+  VISIBILITY_TIMEOUT_MS: 10 * 60 * 1000, // Reclaim jobs from crashed workers after 10 minutes
+  BASE_BACKOFF_MS: 30 * 1000,
+  MAX_BACKOFF_MS: 30 * 60 * 1000,
+  IN_PROGRESS_DELAY_MS: 60 * 1000, // Give the current lock holder time to finish
+} as const;
+
+/**
+ * Processing errors that will never succeed on retry
+ */
+const PERMANENT_ERRORS = ["User not found"];
+
+/**
+ * Background worker that drains the activity job queue
+ *
+ * Polls Postgres for due jobs, processes one at a time and reschedules
+ * failures with exponential backoff. Jobs that exhaust their attempts are
+ * dead-lettered with the last error so they can be inspected later.
+ */
+export class ActivityJobWorker {
+  readonly workerId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info("Activity job worker started", { workerId: this.workerId });
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the in-flight job to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await this.currentRun;
+    logger.info("Activity job worker stopped", { workerId: this.workerId });
+  }
+
+  /**
+   * Process every job that is currently due
+   *
+   * @returns Number of jobs processed
+   */
+  async drain(): Promise<number> {
+    let processed = 0;
+
+    await activityJobRepository.deadLetterExpired();
+
+    while (this.running) {
+      const job = await activityJobRepository.claimNext(
+        this.workerId,
+        JOB_CONFIG.VISIBILITY_TIMEOUT_MS,
+      );
+
+      if (!job) {
+        break;
+      }
+
+      await this.processJob(job);
+      processed++;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Run a single claimed job and record its outcome
+   */
+  async processJob(job: ActivityJob): Promise<void> {
+    const startTime = Date.now();
+    let error: string;
+
+    try {
+      const result = await activityProcessor.processActivity(
+        job.activity_id,
+        job.user_id,
+        job.attempts - 1,
+        "webhook",
+      );
+
+      if (result.success || result.skipped) {
+        await activityJobRepository.complete(job.id, this.workerId);
+        logger.info("Activity job completed", {
+          jobId: job.id,
+          activityId: job.activity_id,
+          attempts: job.attempts,
+          skipped: result.skipped || false,
+          skipReason: result.reason,
+          processingTimeMs: Date.now() - startTime,
+        });
+        return;
+      }
+
+      if (result.inProgress) {
+        // Another process holds the activity lock; not a failed attempt
+        const reason =
+          result.error || "Activity processing already in progress";
+        await activityJobRepository.reschedule(
+          job.id,
+          this.workerId,
+          new Date(Date.now() + JOB_CONFIG.IN_PROGRESS_DELAY_MS),
+          reason,
+        );
+        logger.info("Activity job rescheduled, activity is being processed", {
+          jobId: job.id,
+          activityId: job.activity_id,
+          delayMs: JOB_CONFIG.IN_PROGRESS_DELAY_MS,
+        });
+        return;
+      }
+
+      error = result.error || "Unknown error";
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : "Unknown error";
+    }
+
+    if (PERMANENT_ERRORS.includes(error) || job.attempts >= job.max_attempts) {
+      await activityJobRepository.deadLetter(job.id, this.workerId, error);
+      logger.error("Activity job dead-lettered", {
+        jobId: job.id,
+        activityId: job.activity_id,
+        userId: job.user_id,
+        attempts: job.attempts,
+        error,
+      });
+      return;
+    }
+
+    const delayMs = this.getBackoffDelay(job.attempts);
+    await activityJobRepository.retry(
+      job.id,
+      this.workerId,
+      new Date(Date.now() + delayMs),
+      error,
+    );
+    logger.warn("Activity job failed, retry scheduled", {
+      jobId: job.id,
+      activityId: job.activity_id,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      delayMs,
+      error,
+    });
+  }
+
+  /**
+   * Exponential backoff with jitter, capped at MAX_BACKOFF_MS
+   */
+  getBackoffDelay(attempts: number): number {
+    const exponential =
+      JOB_CONFIG.BASE_BACKOFF_MS * Math.pow(2, Math.max(0, attempts - 1));
+    const capped = Math.min(exponential, JOB_CONFIG.MAX_BACKOFF_MS);
+    const jitter = capped * 0.1 * Math.random();
+    return Math.round(capped + jitter);
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.currentRun = this.poll();
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.drain();
+    } catch (error) {
+      logger.error("Activity job poll failed", {
+        workerId: this.workerId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      this.currentRun = null;
+      this.schedule(JOB_CONFIG.POLL_INTERVAL_MS);
+    }
+  }
+}
+
+// Export singleton instance
+export const activityJobWorker = new ActivityJobWorker();
@@ -1,8 +1,37 @@
-import { weatherService, type WeatherData } from "./weatherService";
-import { stravaApiService } from "./stravaApi";
-import { userRepository } from "../lib";
+import { randomUUID } from "crypto";
+import {
+  weatherService,
+  HistoricalWeatherUnavailableError,
+  type RouteWeatherSample,
+  type WeatherData,
+} from "./weatherService";
+import {
+  decodeRoute,
+  getRoutePoints,
+  getWindExposure,
+  summarizeRouteWeather,
+  type RoutePoint,
+} from "./routeWeather";
+import { findOptOutRule } from "./activityRules";
+import { DEFAULT_USER_PREFERENCES } from "./userPreferences";
+import { stravaApiService, type StravaLane } from "./stravaApi";
+import { userTokenService } from "./userTokenService";
+import {
+  userRepository,
+  activityWeatherRepository,
+  activityLockRepository,
+  type ActivityOutcome,
+  type UserPreference,
+  type WeatherDataSource,
+} from "../lib";
 import { createServiceLogger } from "../utils/logger";
 import { metricsService } from "./metricsService";
+import {
+  formatTemperature,
+  renderWeatherTemplate,
+  toCompassDirection,
+  WeatherTemplateError,
+} from "../utils/weatherTemplate";
 
 /**
  * Activity processing result interface
@@ -11,9 +40,12 @@ export interface ProcessingResult {
   success: boolean;
   activityId: string;
   weatherData?: WeatherData;
+  dataSource?: WeatherDataSource;
   error?: string;
   skipped?: boolean;
   reason?: string;
+  // Another run holds the activity's lock; nothing was done
+  inProgress?: boolean;
 }
 
 /**
@@ -24,52 +56,81 @@ export interface ActivityData {
   name: string;
   start_date: string;
   start_latlng: [number, number] | null;
+  end_latlng?: [number, number] | null;
+  map?: {
+    polyline?: string | null;
+    summary_polyline?: string | null;
+  };
   location_city?: string;
   location_state?: string;
   location_country?: string;
   description?: string;
   type: string;
+  private?: boolean;
+  trainer?: boolean;
   distance: number;
   moving_time: number;
   elapsed_time: number;
 }
 
+/**
+ * Subset of user preferences that controls how the weather line is rendered
+ */
+export type WeatherDisplayPreferences = Pick<
+  UserPreference,
+  | "temperatureUnit"
+  | "weatherFormat"
+  | "includeUvIndex"
+  | "includeVisibility"
+  | "customFormat"
+>;
+
+/**
+ * Details gathered while processing, recorded in the activity history
+ */
+interface ProcessingDetails {
+  userFound: boolean;
+  activity?: ActivityData;
+  appendedText?: string;
+}
+
 const logger = createServiceLogger("ActivityProcessor");
 
 /**
- * Weather data patterns for detection
+ * How long an activity stays locked if its processor dies without releasing
+ * it, matching the job queue's visibility timeout
+ */
+const ACTIVITY_LOCK_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * How often a running processor renews its lock
+ *
+ * Strava calls can wait on the rate limiter for longer than the TTL, so the
+ * lease is kept alive for as long as the run lasts.
  */
-const WEATHER_PATTERNS = [
-  /°C/,
-  /°F/,
-  /Feels like/,
-  /Humidity/,
-  /m\/s from/,
-  /🌤️ Weather:/,
-  /Weather:/,
-];
+const ACTIVITY_LOCK_RENEW_INTERVAL_MS = ACTIVITY_LOCK_TTL_MS / 3;
 
 /**
- * Wind direction compass points
+ * Smallest wind shift along a route worth mentioning, in degrees
  */
-const WIND_DIRECTIONS = [
-  "N",
-  "NNE",
-  "NE",
-  "ENE",
-  "E",
-  "ESE",
-  "SE",
-  "SSE",
-  "S",
-  "SSW",
-  "SW",
-  "WSW",
-  "W",
-  "WNW",
-  "NW",
-  "NNW",
-] as const;
+const NOTABLE_WIND_SHIFT_DEGREES = 45;
+
+/**
+ * Invisible markers around the generated weather text
+ *
+ * Zero-width characters do not show on Strava but let the processor find
+ * exactly its own output and replace it, leaving the user's text alone.
+ */
+export const WEATHER_BLOCK_START = "\u2060\u200B";
+export const WEATHER_BLOCK_END = "\u200B\u2060";
+
+/**
+ * Detailed weather line written before markers were introduced
+ *
+ * Only matched as the final paragraph, where the processor appended it.
+ */
+const LEGACY_WEATHER_LINE =
+  /(^|\n\n)[^\n]+, -?\d+°[CF], Feels like -?\d+°[CF], Humidity \d+%, Wind [\d.]+m\/s from [NESW]{1,3}[^\n]*$/;
 
 /**
  * Activity processor service
@@ -81,21 +142,120 @@ export class ActivityProcessor {
   /**
    * Process a single activity and add weather data
    *
+   * Every outcome for a known user is recorded in the activity history.
+   * Runs hold a per-activity lock around the read-check-update sequence,
+   * renewed while they run, so a concurrent run for the same activity
+   * returns an "in progress" result instead of writing weather a second
+   * time.
+   *
    * @param activityId - Strava activity ID to process
    * @param userId - Internal user ID for token access
+   * @param retryCount - Number of previous attempts
+   * @param lane - Strava request lane the run's API calls are queued in
    * @returns Processing result with success status and any weather data
    */
   async processActivity(
     activityId: string,
     userId: string,
     retryCount: number = 0,
+    lane: StravaLane = "manual",
+  ): Promise<ProcessingResult> {
+    const lockOwner = randomUUID();
+    let locked: boolean;
+    try {
+      locked = await activityLockRepository.acquire(
+        activityId,
+        lockOwner,
+        ACTIVITY_LOCK_TTL_MS,
+      );
+    } catch (error) {
+      // Already logged by the repository
+      return {
+        success: false,
+        activityId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+
+    if (!locked) {
+      logger.info(`Activity ${activityId} is already being processed`);
+      return {
+        success: false,
+        activityId,
+        inProgress: true,
+        error: "Activity processing already in progress",
+      };
+    }
+
+    const renewal = setInterval(() => {
+      activityLockRepository
+        .renew(activityId, lockOwner, ACTIVITY_LOCK_TTL_MS)
+        .then((renewed) => {
+          if (!renewed) {
+            logger.warn(`Lost the processing lock for activity ${activityId}`);
+          }
+        })
+        // Already logged by the repository; retried on the next tick
+        .catch(() => undefined);
+    }, ACTIVITY_LOCK_RENEW_INTERVAL_MS);
+    renewal.unref();
+
+    try {
+      const startTime = Date.now();
+      const details: ProcessingDetails = { userFound: false };
+
+      const result = await this.enrichActivity(
+        activityId,
+        userId,
+        retryCount,
+        lane,
+        details,
+      );
+
+      if (details.userFound) {
+        await this.recordHistory(
+          userId,
+          result,
+          details,
+          retryCount,
+          Date.now() - startTime,
+        );
+      }
+
+      return result;
+    } finally {
+      clearInterval(renewal);
+
+      // Already logged by the repository; the lock expires on its own
+      await activityLockRepository
+        .release(activityId, lockOwner)
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * Fetch weather for an activity and append it to the description
+   *
+   * @param activityId - Strava activity ID to process
+   * @param userId - Internal user ID for token access
+   * @param retryCount - Number of previous attempts
+   * @param lane - Strava request lane for the API calls
+   * @param details - Collects details for the activity history
+   * @returns Processing result with success status and any weather data
+   */
+  private async enrichActivity(
+    activityId: string,
+    userId: string,
+    retryCount: number,
+    lane: StravaLane,
+    details: ProcessingDetails,
   ): Promise<ProcessingResult> {
     const startTime = Date.now();
 
     try {
       logger.info(`Processing activity ${activityId} for user ${userId}`);
 
-      const user = await userRepository.findById(userId);
+      const user = await userRepository.findWithPreferences(userId);
 
       if (!user) {
         logger.error(`User ${userId} not found`);
@@ -106,6 +266,8 @@ export class ActivityProcessor {
         };
       }
 
+      details.userFound = true;
+
       if (!user.weatherEnabled) {
         logger.info(`Weather updates disabled for user ${userId}`);
         return {
@@ -117,33 +279,13 @@ export class ActivityProcessor {
       }
 
       // Ensure valid Strava token
-      const tokenRefreshStart = Date.now();
-      const tokenData = await stravaApiService.ensureValidToken(
-        user.accessToken,
-        user.refreshToken,
-        user.tokenExpiresAt,
-      );
-
-      // Update tokens if refreshed
-      if (tokenData.wasRefreshed) {
-        const tokenRefreshDuration = Date.now() - tokenRefreshStart;
-        await metricsService.recordTokenRefresh(
-          parseInt(userId),
-          true,
-          tokenRefreshDuration,
-        );
-
-        await userRepository.update(userId, {
-          accessToken: tokenData.accessToken,
-          refreshToken: tokenData.refreshToken,
-          tokenExpiresAt: tokenData.expiresAt,
-        });
-      }
+      const tokenData = await userTokenService.ensureValidToken(user);
 
       // Get activity details from Strava
       const activity = await stravaApiService.getActivity(
         activityId,
         tokenData.accessToken,
+        lane,
       );
 
       if (!activity) {
@@ -155,14 +297,18 @@ export class ActivityProcessor {
         };
       }
 
-      // Check if activity already has weather data
-      if (this.hasWeatherData(activity.description)) {
-        logger.info(`Activity ${activityId} already has weather data`);
+      details.activity = activity;
+
+      // Apply the user's activity opt-out rules
+      const optOutRule =
+        user.preferences && findOptOutRule(activity, user.preferences);
+      if (optOutRule) {
+        logger.info(`Activity ${activityId} skipped by rule: ${optOutRule}`);
         return {
-          success: true,
+          success: false,
           activityId,
           skipped: true,
-          reason: "Already has weather data",
+          reason: optOutRule,
         };
       }
 
@@ -180,29 +326,51 @@ export class ActivityProcessor {
       const [lat, lon] = activity.start_latlng;
 
       // Get weather data
-      const weatherData = await weatherService.getWeatherForActivity(
+      const activityTime = new Date(activity.start_date);
+      const dataSource = weatherService.getDataSource(activityTime);
+      const startWeather = await weatherService.getWeatherForActivity(
         lat,
         lon,
-        new Date(activity.start_date),
+        activityTime,
+        activityId,
+      );
+      const weatherData = await this.addRouteWeather(
+        activity,
+        startWeather,
         activityId,
       );
 
       // Create updated description with weather
-      const updatedDescription = this.createWeatherDescription(
-        activity,
+      const weatherLine = this.renderWeatherLine(
         weatherData,
+        user.preferences ?? undefined,
       );
+      const updatedDescription = this.insertWeatherLine(activity, weatherLine);
+
+      if (updatedDescription === (activity.description || "")) {
+        logger.info(`Activity ${activityId} weather is already up to date`);
+        return {
+          success: true,
+          activityId,
+          skipped: true,
+          reason: "Weather already up to date",
+        };
+      }
 
       // Update activity on Strava
-      await stravaApiService.updateActivity(activityId, tokenData.accessToken, {
-        description: updatedDescription,
-      });
+      await stravaApiService.updateActivity(
+        activityId,
+        tokenData.accessToken,
+        { description: updatedDescription },
+        lane,
+      );
 
+      details.appendedText = weatherLine;
       logger.info(`Activity ${activityId} updated with weather data`);
 
       // Record successful processing
       const duration = Date.now() - startTime;
-      await metricsService.recordWebhookProcessing(
+      metricsService.recordWebhookProcessing(
         activityId,
         duration,
         true,
@@ -213,13 +381,24 @@ export class ActivityProcessor {
         success: true,
         activityId,
         weatherData,
+        dataSource,
       };
     } catch (error) {
+      if (error instanceof HistoricalWeatherUnavailableError) {
+        logger.warn(`Activity ${activityId} is too old for available weather`);
+        return {
+          success: false,
+          activityId,
+          skipped: true,
+          reason: "Historical weather unavailable",
+        };
+      }
+
       logger.error(`Error processing activity ${activityId}:`, error);
 
       // Record failed processing
       const duration = Date.now() - startTime;
-      await metricsService.recordWebhookProcessing(
+      metricsService.recordWebhookProcessing(
         activityId,
         duration,
         false,
@@ -235,65 +414,311 @@ export class ActivityProcessor {
   }
 
   /**
-   * Check if activity description already contains weather data
+   * Add conditions along the route to the start weather
    *
-   * @param description - Activity description to check
-   * @returns True if weather data is detected
+   * Weather is sampled at the midpoint and finish as well as the start,
+   * and compared with the direction of travel for the wind exposure.
+   * Only the start weather is required; route samples that cannot be
+   * fetched are logged and left out.
+   *
+   * @param activity - Activity with route data
+   * @param startWeather - Weather at the start point
+   * @param activityId - Strava activity ID for logging
+   * @returns Start weather, with route summary and wind exposure when known
    */
-  private hasWeatherData(description?: string): boolean {
-    if (!description) return false;
+  private async addRouteWeather(
+    activity: ActivityData,
+    startWeather: WeatherData,
+    activityId: string,
+  ): Promise<WeatherData> {
+    const [start, ...rest] = getRoutePoints(activity);
+    if (!start) {
+      return startWeather;
+    }
+
+    const toSample = (
+      point: RoutePoint,
+      weather: WeatherData,
+    ): RouteWeatherSample => ({
+      point: point.point,
+      latitude: point.lat,
+      longitude: point.lon,
+      time: point.time.toISOString(),
+      weather,
+    });
+
+    const samples = [toSample(start, startWeather)];
+    for (const point of rest) {
+      try {
+        const weather = await weatherService.getWeatherForActivity(
+          point.lat,
+          point.lon,
+          point.time,
+          activityId,
+        );
+        samples.push(toSample(point, weather));
+      } catch (error) {
+        logger.warn(
+          `Skipping ${point.point} weather for activity ${activityId}`,
+          {
+            error: error instanceof Error ? error.message : "Unknown error",
+          },
+        );
+      }
+    }
+
+    const weatherData = { ...startWeather };
+    if (samples.length > 1) {
+      weatherData.route = summarizeRouteWeather(samples);
+    }
 
-    return WEATHER_PATTERNS.some((pattern) => pattern.test(description));
+    const windExposure = getWindExposure(decodeRoute(activity), samples);
+    if (windExposure) {
+      weatherData.windExposure = windExposure;
+    }
+
+    return weatherData;
   }
 
   /**
-   * Create weather-enhanced description for activity
+   * Record a processing outcome in the activity history
    *
-   * @param activity - Original activity data
-   * @param weatherData - Weather data to append
-   * @returns Updated description with weather information
+   * History failures are logged and never fail processing.
    */
-  private createWeatherDescription(
-    activity: ActivityData,
+  private async recordHistory(
+    userId: string,
+    result: ProcessingResult,
+    details: ProcessingDetails,
+    retryCount: number,
+    durationMs: number,
+  ): Promise<void> {
+    const { activity } = details;
+    const outcome: ActivityOutcome = result.skipped
+      ? "skipped"
+      : result.success
+        ? "success"
+        : "failed";
+
+    try {
+      await activityWeatherRepository.create({
+        activityId: result.activityId,
+        userId,
+        activityName: activity?.name,
+        sportType: activity?.type,
+        activityStartDate: activity ? new Date(activity.start_date) : null,
+        latitude: activity?.start_latlng?.[0],
+        longitude: activity?.start_latlng?.[1],
+        dataSource: result.dataSource,
+        weatherProvider: result.weatherData?.provider,
+        weatherData: result.weatherData,
+        appendedText: details.appendedText,
+        outcome,
+        reason: result.reason ?? result.error,
+        retryCount,
+        durationMs,
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to record history for activity ${result.activityId}`,
+        {
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      );
+    }
+  }
+
+  /**
+   * Render the weather text that would be appended to an activity
+   *
+   * Missing preference fields fall back to the defaults used for users
+   * who have never saved preferences.
+   *
+   * @param weatherData - Weather data to render
+   * @param preferences - Full or partial user display preferences
+   * @returns Weather line exactly as it is appended to descriptions
+   */
+  renderWeatherLine(
     weatherData: WeatherData,
+    preferences: Partial<WeatherDisplayPreferences> = {},
   ): string {
-    const originalDescription = activity.description || "";
+    const resolved: WeatherDisplayPreferences = {
+      ...DEFAULT_USER_PREFERENCES,
+      ...preferences,
+    };
 
     // Format weather conditions
     const condition = this.capitalizeFirst(weatherData.description);
 
-    // Build weather line
-    const weatherLine = this.formatWeatherLine(condition, weatherData);
+    return (
+      this.renderCustomFormat(weatherData, resolved) ??
+      this.formatWeatherLine(condition, weatherData, resolved)
+    );
+  }
+
+  /**
+   * Add a rendered weather line to the activity description
+   *
+   * The line is wrapped in weather block markers. A marked block from an
+   * earlier run, or an unmarked legacy line ending the description, is
+   * replaced in place; otherwise the block is appended.
+   *
+   * @param activity - Original activity data
+   * @param weatherLine - Rendered weather line
+   * @returns Updated description with weather information
+   */
+  private insertWeatherLine(
+    activity: ActivityData,
+    weatherLine: string,
+  ): string {
+    const originalDescription = activity.description || "";
+    const block = `${WEATHER_BLOCK_START}${weatherLine}${WEATHER_BLOCK_END}`;
+
+    const start = originalDescription.indexOf(WEATHER_BLOCK_START);
+    const end = originalDescription.indexOf(
+      WEATHER_BLOCK_END,
+      start + WEATHER_BLOCK_START.length,
+    );
+    if (start !== -1 && end !== -1) {
+      return (
+        originalDescription.slice(0, start) +
+        block +
+        originalDescription.slice(end + WEATHER_BLOCK_END.length)
+      );
+    }
+
+    if (LEGACY_WEATHER_LINE.test(originalDescription)) {
+      return originalDescription.replace(
+        LEGACY_WEATHER_LINE,
+        (_line, separator: string) => `${separator}${block}`,
+      );
+    }
 
     if (originalDescription) {
-      return `${originalDescription}\n\n${weatherLine}`;
+      return `${originalDescription}\n\n${block}`;
     }
 
-    return weatherLine;
+    return block;
+  }
+
+  /**
+   * Render the user's custom format template, if they have one
+   *
+   * Templates saved before validation existed may be invalid; those are
+   * logged and ignored so the standard weather line is used instead.
+   *
+   * @param weatherData - Weather data object
+   * @param preferences - User display preferences
+   * @returns Rendered line, or null to fall back to the standard format
+   */
+  private renderCustomFormat(
+    weatherData: WeatherData,
+    preferences: WeatherDisplayPreferences,
+  ): string | null {
+    if (!preferences.customFormat?.trim()) {
+      return null;
+    }
+
+    try {
+      const rendered = renderWeatherTemplate(
+        preferences.customFormat,
+        weatherData,
+        { temperatureUnit: preferences.temperatureUnit },
+      ).trim();
+
+      return rendered || null;
+    } catch (error) {
+      if (error instanceof WeatherTemplateError) {
+        logger.warn("Ignoring invalid custom weather format", {
+          error: error.message,
+        });
+        return null;
+      }
+      throw error;
+    }
   }
 
   /**
    * Format weather data into a single line
    *
+   * The "simple" format only shows condition and temperature, while
+   * "detailed" adds feels-like, humidity and wind. UV index and visibility
+   * are appended to either format when enabled.
+   *
    * @param condition - Weather condition description
    * @param weatherData - Weather data object
+   * @param preferences - User display preferences
    * @returns Formatted weather line
    */
   private formatWeatherLine(
     condition: string,
     weatherData: WeatherData,
+    preferences: WeatherDisplayPreferences = DEFAULT_USER_PREFERENCES,
   ): string {
-    const parts = [
-      condition,
-      `${weatherData.temperature}°C`,
-      `Feels like ${weatherData.temperatureFeel}°C`,
-      `Humidity ${weatherData.humidity}%`,
-      `Wind ${weatherData.windSpeed}m/s from ${this.getWindDirectionString(weatherData.windDirection)}`,
-    ];
+    const unit = preferences.temperatureUnit;
+    const parts = [condition, formatTemperature(weatherData.temperature, unit)];
+
+    if (preferences.weatherFormat === "detailed") {
+      parts.push(
+        `Feels like ${formatTemperature(weatherData.temperatureFeel, unit)}`,
+        `Humidity ${weatherData.humidity}%`,
+        `Wind ${weatherData.windSpeed}m/s from ${this.getWindDirectionString(weatherData.windDirection)}`,
+        ...this.formatRouteParts(weatherData, unit),
+      );
+
+      if (weatherData.windExposure) {
+        const { headwind, tailwind, crosswind } = weatherData.windExposure;
+        parts.push(
+          `Headwind ${headwind}%, tailwind ${tailwind}%, crosswind ${crosswind}%`,
+        );
+      }
+    }
+
+    if (preferences.includeUvIndex && weatherData.uvIndex !== undefined) {
+      parts.push(`UV index ${weatherData.uvIndex}`);
+    }
+
+    if (preferences.includeVisibility) {
+      parts.push(`Visibility ${weatherData.visibility}km`);
+    }
 
     return parts.join(", ");
   }
 
+  /**
+   * Format the conditions along the route for the detailed weather line
+   *
+   * @param weatherData - Weather data object
+   * @param unit - Temperature unit
+   * @returns Route parts, empty when nothing notable changed
+   */
+  private formatRouteParts(
+    weatherData: WeatherData,
+    unit: WeatherDisplayPreferences["temperatureUnit"],
+  ): string[] {
+    const { route } = weatherData;
+    if (!route) return [];
+
+    const parts: string[] = [];
+
+    if (route.minTemperature !== route.maxTemperature) {
+      parts.push(
+        `Route ${formatTemperature(route.minTemperature, unit)} to ${formatTemperature(route.maxTemperature, unit)}`,
+      );
+    }
+
+    if (route.precipitation.length > 0) {
+      parts.push(
+        `${this.capitalizeFirst(route.precipitation.join(", "))} en route`,
+      );
+    }
+
+    if (route.windShift >= NOTABLE_WIND_SHIFT_DEGREES) {
+      parts.push(`Wind shifting ${route.windShift}°`);
+    }
+
+    return parts;
+  }
+
   /**
    * Convert wind direction degrees to compass direction
    *
@@ -301,10 +726,7 @@ export class ActivityProcessor {
    * @returns Compass direction string (e.g., "NE", "SW")
    */
   private getWindDirectionString(degrees: number): string {
-    // Normalize degrees to 0-360 range to handle negative values
-    degrees = ((degrees % 360) + 360) % 360;
-    const index = Math.round(degrees / 22.5) % 16;
-    return WIND_DIRECTIONS[index] || "N";
+    return toCompassDirection(degrees);
   }
 
   /**
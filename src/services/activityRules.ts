@@ -0,0 +1,73 @@
+import type { UserPreference } from "../lib";
+
+/**
+ * Subset of user preferences that decides which activities get weather
+ */
+export type ActivityRules = Pick<
+  UserPreference,
+  | "includeSportTypes"
+  | "excludeSportTypes"
+  | "skipPrivate"
+  | "skipTrainer"
+  | "minDurationMinutes"
+  | "skipWithoutMovement"
+>;
+
+/**
+ * Activity fields the rules look at
+ */
+export interface RuleActivity {
+  type: string;
+  private?: boolean;
+  trainer?: boolean;
+  distance: number;
+  moving_time: number;
+  elapsed_time: number;
+}
+
+/**
+ * Find the first rule that opts an activity out of weather
+ *
+ * Sport types are compared case-insensitively. An empty include list
+ * allows every sport type. Virtual activities (e.g. VirtualRide) count
+ * as trainer activities.
+ *
+ * @param activity - Activity details from Strava
+ * @param rules - User activity rules
+ * @returns Reason naming the matching rule, or null to process the activity
+ */
+export function findOptOutRule(
+  activity: RuleActivity,
+  rules: ActivityRules,
+): string | null {
+  const type = activity.type.toLowerCase();
+  const matches = (types: string[]) =>
+    types.some((candidate) => candidate.toLowerCase() === type);
+
+  if (rules.includeSportTypes.length > 0 && !matches(rules.includeSportTypes)) {
+    return `Sport type ${activity.type} not included`;
+  }
+  if (matches(rules.excludeSportTypes)) {
+    return `Sport type ${activity.type} excluded`;
+  }
+  if (rules.skipPrivate && activity.private) {
+    return "Private activity";
+  }
+  if (rules.skipTrainer && (activity.trainer || type.startsWith("virtual"))) {
+    return "Trainer or virtual activity";
+  }
+  if (
+    rules.minDurationMinutes &&
+    activity.elapsed_time < rules.minDurationMinutes * 60
+  ) {
+    return `Shorter than ${rules.minDurationMinutes} minutes`;
+  }
+  if (
+    rules.skipWithoutMovement &&
+    (activity.distance === 0 || activity.moving_time === 0)
+  ) {
+    return "No movement";
+  }
+
+  return null;
+}
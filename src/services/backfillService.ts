@@ -0,0 +1,184 @@
+import {
+  userRepository,
+  backfillJobRepository,
+  UniqueConstraintError,
+  type ActivityOutcome,
+  type BackfillJob,
+} from "../lib";
+import { activityProcessor, type ProcessingResult } from "./activityProcessor";
+import { stravaApiService } from "./stravaApi";
+import { userTokenService } from "./userTokenService";
+import { createServiceLogger } from "../utils/logger";
+
+const logger = createServiceLogger("BackfillService");
+
+/**
+ * Backfill configuration
+ */
+export const BACKFILL_CONFIG = {
+  PAGE_SIZE: 50,
+  // Running jobs heartbeat well within this, so only a job whose process
+  // died goes this long without an update
+  STALE_AFTER_MS: 30 * 60 * 1000,
+  // Running jobs refresh their row this often, so a job waiting out a
+  // drained daily budget is not mistaken for a dead one
+  HEARTBEAT_INTERVAL_MS: 10 * 60 * 1000,
+} as const;
+
+/**
+ * Backfill service
+ *
+ * Adds weather to a user's past activities. Each backfill runs in the
+ * background, walking the athlete's activity list page by page and
+ * processing every activity through the activity processor. All Strava
+ * calls go through the StravaApiService rate limiter, so a large backfill
+ * slows down rather than exhausting the API quota.
+ */
+export class BackfillService {
+  private readonly running = new Map<number, Promise<void>>();
+  private stopping = false;
+
+  /**
+   * Start a backfill for the given date range
+   *
+   * @returns The new job, or the user's unfinished job with created=false
+   */
+  async start(
+    userId: string,
+    range: { after: Date; before: Date },
+  ): Promise<{ job: BackfillJob; created: boolean }> {
+    await backfillJobRepository.failStale(BACKFILL_CONFIG.STALE_AFTER_MS);
+
+    const active = await backfillJobRepository.findActiveByUser(userId);
+    if (active) {
+      return { job: active, created: false };
+    }
+
+    let job: BackfillJob;
+    try {
+      job = await backfillJobRepository.create({ userId, ...range });
+    } catch (error) {
+      // Another request started a backfill for this user concurrently
+      const concurrent =
+        error instanceof UniqueConstraintError &&
+        (await backfillJobRepository.findActiveByUser(userId));
+      if (concurrent) {
+        return { job: concurrent, created: false };
+      }
+      throw error;
+    }
+
+    const run = this.run(job).finally(() => this.running.delete(job.id));
+    this.running.set(job.id, run);
+
+    return { job, created: true };
+  }
+
+  /**
+   * Stop running backfills after their current activity
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    await Promise.all(this.running.values());
+  }
+
+  private async run(job: BackfillJob): Promise<void> {
+    const jobLogger = logger.child({ jobId: job.id, userId: job.user_id });
+
+    const heartbeat = setInterval(() => {
+      // Already logged by the repository; retried on the next tick
+      backfillJobRepository.touch(job.id).catch(() => undefined);
+    }, BACKFILL_CONFIG.HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+
+    try {
+      await backfillJobRepository.markRunning(job.id);
+      jobLogger.info("Backfill started", {
+        after: job.after_date,
+        before: job.before_date,
+      });
+
+      for (let page = 1; ; page++) {
+        const accessToken = await this.getAccessToken(job.user_id);
+        const activities = await stravaApiService.listActivities(
+          accessToken,
+          {
+            after: job.after_date,
+            before: job.before_date,
+            page,
+            perPage: BACKFILL_CONFIG.PAGE_SIZE,
+          },
+          "bulk",
+        );
+
+        if (activities.length > 0) {
+          await backfillJobRepository.addActivitiesFound(
+            job.id,
+            activities.length,
+          );
+        }
+
+        for (const activity of activities) {
+          if (this.stopping) {
+            await backfillJobRepository.fail(
+              job.id,
+              "Backfill interrupted by server shutdown",
+            );
+            jobLogger.warn("Backfill interrupted by shutdown");
+            return;
+          }
+
+          const result = await activityProcessor.processActivity(
+            activity.id.toString(),
+            job.user_id,
+            0,
+            "bulk",
+          );
+          await backfillJobRepository.recordOutcome(
+            job.id,
+            this.getOutcome(result),
+          );
+        }
+
+        if (activities.length < BACKFILL_CONFIG.PAGE_SIZE) {
+          break;
+        }
+      }
+
+      await backfillJobRepository.complete(job.id);
+      jobLogger.info("Backfill completed");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      jobLogger.error("Backfill failed", { error: message });
+
+      try {
+        await backfillJobRepository.fail(job.id, message);
+      } catch {
+        // Already logged by the repository; failStale will clean up
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Get a valid access token, persisting it if it had to be refreshed
+   */
+  private async getAccessToken(userId: string): Promise<string> {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const tokenData = await userTokenService.ensureValidToken(user);
+    return tokenData.accessToken;
+  }
+
+  private getOutcome(result: ProcessingResult): ActivityOutcome {
+    if (result.skipped || result.inProgress) return "skipped";
+    return result.success ? "success" : "failed";
+  }
+}
+
+// Export singleton instance
+export const backfillService = new BackfillService();
@@ -0,0 +1,99 @@
+import { config } from "../config/environment";
+import { metricsService } from "./metricsService";
+import { createServiceLogger } from "../utils/logger";
+
+const logger = createServiceLogger("MetricsRetentionJob");
+
+/**
+ * Metrics retention configuration
+ */
+export const METRICS_RETENTION_CONFIG = {
+  POLL_INTERVAL_MS: 60 * 60 * 1000,
+  PRUNE_BATCH_SIZE: 5000,
+} as const;
+
+/**
+ * Background job that rolls raw metrics up by hour and prunes old rows
+ *
+ * Raw rows are kept for METRICS_RAW_RETENTION_DAYS; hourly rollups are
+ * kept indefinitely so long-range stats survive pruning.
+ */
+export class MetricsRetentionJob {
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info("Metrics retention job started", {
+      rawRetentionDays: config.METRICS_RAW_RETENTION_DAYS,
+    });
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await this.currentRun;
+    logger.info("Metrics retention job stopped");
+  }
+
+  /**
+   * Roll up complete hours, then prune raw rows past retention
+   *
+   * Rolling up first means pruning never drops data that has no rollup.
+   */
+  async runOnce(): Promise<{ hoursRolledUp: number; pruned: number }> {
+    const hoursRolledUp = await metricsService.rollupHourly();
+    const pruned = await metricsService.pruneRaw(
+      new Date(
+        Date.now() - config.METRICS_RAW_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+      ),
+      METRICS_RETENTION_CONFIG.PRUNE_BATCH_SIZE,
+    );
+
+    logger.info("Metrics retention run completed", { hoursRolledUp, pruned });
+    return { hoursRolledUp, pruned };
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.currentRun = this.poll();
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.runOnce();
+    } catch (error) {
+      logger.error("Metrics retention run failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      this.currentRun = null;
+      this.schedule(METRICS_RETENTION_CONFIG.POLL_INTERVAL_MS);
+    }
+  }
+}
+
+// Export singleton instance
+export const metricsRetentionJob = new MetricsRetentionJob();
@@ -1,6 +1,18 @@
 import { database as db } from "../lib";
+import type { MetricsTable } from "../lib/database";
+import { config } from "../config/environment";
 import { createServiceLogger } from "../utils/logger";
 import { sql } from "kysely";
+import {
+  apiCallDuration,
+  apiCallsTotal,
+  metricsDroppedTotal,
+  toStatusClass,
+  tokenRefreshDuration,
+  tokenRefreshTotal,
+  webhookProcessingDuration,
+  webhookProcessingTotal,
+} from "./prometheusMetrics";
 
 const logger = createServiceLogger("MetricsService");
 
@@ -13,42 +25,360 @@ interface MetricData {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Metric write buffering
+ */
+export const METRICS_BUFFER_CONFIG = {
+  FLUSH_INTERVAL_MS: 5 * 1000,
+  BATCH_SIZE: 500,
+  // Metrics arriving while this many are waiting are dropped
+  MAX_BUFFER_SIZE: 10_000,
+} as const;
+
+/**
+ * Duration percentiles in milliseconds
+ */
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * Latency for one API endpoint and response status class
+ */
+export interface ApiEndpointStats {
+  endpoint: string;
+  status_class: string;
+  count: number;
+  avg_duration_ms: number;
+  percentiles_ms: LatencyPercentiles;
+}
+
+/**
+ * Latency and success rate for one external API
+ */
+export interface ApiStats {
+  avg_duration_ms: number;
+  success_rate: number;
+  percentiles_ms: LatencyPercentiles;
+  endpoints: ApiEndpointStats[];
+}
+
+/**
+ * Aggregated metrics over a time range
+ */
+export interface MetricsStats {
+  webhook_processing: {
+    count: number;
+    success_rate: number;
+    avg_duration_ms: number;
+    p95_duration_ms: number;
+    percentiles_ms: LatencyPercentiles;
+    avg_retry_count: number;
+  };
+  api_performance: {
+    strava: ApiStats;
+    weather: ApiStats;
+  };
+  token_refresh: {
+    success_rate: number;
+    avg_duration_ms: number;
+  };
+  // True when percentiles were merged from hourly rollups
+  percentiles_approximate: boolean;
+}
+
+/**
+ * Time bucket widths for metric series, in seconds
+ */
+export const METRICS_BUCKETS = {
+  "5m": 5 * 60,
+  "15m": 15 * 60,
+  "1h": 60 * 60,
+  "6h": 6 * 60 * 60,
+  "1d": 24 * 60 * 60,
+} as const;
+
+export type MetricsBucket = keyof typeof METRICS_BUCKETS;
+
+/**
+ * One metric aggregated over a time bucket
+ */
+export interface MetricsSeriesPoint {
+  bucket_start: string;
+  metric_type: MetricType;
+  metric_name: string;
+  count: number;
+  success_rate: number;
+  avg_duration_ms: number;
+  percentiles_ms: LatencyPercentiles;
+  // True when percentiles were merged from more than one rollup group
+  percentiles_approximate: boolean;
+}
+
+// Response status class, e.g. "2xx", or "error" when no response arrived
+const STATUS_CLASS = sql<string>`CASE WHEN metadata->>'status_code' IS NULL THEN 'error' ELSE left(metadata->>'status_code', 1) || 'xx' END`;
+
+/**
+ * Continuous (interpolated) duration percentiles for a group of metrics
+ */
+const percentileColumns = () =>
+  ([50, 90, 95, 99] as const).map((percent) =>
+    sql<number>`percentile_cont(${sql.lit(percent / 100)}) WITHIN GROUP (ORDER BY value)`.as(
+      `p${percent}`,
+    ),
+  );
+
+const PERCENTILE_KEYS = ["p50", "p90", "p95", "p99"] as const;
+
+const toPercentiles = (
+  row?: Partial<Record<"p50" | "p90" | "p95" | "p99", unknown>>,
+): LatencyPercentiles => ({
+  p50: Number(row?.p50 || 0),
+  p90: Number(row?.p90 || 0),
+  p95: Number(row?.p95 || 0),
+  p99: Number(row?.p99 || 0),
+});
+
+const HOUR_SECONDS = 60 * 60;
+const HOUR_MS = HOUR_SECONDS * 1000;
+
+// Ranges longer than this read hourly rollups instead of raw rows
+const RAW_STATS_MAX_RANGE_MS = 7 * 24 * HOUR_MS;
+
+// Range used when no start date is given
+const DEFAULT_RANGE_MS = 7 * 24 * HOUR_MS;
+
+// 1 for successful metrics, 0 otherwise
+const SUCCESS_FLAG = sql<number>`CASE WHEN (metadata->>'success')::boolean = true THEN 1 ELSE 0 END`;
+
+// Rollup grouping columns; only API calls have endpoints and status classes
+const ROLLUP_ENDPOINT = sql<string>`CASE WHEN metric_type = 'api_call' THEN coalesce(metadata->>'endpoint', 'unknown') ELSE '' END`;
+const ROLLUP_STATUS_CLASS = sql<string>`CASE WHEN metric_type = 'api_call' THEN ${STATUS_CLASS} ELSE '' END`;
+const HOUR_START = sql<Date>`to_timestamp(floor(extract(epoch from created_at) / ${sql.lit(HOUR_SECONDS)}) * ${sql.lit(HOUR_SECONDS)})`;
+
+/**
+ * Totals for one rollup group, with percentiles summed weighted by count
+ *
+ * Percentiles cannot be merged exactly across hours, so combined
+ * percentiles are the count-weighted mean of the hourly ones.
+ */
+interface RollupAggregate {
+  metric_type: MetricType;
+  metric_name: string;
+  endpoint: string;
+  status_class: string;
+  count: number;
+  success_count: number;
+  value_sum: number;
+  retry_sum: number;
+  weighted: LatencyPercentiles;
+}
+
+/**
+ * Raw rows aggregated the way they are rolled up
+ */
+const rawRollupColumns = () => [
+  "metric_type" as const,
+  "metric_name" as const,
+  ROLLUP_ENDPOINT.as("endpoint"),
+  ROLLUP_STATUS_CLASS.as("status_class"),
+  db.fn.countAll<number>().as("count"),
+  db.fn.sum<number>(SUCCESS_FLAG).as("success_count"),
+  db.fn.sum<number>("value").as("value_sum"),
+  sql<number>`coalesce(sum((metadata->>'retry_count')::numeric), 0)`.as(
+    "retry_sum",
+  ),
+  ...percentileColumns(),
+];
+
+const ROLLUP_GROUP_BY = [
+  "metric_type",
+  "metric_name",
+  ROLLUP_ENDPOINT,
+  ROLLUP_STATUS_CLASS,
+] as const;
+
+/**
+ * Hourly rollup rows summed per group, percentiles weighted by count
+ */
+const hourlyRollupColumns = () => [
+  "metric_type" as const,
+  "metric_name" as const,
+  "endpoint" as const,
+  "status_class" as const,
+  db.fn.sum<number>("count").as("count"),
+  db.fn.sum<number>("success_count").as("success_count"),
+  db.fn.sum<number>("value_sum").as("value_sum"),
+  db.fn.sum<number>("retry_sum").as("retry_sum"),
+  ...PERCENTILE_KEYS.map((key) =>
+    sql<number>`sum(${sql.ref(key)} * count)`.as(key),
+  ),
+];
+
+const toRollupAggregate = (
+  row: Omit<RollupAggregate, "weighted"> &
+    Record<(typeof PERCENTILE_KEYS)[number], unknown>,
+  weighted: boolean,
+): RollupAggregate => {
+  const count = Number(row.count || 0);
+  const percentiles = toPercentiles(row);
+
+  return {
+    metric_type: row.metric_type,
+    metric_name: row.metric_name,
+    endpoint: row.endpoint,
+    status_class: row.status_class,
+    count,
+    success_count: Number(row.success_count || 0),
+    value_sum: Number(row.value_sum || 0),
+    retry_sum: Number(row.retry_sum || 0),
+    weighted: weighted
+      ? percentiles
+      : {
+          p50: percentiles.p50 * count,
+          p90: percentiles.p90 * count,
+          p95: percentiles.p95 * count,
+          p99: percentiles.p99 * count,
+        },
+  };
+};
+
+/**
+ * Combine rollup groups into rates, averages and percentiles
+ */
+function summarizeRollups(rows: RollupAggregate[]) {
+  const total = rows.reduce(
+    (sum, row) => ({
+      count: sum.count + row.count,
+      success_count: sum.success_count + row.success_count,
+      value_sum: sum.value_sum + row.value_sum,
+      retry_sum: sum.retry_sum + row.retry_sum,
+      weighted: {
+        p50: sum.weighted.p50 + row.weighted.p50,
+        p90: sum.weighted.p90 + row.weighted.p90,
+        p95: sum.weighted.p95 + row.weighted.p95,
+        p99: sum.weighted.p99 + row.weighted.p99,
+      },
+    }),
+    {
+      count: 0,
+      success_count: 0,
+      value_sum: 0,
+      retry_sum: 0,
+      weighted: { p50: 0, p90: 0, p95: 0, p99: 0 },
+    },
+  );
+  const per = (value: number) => (total.count > 0 ? value / total.count : 0);
+
+  return {
+    count: total.count,
+    success_rate: per(total.success_count),
+    avg_duration_ms: per(total.value_sum),
+    avg_retry_count: per(total.retry_sum),
+    percentiles_ms: {
+      p50: per(total.weighted.p50),
+      p90: per(total.weighted.p90),
+      p95: per(total.weighted.p95),
+      p99: per(total.weighted.p99),
+    },
+  };
+}
+
 /**
  * Simple metrics service for tracking API performance
  * Provides just enough observability for portfolio metrics
+ *
+ * Metrics are buffered in memory and written in batches, so recording never
+ * waits on the database. Call start() to flush on an interval and stop() to
+ * flush what is left on shutdown.
  */
 export class MetricsService {
+  private buffer: Omit<MetricsTable, "id">[] = [];
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentFlush: Promise<void> | null = null;
+  private dropped = 0;
+  private droppedSinceFlush = 0;
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.schedule();
+  }
+
   /**
-   * Record a metric value
-   */
-  async record(data: MetricData): Promise<void> {
-    try {
-      await db
-        .insertInto("metrics")
-        .values({
-          metric_type: data.metric_type,
-          metric_name: data.metric_name,
-          value: data.value,
-          metadata: data.metadata ? JSON.stringify(data.metadata) : null,
-          created_at: new Date(),
-        })
-        .execute();
-    } catch (error) {
-      // Don't let metrics failures break the app
-      logger.error("Failed to record metric", { error, data });
+   * Stop the flush timer and write everything still buffered
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
     }
+
+    await this.flush();
+  }
+
+  /**
+   * Total metrics dropped because the buffer was full
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Buffer a metric value for the next batched write
+   */
+  record(data: MetricData): void {
+    if (this.buffer.length >= METRICS_BUFFER_CONFIG.MAX_BUFFER_SIZE) {
+      this.drop(1);
+      return;
+    }
+
+    this.buffer.push({
+      metric_type: data.metric_type,
+      metric_name: data.metric_name,
+      value: data.value,
+      metadata: data.metadata ? JSON.stringify(data.metadata) : null,
+      created_at: new Date(),
+    });
+
+    if (this.buffer.length >= METRICS_BUFFER_CONFIG.BATCH_SIZE) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Write buffered metrics in multi-row inserts
+   *
+   * Concurrent calls share the in-flight flush.
+   */
+  flush(): Promise<void> {
+    this.currentFlush ??= this.writeBuffered().finally(() => {
+      this.currentFlush = null;
+    });
+    return this.currentFlush;
   }
 
   /**
    * Record webhook processing performance
    */
-  async recordWebhookProcessing(
+  recordWebhookProcessing(
     activityId: string,
     durationMs: number,
     success: boolean,
     retryCount: number = 0,
-  ): Promise<void> {
-    await this.record({
+  ): void {
+    webhookProcessingTotal.inc({ success: String(success) });
+    webhookProcessingDuration.observe({}, durationMs / 1000);
+
+    this.record({
       metric_type: "webhook_processing",
       metric_name: "strava_webhook",
       value: durationMs,
@@ -62,19 +392,30 @@ export class MetricsService {
 
   /**
    * Record API call performance
+   *
+   * @param metadata - Extra context such as the weather provider used
    */
-  async recordApiCall(
+  recordApiCall(
     apiName: string,
     endpoint: string,
     durationMs: number,
     statusCode?: number,
     error?: string,
-  ): Promise<void> {
-    await this.record({
+    metadata: Record<string, unknown> = {},
+  ): void {
+    apiCallsTotal.inc({
+      api: apiName,
+      endpoint,
+      status_class: toStatusClass(statusCode),
+    });
+    apiCallDuration.observe({ api: apiName, endpoint }, durationMs / 1000);
+
+    this.record({
       metric_type: "api_call",
       metric_name: apiName,
       value: durationMs,
       metadata: {
+        ...metadata,
         endpoint,
         status_code: statusCode,
         success: statusCode ? statusCode < 400 : false,
@@ -86,12 +427,15 @@ export class MetricsService {
   /**
    * Record token refresh attempt
    */
-  async recordTokenRefresh(
+  recordTokenRefresh(
     userId: number,
     success: boolean,
     durationMs: number,
-  ): Promise<void> {
-    await this.record({
+  ): void {
+    tokenRefreshTotal.inc({ success: String(success) });
+    tokenRefreshDuration.observe({}, durationMs / 1000);
+
+    this.record({
       metric_type: "token_refresh",
       metric_name: "oauth_token",
       value: durationMs,
@@ -104,25 +448,17 @@ export class MetricsService {
 
   /**
    * Get performance statistics for portfolio
+   *
+   * Long ranges, or ranges reaching past raw retention, read hourly rollups
+   * instead of raw rows; their percentiles are approximate.
    */
-  async getStats(since?: Date): Promise<{
-    webhook_processing: {
-      count: number;
-      success_rate: number;
-      avg_duration_ms: number;
-      p95_duration_ms: number;
-      avg_retry_count: number;
-    };
-    api_performance: {
-      strava: { avg_duration_ms: number; success_rate: number };
-      weather: { avg_duration_ms: number; success_rate: number };
-    };
-    token_refresh: {
-      success_rate: number;
-      avg_duration_ms: number;
-    };
-  }> {
-    const sinceDate = since || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000); // Last 7 days
+  async getStats(since?: Date): Promise<MetricsStats> {
+    const now = Date.now();
+    const sinceDate = since || new Date(now - DEFAULT_RANGE_MS);
+
+    if (this.readsRollups(now - sinceDate.getTime())) {
+      return this.getRollupStats(sinceDate);
+    }
 
     // Get webhook stats
     const webhookStats = await db
@@ -130,58 +466,56 @@ export class MetricsService {
       .select([
         db.fn.count<number>("id").as("count"),
         db.fn.avg<number>("value").as("avg_duration"),
-        db.fn
-          .sum<number>(
-            sql`CASE WHEN (metadata->>'success')::boolean = true THEN 1 ELSE 0 END`,
-          )
-          .as("success_count"),
+        db.fn.sum<number>(SUCCESS_FLAG).as("success_count"),
         db.fn
           .avg<number>(sql`(metadata->>'retry_count')::numeric`)
           .as("avg_retry"),
+        ...percentileColumns(),
       ])
       .where("metric_type", "=", "webhook_processing")
       .where("created_at", ">=", sinceDate)
       .executeTakeFirst();
 
-    // Get P95 for webhooks
-    const webhookP95 = await db
-      .selectFrom("metrics")
-      .select("value")
-      .where("metric_type", "=", "webhook_processing")
-      .where("created_at", ">=", sinceDate)
-      .orderBy("value", "desc")
-      .limit(1)
-      .offset(Math.floor((webhookStats?.count || 0) * 0.05))
-      .executeTakeFirst();
-
     // Get API stats
     const apiStats = await db
       .selectFrom("metrics")
       .select([
         "metric_name",
         db.fn.avg<number>("value").as("avg_duration"),
-        db.fn
-          .sum<number>(
-            sql`CASE WHEN (metadata->>'success')::boolean = true THEN 1 ELSE 0 END`,
-          )
-          .as("success_count"),
+        db.fn.sum<number>(SUCCESS_FLAG).as("success_count"),
         db.fn.count<number>("id").as("total_count"),
+        ...percentileColumns(),
       ])
       .where("metric_type", "=", "api_call")
       .where("created_at", ">=", sinceDate)
       .groupBy("metric_name")
       .execute();
 
+    // Break API calls down by endpoint and status class
+    const endpointStats = await db
+      .selectFrom("metrics")
+      .select([
+        "metric_name",
+        sql<string>`metadata->>'endpoint'`.as("endpoint"),
+        STATUS_CLASS.as("status_class"),
+        db.fn.avg<number>("value").as("avg_duration"),
+        db.fn.count<number>("id").as("total_count"),
+        ...percentileColumns(),
+      ])
+      .where("metric_type", "=", "api_call")
+      .where("created_at", ">=", sinceDate)
+      .groupBy(["metric_name", sql`metadata->>'endpoint'`, STATUS_CLASS])
+      .orderBy("metric_name")
+      .orderBy(sql`metadata->>'endpoint'`)
+      .orderBy(STATUS_CLASS)
+      .execute();
+
     // Get token refresh stats
     const tokenStats = await db
       .selectFrom("metrics")
       .select([
         db.fn.avg<number>("value").as("avg_duration"),
-        db.fn
-          .sum<number>(
-            sql`CASE WHEN (metadata->>'success')::boolean = true THEN 1 ELSE 0 END`,
-          )
-          .as("success_count"),
+        db.fn.sum<number>(SUCCESS_FLAG).as("success_count"),
         db.fn.count<number>("id").as("total_count"),
       ])
       .where("metric_type", "=", "token_refresh")
@@ -189,10 +523,28 @@ export class MetricsService {
       .executeTakeFirst();
 
     // Format the results
-    const stravaApi = apiStats.find((s: any) => s.metric_name === "strava_api");
-    const weatherApi = apiStats.find(
-      (s: any) => s.metric_name === "weather_api",
-    );
+    const formatApi = (apiName: string): ApiStats => {
+      const api = apiStats.find((s) => s.metric_name === apiName);
+      return {
+        avg_duration_ms: Number(api?.avg_duration || 0),
+        success_rate:
+          Number(api?.total_count || 0) > 0
+            ? Number(api?.success_count || 0) / Number(api?.total_count || 0)
+            : 0,
+        percentiles_ms: toPercentiles(api),
+        endpoints: endpointStats
+          .filter((row) => row.metric_name === apiName)
+          .map((row) => ({
+            endpoint: row.endpoint ?? "unknown",
+            status_class: row.status_class,
+            count: Number(row.total_count),
+            avg_duration_ms: Number(row.avg_duration || 0),
+            percentiles_ms: toPercentiles(row),
+          })),
+      };
+    };
+
+    const webhookPercentiles = toPercentiles(webhookStats);
 
     return {
       webhook_processing: {
@@ -203,26 +555,13 @@ export class MetricsService {
               Number(webhookStats?.count || 0)
             : 0,
         avg_duration_ms: Number(webhookStats?.avg_duration || 0),
-        p95_duration_ms: Number(webhookP95?.value || 0),
+        p95_duration_ms: webhookPercentiles.p95,
+        percentiles_ms: webhookPercentiles,
         avg_retry_count: Number(webhookStats?.avg_retry || 0),
       },
       api_performance: {
-        strava: {
-          avg_duration_ms: Number(stravaApi?.avg_duration || 0),
-          success_rate:
-            Number(stravaApi?.total_count || 0) > 0
-              ? Number(stravaApi?.success_count || 0) /
-                Number(stravaApi?.total_count || 0)
-              : 0,
-        },
-        weather: {
-          avg_duration_ms: Number(weatherApi?.avg_duration || 0),
-          success_rate:
-            Number(weatherApi?.total_count || 0) > 0
-              ? Number(weatherApi?.success_count || 0) /
-                Number(weatherApi?.total_count || 0)
-              : 0,
-        },
+        strava: formatApi("strava_api"),
+        weather: formatApi("weather_api"),
       },
       token_refresh: {
         success_rate:
@@ -232,8 +571,404 @@ export class MetricsService {
             : 0,
         avg_duration_ms: Number(tokenStats?.avg_duration || 0),
       },
+      percentiles_approximate: false,
+    };
+  }
+
+  /**
+   * Get metrics grouped into fixed time buckets for charting
+   *
+   * @param bucket - Bucket width, e.g. "1h"
+   * @param since - Start of the series (defaults to the last 7 days)
+   * @returns One point per bucket and metric that has data, oldest first
+   */
+  async getSeries(
+    bucket: MetricsBucket,
+    since?: Date,
+  ): Promise<MetricsSeriesPoint[]> {
+    const now = Date.now();
+    const sinceDate = since || new Date(now - DEFAULT_RANGE_MS);
+
+    // Sub-hour buckets cannot be served from hourly rollups
+    if (
+      METRICS_BUCKETS[bucket] >= HOUR_SECONDS &&
+      this.readsRollups(now - sinceDate.getTime())
+    ) {
+      return this.getRollupSeries(METRICS_BUCKETS[bucket], sinceDate);
+    }
+
+    const seconds = sql.lit(METRICS_BUCKETS[bucket]);
+    const bucketStart = sql<Date>`to_timestamp(floor(extract(epoch from created_at) / ${seconds}) * ${seconds})`;
+
+    const rows = await db
+      .selectFrom("metrics")
+      .select([
+        bucketStart.as("bucket_start"),
+        "metric_type",
+        "metric_name",
+        db.fn.count<number>("id").as("total_count"),
+        db.fn.avg<number>("value").as("avg_duration"),
+        db.fn.sum<number>(SUCCESS_FLAG).as("success_count"),
+        ...percentileColumns(),
+      ])
+      .where("created_at", ">=", sinceDate)
+      .groupBy([bucketStart, "metric_type", "metric_name"])
+      .orderBy(bucketStart)
+      .orderBy("metric_type")
+      .orderBy("metric_name")
+      .execute();
+
+    return rows.map((row) => ({
+      bucket_start: new Date(row.bucket_start).toISOString(),
+      metric_type: row.metric_type,
+      metric_name: row.metric_name,
+      count: Number(row.total_count),
+      success_rate:
+        Number(row.total_count) > 0
+          ? Number(row.success_count || 0) / Number(row.total_count)
+          : 0,
+      avg_duration_ms: Number(row.avg_duration || 0),
+      percentiles_ms: toPercentiles(row),
+      percentiles_approximate: false,
+    }));
+  }
+
+  /**
+   * Aggregate complete hours of raw metrics into metrics_hourly
+   *
+   * Re-aggregates the latest rolled-up hour so late writes are counted;
+   * the current hour is left until it is complete.
+   *
+   * @returns Number of hourly rows written
+   */
+  async rollupHourly(): Promise<number> {
+    const rolledUpThrough = await this.getRolledUpThrough();
+    const from = rolledUpThrough
+      ? new Date(rolledUpThrough.getTime() - HOUR_MS)
+      : null;
+    const to = new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS);
+
+    const result = await db
+      .insertInto("metrics_hourly")
+      .columns([
+        "bucket_start",
+        "metric_type",
+        "metric_name",
+        "endpoint",
+        "status_class",
+        "count",
+        "success_count",
+        "value_sum",
+        "retry_sum",
+        ...PERCENTILE_KEYS,
+      ])
+      .expression(
+        db
+          .selectFrom("metrics")
+          .select([HOUR_START.as("bucket_start"), ...rawRollupColumns()])
+          .$if(from !== null, (qb) => qb.where("created_at", ">=", from!))
+          .where("created_at", "<", to)
+          .groupBy([HOUR_START, ...ROLLUP_GROUP_BY]),
+      )
+      .onConflict((oc) =>
+        oc
+          .columns([
+            "bucket_start",
+            "metric_type",
+            "metric_name",
+            "endpoint",
+            "status_class",
+          ])
+          .doUpdateSet((eb) => ({
+            count: eb.ref("excluded.count"),
+            success_count: eb.ref("excluded.success_count"),
+            value_sum: eb.ref("excluded.value_sum"),
+            retry_sum: eb.ref("excluded.retry_sum"),
+            p50: eb.ref("excluded.p50"),
+            p90: eb.ref("excluded.p90"),
+            p95: eb.ref("excluded.p95"),
+            p99: eb.ref("excluded.p99"),
+          })),
+      )
+      .executeTakeFirst();
+
+    return Number(result.numInsertedOrUpdatedRows ?? 0);
+  }
+
+  /**
+   * Delete raw metrics older than the cutoff in batches
+   *
+   * Rows in hours that have not been rolled up yet are always kept.
+   *
+   * @returns Number of rows deleted
+   */
+  async pruneRaw(olderThan: Date, batchSize: number): Promise<number> {
+    const rolledUpThrough = await this.getRolledUpThrough();
+    if (!rolledUpThrough) {
+      return 0;
+    }
+
+    const cutoff = olderThan < rolledUpThrough ? olderThan : rolledUpThrough;
+    let deleted = 0;
+
+    while (true) {
+      const result = await db
+        .deleteFrom("metrics")
+        .where(
+          "id",
+          "in",
+          db
+            .selectFrom("metrics")
+            .select("id")
+            .where("created_at", "<", cutoff)
+            .limit(batchSize),
+        )
+        .executeTakeFirst();
+
+      const count = Number(result.numDeletedRows);
+      deleted += count;
+
+      if (count < batchSize) {
+        return deleted;
+      }
+    }
+  }
+
+  private schedule(): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      await this.flush();
+      this.schedule();
+    }, METRICS_BUFFER_CONFIG.FLUSH_INTERVAL_MS);
+  }
+
+  private drop(count: number): void {
+    this.dropped += count;
+    this.droppedSinceFlush += count;
+    metricsDroppedTotal.inc({}, count);
+  }
+
+  private async writeBuffered(): Promise<void> {
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.splice(0, METRICS_BUFFER_CONFIG.BATCH_SIZE);
+
+      try {
+        await db.insertInto("metrics").values(batch).execute();
+      } catch (error) {
+        // Don't let metrics failures break the app; keep what still fits
+        // for the next flush
+        const room = METRICS_BUFFER_CONFIG.MAX_BUFFER_SIZE - this.buffer.length;
+        this.buffer.unshift(...batch.slice(0, room));
+        this.drop(Math.max(batch.length - room, 0));
+
+        logger.error("Failed to write metrics", {
+          error: error instanceof Error ? error.message : "Unknown error",
+          count: batch.length,
+        });
+        return;
+      }
+    }
+
+    if (this.droppedSinceFlush > 0) {
+      logger.warn("Metrics buffer was full, metrics dropped", {
+        dropped: this.droppedSinceFlush,
+      });
+      this.droppedSinceFlush = 0;
+    }
+  }
+
+  /**
+   * Whether a range of the given length is served from rollups rather than
+   * raw rows
+   */
+  private readsRollups(rangeMs: number): boolean {
+    const rawRetentionMs = config.METRICS_RAW_RETENTION_DAYS * 24 * HOUR_MS;
+    return rangeMs > Math.min(RAW_STATS_MAX_RANGE_MS, rawRetentionMs);
+  }
+
+  /**
+   * End of the latest rolled-up hour, or null before the first rollup
+   */
+  private async getRolledUpThrough(): Promise<Date | null> {
+    const row = await db
+      .selectFrom("metrics_hourly")
+      .select(db.fn.max("bucket_start").as("latest"))
+      .executeTakeFirst();
+
+    return row?.latest
+      ? new Date(new Date(row.latest).getTime() + HOUR_MS)
+      : null;
+  }
+
+  /**
+   * Rollup groups since a date: whole rolled-up hours plus raw rows after
+   *
+   * The hour containing `since` is only counted once fully inside the range.
+   */
+  private async getRollupAggregates(
+    since: Date,
+    groupByBucket?: number,
+  ): Promise<(RollupAggregate & { bucket_start?: Date })[]> {
+    const rolledUpThrough = (await this.getRolledUpThrough()) ?? since;
+    const rawSince = rolledUpThrough > since ? rolledUpThrough : since;
+
+    const rollupBucket = groupByBucket
+      ? sql<Date>`to_timestamp(floor(extract(epoch from bucket_start) / ${sql.lit(groupByBucket)}) * ${sql.lit(groupByBucket)})`
+      : null;
+    const rawBucket = groupByBucket
+      ? sql<Date>`to_timestamp(floor(extract(epoch from created_at) / ${sql.lit(groupByBucket)}) * ${sql.lit(groupByBucket)})`
+      : null;
+
+    const [rolledUp, recent] = await Promise.all([
+      db
+        .selectFrom("metrics_hourly")
+        .select(hourlyRollupColumns())
+        .$if(rollupBucket !== null, (qb) =>
+          qb.select(rollupBucket!.as("bucket_start")),
+        )
+        .where("bucket_start", ">=", since)
+        .where("bucket_start", "<", rolledUpThrough)
+        .groupBy(["metric_type", "metric_name", "endpoint", "status_class"])
+        .$if(rollupBucket !== null, (qb) => qb.groupBy(rollupBucket!))
+        .execute(),
+      db
+        .selectFrom("metrics")
+        .select(rawRollupColumns())
+        .$if(rawBucket !== null, (qb) =>
+          qb.select(rawBucket!.as("bucket_start")),
+        )
+        .where("created_at", ">=", rawSince)
+        .groupBy([...ROLLUP_GROUP_BY])
+        .$if(rawBucket !== null, (qb) => qb.groupBy(rawBucket!))
+        .execute(),
+    ]);
+
+    const withBucket = (
+      row: { bucket_start?: Date },
+      aggregate: RollupAggregate,
+    ) =>
+      row.bucket_start
+        ? { ...aggregate, bucket_start: new Date(row.bucket_start) }
+        : aggregate;
+
+    return [
+      ...rolledUp.map((row) => withBucket(row, toRollupAggregate(row, true))),
+      ...recent.map((row) => withBucket(row, toRollupAggregate(row, false))),
+    ];
+  }
+
+  /**
+   * getStats served from hourly rollups
+   */
+  private async getRollupStats(since: Date): Promise<MetricsStats> {
+    const rows = await this.getRollupAggregates(since);
+    const ofType = (type: MetricType, name?: string) =>
+      rows.filter(
+        (row) =>
+          row.metric_type === type && (!name || row.metric_name === name),
+      );
+
+    const formatApi = (apiName: string): ApiStats => {
+      const apiRows = ofType("api_call", apiName);
+      const { avg_duration_ms, success_rate, percentiles_ms } =
+        summarizeRollups(apiRows);
+
+      const endpoints = new Map<string, RollupAggregate[]>();
+      for (const row of apiRows) {
+        const key = JSON.stringify([row.endpoint, row.status_class]);
+        endpoints.set(key, [...(endpoints.get(key) ?? []), row]);
+      }
+
+      return {
+        avg_duration_ms,
+        success_rate,
+        percentiles_ms,
+        endpoints: [...endpoints.values()]
+          .map((group) => {
+            const summary = summarizeRollups(group);
+            return {
+              endpoint: group[0]!.endpoint,
+              status_class: group[0]!.status_class,
+              count: summary.count,
+              avg_duration_ms: summary.avg_duration_ms,
+              percentiles_ms: summary.percentiles_ms,
+            };
+          })
+          .sort(
+            (a, b) =>
+              a.endpoint.localeCompare(b.endpoint) ||
+              a.status_class.localeCompare(b.status_class),
+          ),
+      };
+    };
+
+    const webhook = summarizeRollups(ofType("webhook_processing"));
+    const token = summarizeRollups(ofType("token_refresh"));
+
+    return {
+      webhook_processing: {
+        count: webhook.count,
+        success_rate: webhook.success_rate,
+        avg_duration_ms: webhook.avg_duration_ms,
+        p95_duration_ms: webhook.percentiles_ms.p95,
+        percentiles_ms: webhook.percentiles_ms,
+        avg_retry_count: webhook.avg_retry_count,
+      },
+      api_performance: {
+        strava: formatApi("strava_api"),
+        weather: formatApi("weather_api"),
+      },
+      token_refresh: {
+        success_rate: token.success_rate,
+        avg_duration_ms: token.avg_duration_ms,
+      },
+      percentiles_approximate: true,
     };
   }
+
+  /**
+   * getSeries served from hourly rollups, for buckets of an hour or more
+   */
+  private async getRollupSeries(
+    bucketSeconds: number,
+    since: Date,
+  ): Promise<MetricsSeriesPoint[]> {
+    const rows = await this.getRollupAggregates(since, bucketSeconds);
+
+    const points = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const key = JSON.stringify([
+        row.bucket_start!.toISOString(),
+        row.metric_type,
+        row.metric_name,
+      ]);
+      points.set(key, [...(points.get(key) ?? []), row]);
+    }
+
+    return [...points.values()]
+      .map((group) => {
+        const summary = summarizeRollups(group);
+        return {
+          bucket_start: group[0]!.bucket_start!.toISOString(),
+          metric_type: group[0]!.metric_type,
+          metric_name: group[0]!.metric_name,
+          count: summary.count,
+          success_rate: summary.success_rate,
+          avg_duration_ms: summary.avg_duration_ms,
+          percentiles_ms: summary.percentiles_ms,
+          percentiles_approximate: group.length > 1,
+        };
+      })
+      .sort(
+        (a, b) =>
+          a.bucket_start.localeCompare(b.bucket_start) ||
+          a.metric_type.localeCompare(b.metric_type) ||
+          a.metric_name.localeCompare(b.metric_name),
+      );
+  }
 }
 
 export const metricsService = new MetricsService();
@@ -0,0 +1,185 @@
+import axios from "axios";
+import type { WeatherData } from "./weatherService";
+
+/**
+ * Open-Meteo hourly response (the forecast and archive APIs share it)
+ */
+interface OpenMeteoHourlyResponse {
+  hourly: {
+    time: number[];
+    temperature_2m: Array<number | null>;
+    apparent_temperature: Array<number | null>;
+    relative_humidity_2m: Array<number | null>;
+    surface_pressure: Array<number | null>;
+    cloud_cover: Array<number | null>;
+    wind_speed_10m: Array<number | null>;
+    wind_direction_10m: Array<number | null>;
+    wind_gusts_10m: Array<number | null>;
+    weather_code: Array<number | null>;
+    is_day: Array<number | null>;
+  };
+}
+
+export const OPEN_METEO_CONFIG = {
+  API_TIMEOUT_MS: 5000,
+  HOURLY_VARIABLES: [
+    "temperature_2m",
+    "apparent_temperature",
+    "relative_humidity_2m",
+    "surface_pressure",
+    "cloud_cover",
+    "wind_speed_10m",
+    "wind_direction_10m",
+    "wind_gusts_10m",
+    "weather_code",
+    "is_day",
+  ],
+  DEFAULT_VISIBILITY_KM: 10, // Model data has no visibility
+} as const;
+
+/**
+ * WMO weather interpretation codes mapped to OpenWeatherMap-style
+ * conditions and icon codes, so Open-Meteo data renders like OpenWeatherMap
+ */
+const WMO_CONDITIONS: Record<
+  number,
+  { condition: string; description: string; icon: string }
+> = {
+  0: { condition: "Clear", description: "clear sky", icon: "01" },
+  1: { condition: "Clouds", description: "mainly clear", icon: "02" },
+  2: { condition: "Clouds", description: "partly cloudy", icon: "03" },
+  3: { condition: "Clouds", description: "overcast", icon: "04" },
+  45: { condition: "Fog", description: "fog", icon: "50" },
+  48: { condition: "Fog", description: "depositing rime fog", icon: "50" },
+  51: { condition: "Drizzle", description: "light drizzle", icon: "09" },
+  53: { condition: "Drizzle", description: "moderate drizzle", icon: "09" },
+  55: { condition: "Drizzle", description: "dense drizzle", icon: "09" },
+  56: { condition: "Drizzle", description: "freezing drizzle", icon: "09" },
+  57: { condition: "Drizzle", description: "freezing drizzle", icon: "09" },
+  61: { condition: "Rain", description: "light rain", icon: "10" },
+  63: { condition: "Rain", description: "moderate rain", icon: "10" },
+  65: { condition: "Rain", description: "heavy rain", icon: "10" },
+  66: { condition: "Rain", description: "freezing rain", icon: "13" },
+  67: { condition: "Rain", description: "freezing rain", icon: "13" },
+  71: { condition: "Snow", description: "light snow", icon: "13" },
+  73: { condition: "Snow", description: "moderate snow", icon: "13" },
+  75: { condition: "Snow", description: "heavy snow", icon: "13" },
+  77: { condition: "Snow", description: "snow grains", icon: "13" },
+  80: { condition: "Rain", description: "light rain showers", icon: "09" },
+  81: { condition: "Rain", description: "rain showers", icon: "09" },
+  82: { condition: "Rain", description: "violent rain showers", icon: "09" },
+  85: { condition: "Snow", description: "snow showers", icon: "13" },
+  86: { condition: "Snow", description: "heavy snow showers", icon: "13" },
+  95: { condition: "Thunderstorm", description: "thunderstorm", icon: "11" },
+  96: {
+    condition: "Thunderstorm",
+    description: "thunderstorm with hail",
+    icon: "11",
+  },
+  99: {
+    condition: "Thunderstorm",
+    description: "thunderstorm with heavy hail",
+    icon: "11",
+  },
+};
+
+/**
+ * Thrown when an Open-Meteo response has no data for the requested day
+ */
+export class NoWeatherDataError extends Error {
+  constructor() {
+    super("No weather data available for this time");
+    this.name = "NoWeatherDataError";
+  }
+}
+
+/**
+ * Fetch the hour closest to the given time from an Open-Meteo API
+ *
+ * @param url - Forecast or archive endpoint
+ * @param lat - Latitude
+ * @param lon - Longitude
+ * @param time - Target time
+ * @returns HTTP status and the formatted weather for the closest hour
+ * @throws Axios errors unchanged, or NoWeatherDataError when the day has no data
+ */
+export async function fetchOpenMeteoHourly(
+  url: string,
+  lat: number,
+  lon: number,
+  time: Date,
+): Promise<{ status: number; weather: WeatherData }> {
+  const day = time.toISOString().slice(0, 10);
+  const params = {
+    latitude: lat.toFixed(6),
+    longitude: lon.toFixed(6),
+    start_date: day,
+    end_date: day,
+    hourly: OPEN_METEO_CONFIG.HOURLY_VARIABLES.join(","),
+    wind_speed_unit: "ms",
+    timeformat: "unixtime",
+    timezone: "GMT",
+  };
+
+  const response = await axios.get<OpenMeteoHourlyResponse>(url, {
+    params,
+    timeout: OPEN_METEO_CONFIG.API_TIMEOUT_MS,
+  });
+
+  return {
+    status: response.status,
+    weather: formatHour(response.data.hourly, time),
+  };
+}
+
+/**
+ * Pick the hour closest to the target time and convert it to WeatherData
+ */
+function formatHour(
+  hourly: OpenMeteoHourlyResponse["hourly"],
+  time: Date,
+): WeatherData {
+  const target = time.getTime() / 1000;
+  let index = -1;
+
+  hourly.time.forEach((hour, i) => {
+    if (hourly.temperature_2m[i] === null) return;
+    if (
+      index === -1 ||
+      Math.abs(hour - target) < Math.abs(hourly.time[index]! - target)
+    ) {
+      index = i;
+    }
+  });
+
+  if (index === -1) {
+    throw new NoWeatherDataError();
+  }
+
+  const value = (series: Array<number | null>) => series[index] ?? 0;
+  const conditions = WMO_CONDITIONS[value(hourly.weather_code)] ?? {
+    condition: "Unknown",
+    description: "unknown",
+    icon: "03",
+  };
+  const gust = hourly.wind_gusts_10m[index];
+
+  return {
+    temperature: Math.round(value(hourly.temperature_2m)),
+    temperatureFeel: Math.round(value(hourly.apparent_temperature)),
+    humidity: value(hourly.relative_humidity_2m),
+    pressure: Math.round(value(hourly.surface_pressure)),
+    windSpeed: Math.round(value(hourly.wind_speed_10m) * 10) / 10,
+    windDirection: value(hourly.wind_direction_10m),
+    windGust:
+      gust !== null && gust !== undefined
+        ? Math.round(gust * 10) / 10
+        : undefined,
+    cloudCover: value(hourly.cloud_cover),
+    visibility: OPEN_METEO_CONFIG.DEFAULT_VISIBILITY_KM,
+    condition: conditions.condition,
+    description: conditions.description,
+    icon: `${conditions.icon}${hourly.is_day[index] === 0 ? "n" : "d"}`,
+    timestamp: new Date(hourly.time[index]! * 1000).toISOString(),
+  };
+}
@@ -0,0 +1,77 @@
+import { Counter, Histogram, Registry } from "../utils/prometheus";
+
+/**
+ * Prometheus metrics kept in process memory
+ *
+ * Complements the metrics table: these are cheap to update on every call
+ * and reset on restart, so they suit scraping rather than history.
+ * Durations are in seconds, following Prometheus conventions.
+ */
+export const metricsRegistry = new Registry();
+
+// Webhook processing can include several slow external calls
+const PROCESSING_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export const webhookProcessingTotal = metricsRegistry.register(
+  new Counter(
+    "webhook_processing_total",
+    "Activities processed from Strava webhooks",
+    ["success"],
+  ),
+);
+
+export const webhookProcessingDuration = metricsRegistry.register(
+  new Histogram(
+    "webhook_processing_duration_seconds",
+    "Time to process an activity from a Strava webhook",
+    [],
+    PROCESSING_BUCKETS,
+  ),
+);
+
+export const apiCallsTotal = metricsRegistry.register(
+  new Counter(
+    "api_calls_total",
+    "Calls to external APIs by endpoint and response status class",
+    ["api", "endpoint", "status_class"],
+  ),
+);
+
+export const apiCallDuration = metricsRegistry.register(
+  new Histogram("api_call_duration_seconds", "External API call duration", [
+    "api",
+    "endpoint",
+  ]),
+);
+
+export const tokenRefreshTotal = metricsRegistry.register(
+  new Counter("token_refresh_total", "Strava token refreshes", ["success"]),
+);
+
+export const tokenRefreshDuration = metricsRegistry.register(
+  new Histogram(
+    "token_refresh_duration_seconds",
+    "Strava token refresh duration",
+  ),
+);
+
+export const metricsDroppedTotal = metricsRegistry.register(
+  new Counter(
+    "metrics_dropped_total",
+    "Metrics dropped because the write buffer was full",
+  ),
+);
+
+export const httpRequestDuration = metricsRegistry.register(
+  new Histogram(
+    "http_request_duration_seconds",
+    "HTTP request duration by route and response status class",
+    ["method", "route", "status_class"],
+  ),
+);
+
+/**
+ * Group a status code into its class, e.g. 404 becomes "4xx"
+ */
+export const toStatusClass = (statusCode?: number): string =>
+  statusCode ? `${String(statusCode)[0]}xx` : "error";
@@ -0,0 +1,212 @@
+import {
+  bearingBetween,
+  decodePolyline,
+  distanceBetween,
+  pointAlongRoute,
+  type LatLng,
+} from "../utils/polyline";
+import type {
+  RouteSamplePoint,
+  RouteWeatherSample,
+  RouteWeatherSummary,
+  WindExposure,
+} from "./weatherService";
+
+/**
+ * Route weather configuration
+ */
+export const ROUTE_WEATHER_CONFIG = {
+  // Weather data is hourly, so shorter activities would sample the same hour
+  MIN_ELAPSED_SECONDS: 60 * 60,
+  PRECIPITATION_CONDITIONS: ["Drizzle", "Rain", "Snow", "Thunderstorm"],
+  // Travel within this angle of the wind direction counts as head/tailwind
+  HEADWIND_ANGLE_DEGREES: 45,
+} as const;
+
+/**
+ * Position of each sample point along the route, as a fraction of distance
+ */
+const SAMPLE_FRACTIONS: Record<RouteSamplePoint, number> = {
+  start: 0,
+  midpoint: 0.5,
+  finish: 1,
+};
+
+/**
+ * Where and when an activity passed a sample point
+ */
+export interface RoutePoint {
+  point: RouteSamplePoint;
+  lat: number;
+  lon: number;
+  time: Date;
+}
+
+/**
+ * Activity fields needed to place sample points along the route
+ */
+export interface RouteActivity {
+  start_date: string;
+  start_latlng: [number, number] | null;
+  end_latlng?: [number, number] | null;
+  elapsed_time: number;
+  map?: {
+    polyline?: string | null;
+    summary_polyline?: string | null;
+  };
+}
+
+/**
+ * Choose the start, midpoint and finish of an activity for weather sampling
+ *
+ * The midpoint is halfway along the route by distance. Times assume an even
+ * pace over the elapsed time, so the midpoint is passed halfway through.
+ * Without a polyline only the start and end coordinates are used.
+ *
+ * @param activity - Activity with start coordinates
+ * @returns Sample points in route order; only the start for short activities
+ */
+export function getRoutePoints(activity: RouteActivity): RoutePoint[] {
+  if (!activity.start_latlng) return [];
+
+  const startTime = new Date(activity.start_date);
+  const at = (
+    point: RouteSamplePoint,
+    [lat, lon]: LatLng,
+    fraction: number,
+  ) => ({
+    point,
+    lat,
+    lon,
+    time: new Date(
+      startTime.getTime() + activity.elapsed_time * fraction * 1000,
+    ),
+  });
+
+  const start = at("start", activity.start_latlng, 0);
+  if (activity.elapsed_time < ROUTE_WEATHER_CONFIG.MIN_ELAPSED_SECONDS) {
+    return [start];
+  }
+
+  const route = decodeRoute(activity);
+  const midpoint = pointAlongRoute(route, 0.5);
+  const finish = route[route.length - 1] ?? activity.end_latlng;
+
+  return [
+    start,
+    ...(midpoint ? [at("midpoint", midpoint, 0.5)] : []),
+    ...(finish ? [at("finish", finish, 1)] : []),
+  ];
+}
+
+/**
+ * Decode the activity route, preferring the full polyline over the summary
+ *
+ * @param activity - Activity with optional map data
+ * @returns Route points, empty when the activity has no polyline
+ */
+export function decodeRoute(activity: RouteActivity): LatLng[] {
+  const encoded = activity.map?.polyline || activity.map?.summary_polyline;
+  return encoded ? decodePolyline(encoded) : [];
+}
+
+/**
+ * Work out how much of the route was ridden into, with and across the wind
+ *
+ * Each route segment is compared with the wind at the nearest sample point.
+ * Segments are weighted by distance, which matches their share of moving
+ * time at an even pace.
+ *
+ * @param route - Route points in order
+ * @param samples - Weather samples in route order
+ * @returns Wind exposure, or null when the route has no distance
+ */
+export function getWindExposure(
+  route: LatLng[],
+  samples: RouteWeatherSample[],
+): WindExposure | null {
+  if (samples.length === 0) return null;
+
+  const segments = route.slice(1).map((point, i) => ({
+    from: route[i]!,
+    to: point,
+    length: distanceBetween(route[i]!, point),
+  }));
+  const total = segments.reduce((sum, segment) => sum + segment.length, 0);
+  if (total === 0) return null;
+
+  const distances = { headwind: 0, tailwind: 0, crosswind: 0 };
+  let travelled = 0;
+
+  for (const { from, to, length } of segments) {
+    if (length === 0) continue;
+
+    const fraction = (travelled + length / 2) / total;
+    const wind = samples.reduce((nearest, sample) =>
+      Math.abs(SAMPLE_FRACTIONS[sample.point] - fraction) <
+      Math.abs(SAMPLE_FRACTIONS[nearest.point] - fraction)
+        ? sample
+        : nearest,
+    ).weather;
+
+    // Wind direction is where the wind blows from, so heading straight
+    // into it means travelling on the same bearing
+    const angle = angleBetween(bearingBetween(from, to), wind.windDirection);
+    if (angle <= ROUTE_WEATHER_CONFIG.HEADWIND_ANGLE_DEGREES) {
+      distances.headwind += length;
+    } else if (angle >= 180 - ROUTE_WEATHER_CONFIG.HEADWIND_ANGLE_DEGREES) {
+      distances.tailwind += length;
+    } else {
+      distances.crosswind += length;
+    }
+    travelled += length;
+  }
+
+  // Round so the shares still add up to exactly 100
+  const headwind = Math.round((distances.headwind / total) * 100);
+  const tailwind = Math.min(
+    Math.round((distances.tailwind / total) * 100),
+    100 - headwind,
+  );
+
+  return { headwind, tailwind, crosswind: 100 - headwind - tailwind };
+}
+
+/**
+ * Smallest angle between two compass directions in degrees (0-180)
+ */
+function angleBetween(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+}
+
+/**
+ * Summarise the range of conditions across route samples
+ *
+ * @param samples - Weather samples in route order
+ * @returns Temperature range, precipitation seen and wind shift
+ */
+export function summarizeRouteWeather(
+  samples: RouteWeatherSample[],
+): RouteWeatherSummary {
+  const temperatures = samples.map((sample) => sample.weather.temperature);
+  const precipitation = samples
+    .map((sample) => sample.weather)
+    .filter((weather) =>
+      (
+        ROUTE_WEATHER_CONFIG.PRECIPITATION_CONDITIONS as readonly string[]
+      ).includes(weather.condition),
+    )
+    .map((weather) => weather.description);
+
+  const first = samples[0]?.weather.windDirection ?? 0;
+  const last = samples[samples.length - 1]?.weather.windDirection ?? 0;
+
+  return {
+    minTemperature: Math.min(...temperatures),
+    maxTemperature: Math.max(...temperatures),
+    precipitation: [...new Set(precipitation)],
+    windShift: angleBetween(first, last),
+    samples,
+  };
+}
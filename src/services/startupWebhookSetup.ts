@@ -1,5 +1,6 @@
 import { config } from "../config/environment";
 import { webhookSubscriptionService } from "./webhookSubscription";
+import { webhookRepository } from "../lib";
 import { logger } from "../utils/logger";
 
 /**
@@ -14,7 +15,7 @@ import { logger } from "../utils/logger";
  * Setup Strava webhook subscription on application startup
  *
  * This function:
- * 1. Checks for existing webhook subscriptions
+ * 1. Checks for existing webhook subscriptions, storing the id of one found
  * 2. Creates a new subscription if none exists
  * 3. Verifies endpoint accessibility before creation
  * 4. Handles different environments (production vs development)
@@ -43,6 +44,9 @@ export async function setupWebhookOnStartup(): Promise<void> {
         subscriptionId: existingSubscription.id,
         callbackUrl: existingSubscription.callback_url,
       });
+
+      // Covers subscriptions created before their id was stored
+      await webhookRepository.saveSubscription(existingSubscription);
       return;
     }
 
@@ -1,6 +1,8 @@
 import { config } from "../config/environment";
 import { logger } from "../utils/logger";
 import { metricsService } from "./metricsService";
+import { metricsRegistry } from "./prometheusMetrics";
+import { Gauge } from "../utils/prometheus";
 import Bottleneck from "bottleneck";
 
 /**
@@ -20,6 +22,11 @@ export interface StravaActivity {
   timezone: string;
   start_latlng: [number, number] | null;
   end_latlng: [number, number] | null;
+  map?: {
+    id: string;
+    polyline?: string | null;
+    summary_polyline: string | null;
+  };
   location_city?: string;
   location_state?: string;
   location_country?: string;
@@ -30,6 +37,7 @@ export interface StravaActivity {
   photo_count: number;
   description?: string;
   private: boolean;
+  trainer: boolean;
   visibility: string;
 }
 
@@ -50,22 +58,114 @@ interface TokenRefreshResponse {
   token_type: string;
 }
 
+/**
+ * Strava rate limit configuration
+ */
+export const STRAVA_RATE_LIMIT_CONFIG = {
+  // Strava resets the short-term window on the quarter hour and the daily
+  // window at midnight UTC
+  SHORT_WINDOW_MS: 15 * 60 * 1000,
+  DAY_MS: 24 * 60 * 60 * 1000,
+  // Strava's default application limits, used until a response reports
+  // the real ones
+  DEFAULT_SHORT_LIMIT: 200,
+  DEFAULT_DAILY_LIMIT: 2000,
+  // Share of each budget left unused for requests made outside the limiter
+  HEADROOM: 0.1,
+} as const;
+
+/**
+ * Priority lanes for Strava requests, highest priority first
+ *
+ * Each lane holds back a share of the 15-minute budget for the lanes above
+ * it, so bulk work stops short of the limit while webhooks keep flowing.
+ * Lower Bottleneck priorities run first. Requests that do not name a lane
+ * run in the manual lane.
+ */
+export const STRAVA_LANE_CONFIG = {
+  webhook: { PRIORITY: 0, RESERVE: 0 },
+  manual: { PRIORITY: 4, RESERVE: 0.1 },
+  bulk: { PRIORITY: 8, RESERVE: 0.3 },
+} as const;
+
+export type StravaLane = keyof typeof STRAVA_LANE_CONFIG;
+
+const STRAVA_LANES = Object.keys(STRAVA_LANE_CONFIG) as StravaLane[];
+
+/**
+ * Requests allowed and used in one rate limit window
+ */
+export interface RateLimitWindow {
+  limit: number;
+  usage: number;
+}
+
+/**
+ * Current Strava rate limit budget as last reported by Strava
+ */
+export interface RateLimitStatus {
+  shortTerm: RateLimitWindow;
+  daily: RateLimitWindow;
+  // Requests left to start before the tighter window runs out
+  reservoir: number;
+  // When Strava last reported usage; null until the first response
+  updatedAt: Date | null;
+}
+
+/**
+ * Parse a "15-minute,daily" rate limit header pair
+ */
+function parseRateLimitHeader(value: string | null): [number, number] | null {
+  const [shortTerm, daily] = (value ?? "").split(",").map(Number);
+  return Number.isFinite(shortTerm) && Number.isFinite(daily)
+    ? [shortTerm!, daily!]
+    : null;
+}
+
+/**
+ * Raised when Strava refuses to refresh an access token
+ */
+export class TokenRefreshError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "TokenRefreshError";
+  }
+
+  /**
+   * Whether the refresh token itself was rejected, so retrying cannot help
+   */
+  get isRevoked(): boolean {
+    return [400, 401, 403].includes(this.status);
+  }
+}
+
 export class StravaApiService {
   private readonly baseUrl = "https://www.strava.com/api/v3";
   private readonly tokenRefreshBuffer = 5 * 60 * 1000; // 5 minutes
   private readonly serviceLogger = logger.child({ service: "StravaAPI" });
   private readonly limiter: Bottleneck;
+  // One request per lane waits on the shared limiter at a time, so a lane
+  // cannot crowd the shared queue and its cap is checked against fresh usage
+  private readonly lanes: Record<StravaLane, Bottleneck>;
+  private readonly rateLimit: Omit<RateLimitStatus, "reservoir"> = {
+    shortTerm: {
+      limit: STRAVA_RATE_LIMIT_CONFIG.DEFAULT_SHORT_LIMIT,
+      usage: 0,
+    },
+    daily: { limit: STRAVA_RATE_LIMIT_CONFIG.DEFAULT_DAILY_LIMIT, usage: 0 },
+    updatedAt: null,
+  };
 
   constructor() {
-    // Configure Bottleneck for Strava's limits:
-    // - 200 requests per 15 minutes = ~13 per minute
-    // - 2000 requests per day = ~1.4 per minute
+    // The reservoir and spacing start from Strava's default limits and are
+    // resized from the X-RateLimit headers on every response, so they track
+    // usage by every instance sharing the application's budget
     this.limiter = new Bottleneck({
-      minTime: 6000, // Minimum 6 seconds between requests (10/min)
+      ...this.getLimiterSettings(),
       maxConcurrent: 1, // One request at a time
-      reservoir: 180, // Start with 180 requests available
-      reservoirRefreshAmount: 180,
-      reservoirRefreshInterval: 15 * 60 * 1000, // Refill every 15 min
 
       // Handle 429 responses automatically
       rejectOnDrop: false,
@@ -88,6 +188,19 @@ export class StravaApiService {
         "Rate limit reservoir depleted - queueing requests",
       );
     });
+
+    const { reservoir } = this.getLimiterSettings();
+    this.lanes = Object.fromEntries(
+      STRAVA_LANES.map((lane) => [
+        lane,
+        new Bottleneck({
+          maxConcurrent: 1,
+          reservoir: this.getLaneReservoir(lane, reservoir),
+        }),
+      ]),
+    ) as Record<StravaLane, Bottleneck>;
+
+    this.scheduleWindowReset();
   }
 
   /**
@@ -96,10 +209,14 @@ export class StravaApiService {
   async getActivity(
     activityId: string,
     accessToken: string,
+    lane: StravaLane = "manual",
   ): Promise<StravaActivity> {
-    return this.limiter.schedule(async () => {
+    return this.schedule(lane, async () => {
       this.serviceLogger.debug("Fetching activity from Strava", { activityId });
       const startTime = Date.now();
+      // Error responses are recorded with their status; only requests that
+      // never got one are recorded in the catch
+      let recorded = false;
 
       try {
         const response = await fetch(
@@ -113,14 +230,17 @@ export class StravaApiService {
         );
 
         const duration = Date.now() - startTime;
-        await metricsService.recordApiCall(
+        metricsService.recordApiCall(
           "strava_api",
-          `GET /activities/${activityId}`,
+          "GET /activities/{id}",
           duration,
           response.status,
+          undefined,
+          { activity_id: activityId },
         );
+        recorded = true;
 
-        this.logRateLimits(response, `GET /activities/${activityId}`);
+        this.trackRateLimits(response, `GET /activities/${activityId}`);
 
         if (!response.ok) {
           await this.handleApiError(response, "getActivity", { activityId });
@@ -136,17 +256,94 @@ export class StravaApiService {
 
         return activity;
       } catch (error) {
+        if (!recorded) {
+          metricsService.recordApiCall(
+            "strava_api",
+            "GET /activities/{id}",
+            Date.now() - startTime,
+            undefined,
+            error instanceof Error ? error.message : "Unknown error",
+            { activity_id: activityId },
+          );
+        }
+
+        this.serviceLogger.error("Failed to fetch activity", {
+          activityId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * List the athlete's activities within a time range, one page at a time
+   *
+   * Returns summary activities, which do not include descriptions.
+   */
+  async listActivities(
+    accessToken: string,
+    options: { after: Date; before: Date; page: number; perPage: number },
+    lane: StravaLane = "manual",
+  ): Promise<StravaActivity[]> {
+    return this.schedule(lane, async () => {
+      const params = new URLSearchParams({
+        after: Math.floor(options.after.getTime() / 1000).toString(),
+        before: Math.floor(options.before.getTime() / 1000).toString(),
+        page: options.page.toString(),
+        per_page: options.perPage.toString(),
+      });
+
+      this.serviceLogger.debug("Listing athlete activities from Strava", {
+        page: options.page,
+        perPage: options.perPage,
+      });
+      const startTime = Date.now();
+      let recorded = false;
+
+      try {
+        const response = await fetch(
+          `${this.baseUrl}/athlete/activities?${params}`,
+          {
+            headers: {
+              Authorization: `Bearer ${accessToken}`,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+
         const duration = Date.now() - startTime;
-        await metricsService.recordApiCall(
+        metricsService.recordApiCall(
           "strava_api",
-          `GET /activities/${activityId}`,
+          "GET /athlete/activities",
           duration,
-          undefined,
-          error instanceof Error ? error.message : "Unknown error",
+          response.status,
         );
+        recorded = true;
 
-        this.serviceLogger.error("Failed to fetch activity", {
-          activityId,
+        this.trackRateLimits(response, "GET /athlete/activities");
+
+        if (!response.ok) {
+          await this.handleApiError(response, "listActivities", {
+            page: options.page,
+          });
+        }
+
+        const activities: StravaActivity[] = await response.json();
+        return activities;
+      } catch (error) {
+        if (!recorded) {
+          metricsService.recordApiCall(
+            "strava_api",
+            "GET /athlete/activities",
+            Date.now() - startTime,
+            undefined,
+            error instanceof Error ? error.message : "Unknown error",
+          );
+        }
+
+        this.serviceLogger.error("Failed to list activities", {
+          page: options.page,
           error: error instanceof Error ? error.message : "Unknown error",
         });
         throw error;
@@ -161,8 +358,9 @@ export class StravaApiService {
     activityId: string,
     accessToken: string,
     updateData: StravaUpdateData,
+    lane: StravaLane = "manual",
   ): Promise<StravaActivity> {
-    return this.limiter.schedule(async () => {
+    return this.schedule(lane, async () => {
       this.serviceLogger.debug("Updating activity on Strava", {
         activityId,
         updateFields: Object.keys(updateData),
@@ -181,7 +379,7 @@ export class StravaApiService {
           },
         );
 
-        this.logRateLimits(response, `PUT /activities/${activityId}`);
+        this.trackRateLimits(response, `PUT /activities/${activityId}`);
 
         if (!response.ok) {
           await this.handleApiError(response, "updateActivity", { activityId });
@@ -231,8 +429,9 @@ export class StravaApiService {
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(
+        throw new TokenRefreshError(
           `Token refresh failed (${response.status}): ${errorText}`,
+          response.status,
         );
       }
 
@@ -256,41 +455,41 @@ export class StravaApiService {
   }
 
   /**
-   * Ensure token is valid, refresh if needed
+   * Whether an access token expires within the refresh buffer
    */
-  async ensureValidToken(
-    accessToken: string,
-    refreshToken: string,
-    expiresAt: Date,
-  ): Promise<{
-    accessToken: string;
-    refreshToken: string;
-    expiresAt: Date;
-    wasRefreshed: boolean;
-  }> {
-    const now = new Date();
-    const bufferTime = new Date(now.getTime() + this.tokenRefreshBuffer);
-
-    if (expiresAt <= bufferTime) {
-      this.serviceLogger.info("Access token expiring soon, refreshing", {
-        expiresAt: expiresAt.toISOString(),
-      });
-
-      const tokenData = await this.refreshAccessToken(refreshToken);
+  isTokenExpiring(expiresAt: Date): boolean {
+    return expiresAt.getTime() <= Date.now() + this.tokenRefreshBuffer;
+  }
 
-      return {
-        accessToken: tokenData.access_token,
-        refreshToken: tokenData.refresh_token,
-        expiresAt: new Date(tokenData.expires_at * 1000),
-        wasRefreshed: true,
-      };
-    }
+  /**
+   * Number of rate-limited requests in each lane by state
+   *
+   * A lane's "queued" requests wait for its turn or budget; "executing"
+   * ones are waiting on the shared limiter or in flight.
+   */
+  getQueueCounts(): Record<StravaLane, Record<string, number>> {
+    return Object.fromEntries(
+      STRAVA_LANES.map((lane) => [
+        lane,
+        Object.fromEntries(
+          Object.entries(this.lanes[lane].counts()).map(([state, count]) => [
+            state.toLowerCase(),
+            count ?? 0,
+          ]),
+        ),
+      ]),
+    ) as Record<StravaLane, Record<string, number>>;
+  }
 
+  /**
+   * Current rate limit usage and the limiter's remaining reservoir
+   */
+  getRateLimitStatus(): RateLimitStatus {
     return {
-      accessToken,
-      refreshToken,
-      expiresAt,
-      wasRefreshed: false,
+      shortTerm: { ...this.rateLimit.shortTerm },
+      daily: { ...this.rateLimit.daily },
+      reservoir: this.getLimiterSettings().reservoir,
+      updatedAt: this.rateLimit.updatedAt,
     };
   }
 
@@ -361,24 +560,157 @@ export class StravaApiService {
   }
 
   /**
-   * Just log the rate limits for monitoring
+   * Run a request in its lane, ahead of requests from lower lanes
+   */
+  private schedule<T>(lane: StravaLane, task: () => Promise<T>): Promise<T> {
+    return this.lanes[lane].schedule(() =>
+      this.limiter.schedule(
+        { priority: STRAVA_LANE_CONFIG[lane].PRIORITY },
+        task,
+      ),
+    );
+  }
+
+  /**
+   * Resize the limiter to the budget Strava reports on a response
+   */
+  private trackRateLimits(response: Response, endpoint: string): void {
+    const usage = parseRateLimitHeader(
+      response.headers.get("X-RateLimit-Usage"),
+    );
+    const limit = parseRateLimitHeader(
+      response.headers.get("X-RateLimit-Limit"),
+    );
+
+    if (!usage || !limit) {
+      return;
+    }
+
+    this.rateLimit.shortTerm = { limit: limit[0], usage: usage[0] };
+    this.rateLimit.daily = { limit: limit[1], usage: usage[1] };
+    this.rateLimit.updatedAt = new Date();
+    this.applyLimits();
+
+    this.serviceLogger.info("Strava rate limit", {
+      endpoint,
+      "15min": `${usage[0]}/${limit[0]}`,
+      daily: `${usage[1]}/${limit[1]}`,
+    });
+  }
+
+  /**
+   * Reservoir and request spacing for the current rate limit budget
+   *
+   * The reservoir is whichever window has less budget left; requests are
+   * spaced so a full short-term budget spreads across its window.
+   */
+  private getLimiterSettings(): { reservoir: number; minTime: number } {
+    const budget = (window: RateLimitWindow) =>
+      Math.floor(window.limit * (1 - STRAVA_RATE_LIMIT_CONFIG.HEADROOM));
+    const { shortTerm, daily } = this.rateLimit;
+
+    return {
+      reservoir: Math.max(
+        0,
+        Math.min(
+          budget(shortTerm) - shortTerm.usage,
+          budget(daily) - daily.usage,
+        ),
+      ),
+      minTime: Math.ceil(
+        STRAVA_RATE_LIMIT_CONFIG.SHORT_WINDOW_MS /
+          Math.max(1, budget(shortTerm)),
+      ),
+    };
+  }
+
+  /**
+   * Requests a lane may start before it reaches its reserve
+   */
+  private getLaneReservoir(lane: StravaLane, reservoir: number): number {
+    const reserve = Math.ceil(
+      this.rateLimit.shortTerm.limit *
+        (1 - STRAVA_RATE_LIMIT_CONFIG.HEADROOM) *
+        STRAVA_LANE_CONFIG[lane].RESERVE,
+    );
+    return Math.max(0, reservoir - reserve);
+  }
+
+  /**
+   * Push the current budget to the shared limiter and every lane
    */
-  private logRateLimits(response: Response, endpoint: string): void {
-    const usage = response.headers.get("X-RateLimit-Usage");
-    const limit = response.headers.get("X-RateLimit-Limit");
-
-    if (usage && limit) {
-      const [used15min, usedDaily] = usage.split(",").map(Number);
-      const [limit15min, limitDaily] = limit.split(",").map(Number);
-
-      this.serviceLogger.info("Strava rate limit", {
-        endpoint,
-        "15min": `${used15min}/${limit15min}`,
-        daily: `${usedDaily}/${limitDaily}`,
+  private applyLimits(): void {
+    const settings = this.getLimiterSettings();
+    this.limiter.updateSettings(settings);
+
+    for (const lane of STRAVA_LANES) {
+      this.lanes[lane].updateSettings({
+        reservoir: this.getLaneReservoir(lane, settings.reservoir),
       });
     }
   }
+
+  /**
+   * Zero the usage of each window when Strava resets it
+   */
+  private scheduleWindowReset(): void {
+    const { SHORT_WINDOW_MS, DAY_MS } = STRAVA_RATE_LIMIT_CONFIG;
+    const nextReset =
+      (Math.floor(Date.now() / SHORT_WINDOW_MS) + 1) * SHORT_WINDOW_MS;
+
+    setTimeout(() => {
+      this.rateLimit.shortTerm.usage = 0;
+      if (nextReset % DAY_MS === 0) {
+        this.rateLimit.daily.usage = 0;
+      }
+      this.applyLimits();
+      this.scheduleWindowReset();
+    }, nextReset - Date.now()).unref();
+  }
 }
 
 // Export singleton instance
 export const stravaApiService = new StravaApiService();
+
+metricsRegistry.register(
+  new Gauge(
+    "strava_rate_limit_usage",
+    "Strava API requests used in the current rate limit window",
+    ["window"],
+    (gauge) => {
+      const { shortTerm, daily } = stravaApiService.getRateLimitStatus();
+      gauge.set({ window: "15m" }, shortTerm.usage);
+      gauge.set({ window: "daily" }, daily.usage);
+    },
+  ),
+);
+
+metricsRegistry.register(
+  new Gauge(
+    "strava_rate_limit_limit",
+    "Strava API requests allowed per rate limit window",
+    ["window"],
+    (gauge) => {
+      const { shortTerm, daily } = stravaApiService.getRateLimitStatus();
+      gauge.set({ window: "15m" }, shortTerm.limit);
+      gauge.set({ window: "daily" }, daily.limit);
+    },
+  ),
+);
+
+metricsRegistry.register(
+  new Gauge(
+    "strava_api_queue_depth",
+    "Strava API requests held by the rate limiter, by lane and state",
+    ["lane", "state"],
+    (gauge) => {
+      for (const [lane, counts] of Object.entries(
+        stravaApiService.getQueueCounts(),
+      )) {
+        for (const [state, count] of Object.entries(counts)) {
+          gauge.set({ lane, state }, count);
+        }
+      }
+    },
+  ),
+);
@@ -0,0 +1,151 @@
+import { userRepository, type User } from "../lib";
+import { TokenRefreshError } from "./stravaApi";
+import { userTokenService } from "./userTokenService";
+import { createServiceLogger } from "../utils/logger";
+
+const logger = createServiceLogger("TokenRefreshScheduler");
+
+/**
+ * Token refresh configuration
+ */
+export const TOKEN_REFRESH_CONFIG = {
+  POLL_INTERVAL_MS: 5 * 60 * 1000,
+  // Strava access tokens last six hours; refresh well before processing
+  // would have to do it inline
+  REFRESH_AHEAD_MS: 30 * 60 * 1000,
+  BATCH_SIZE: 50,
+} as const;
+
+/**
+ * Outcome of refreshing one user's token
+ */
+export type TokenRefreshOutcome = "refreshed" | "reauth_required" | "failed";
+
+/**
+ * Background scheduler that refreshes Strava tokens before they expire
+ *
+ * Keeps token refresh off the webhook processing path. Users whose refresh
+ * token Strava rejects are marked "reauth_required" and skipped until they
+ * sign in again; other failures are retried on the next poll.
+ */
+export class TokenRefreshScheduler {
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info("Token refresh scheduler started");
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the in-flight refresh to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await this.currentRun;
+    logger.info("Token refresh scheduler stopped");
+  }
+
+  /**
+   * Refresh every token expiring within REFRESH_AHEAD_MS
+   *
+   * Transient failures leave the user due, so they are only retried on the
+   * next poll rather than in the same run.
+   *
+   * @returns Number of refresh outcomes by type
+   */
+  async refreshDueTokens(): Promise<Record<TokenRefreshOutcome, number>> {
+    const counts = { refreshed: 0, reauth_required: 0, failed: 0 };
+    const attempted = new Set<string>();
+
+    while (this.running) {
+      const users = await userRepository.findWithExpiringTokens(
+        new Date(Date.now() + TOKEN_REFRESH_CONFIG.REFRESH_AHEAD_MS),
+        TOKEN_REFRESH_CONFIG.BATCH_SIZE,
+      );
+      const due = users.filter((user) => !attempted.has(user.id));
+
+      if (due.length === 0) {
+        break;
+      }
+
+      for (const user of due) {
+        attempted.add(user.id);
+        counts[await this.refreshUser(user)]++;
+      }
+    }
+
+    if (attempted.size > 0) {
+      logger.info("Token refresh run completed", counts);
+    }
+    return counts;
+  }
+
+  /**
+   * Refresh one user's token
+   */
+  async refreshUser(user: User): Promise<TokenRefreshOutcome> {
+    try {
+      await userTokenService.refresh(user);
+      return "refreshed";
+    } catch (error) {
+      if (error instanceof TokenRefreshError && error.isRevoked) {
+        await userRepository.update(user.id, {
+          authStatus: "reauth_required",
+        });
+        logger.warn("Strava refresh token rejected, user must re-authorize", {
+          userId: user.id,
+          status: error.status,
+        });
+        return "reauth_required";
+      }
+
+      logger.error("Token refresh failed, will retry", {
+        userId: user.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return "failed";
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.currentRun = this.poll();
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.refreshDueTokens();
+    } catch (error) {
+      logger.error("Token refresh poll failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      this.currentRun = null;
+      this.schedule(TOKEN_REFRESH_CONFIG.POLL_INTERVAL_MS);
+    }
+  }
+}
+
+// Export singleton instance
+export const tokenRefreshScheduler = new TokenRefreshScheduler();
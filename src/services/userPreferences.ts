@@ -0,0 +1,31 @@
+import type { UserPreference } from "../lib";
+
+/**
+ * Preference fields a user can change
+ */
+export type EditablePreferences = Omit<
+  UserPreference,
+  "id" | "userId" | "createdAt" | "updatedAt"
+>;
+
+/**
+ * Preferences for users who have never saved any
+ *
+ * Matches the original hard-coded Celsius line, so existing users see no
+ * change until they opt into something else. The processor and the
+ * preferences API both read these, so the settings a user is shown are the
+ * ones their weather line is rendered with.
+ */
+export const DEFAULT_USER_PREFERENCES: EditablePreferences = {
+  temperatureUnit: "celsius",
+  weatherFormat: "detailed",
+  includeUvIndex: false,
+  includeVisibility: false,
+  customFormat: null,
+  includeSportTypes: [],
+  excludeSportTypes: [],
+  skipPrivate: false,
+  skipTrainer: false,
+  minDurationMinutes: null,
+  skipWithoutMovement: false,
+};
@@ -0,0 +1,122 @@
+import { userRepository, type User } from "../lib";
+import { stravaApiService } from "./stravaApi";
+import { metricsService } from "./metricsService";
+import { createServiceLogger } from "../utils/logger";
+
+const logger = createServiceLogger("UserTokenService");
+
+/**
+ * A user's current Strava tokens
+ */
+export interface UserTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+  wasRefreshed: boolean;
+}
+
+const toTokens = (user: User, wasRefreshed: boolean): UserTokens => ({
+  accessToken: user.accessToken,
+  refreshToken: user.refreshToken,
+  expiresAt: user.tokenExpiresAt,
+  wasRefreshed,
+});
+
+/**
+ * Refreshes and stores Strava tokens, at most once at a time per user
+ *
+ * Strava rotates the refresh token on every refresh, so two concurrent
+ * refreshes for one user would leave one of them holding a dead token.
+ * Refreshes in this process share a single in-flight promise per user, and
+ * refreshes in other processes are caught by a compare-and-swap on the
+ * stored refresh token: whichever write lands second keeps the winner's
+ * tokens instead of overwriting them.
+ */
+export class UserTokenService {
+  private readonly inFlight = new Map<string, Promise<UserTokens>>();
+
+  /**
+   * Get a valid access token for the user, refreshing it if it is about
+   * to expire
+   */
+  async ensureValidToken(user: User): Promise<UserTokens> {
+    if (!stravaApiService.isTokenExpiring(user.tokenExpiresAt)) {
+      return toTokens(user, false);
+    }
+
+    return this.refresh(user);
+  }
+
+  /**
+   * Refresh the user's tokens, joining a refresh already in flight
+   */
+  refresh(user: User): Promise<UserTokens> {
+    let pending = this.inFlight.get(user.id);
+
+    if (!pending) {
+      pending = this.refreshOnce(user).finally(() => {
+        this.inFlight.delete(user.id);
+      });
+      this.inFlight.set(user.id, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Refresh and store the tokens, retrying once if another process rotated
+   * the refresh token while ours was being used
+   */
+  private async refreshOnce(user: User, isRetry = false): Promise<UserTokens> {
+    const startTime = Date.now();
+
+    let tokenData;
+    try {
+      tokenData = await stravaApiService.refreshAccessToken(user.refreshToken);
+    } catch (error) {
+      metricsService.recordTokenRefresh(
+        parseInt(user.id),
+        false,
+        Date.now() - startTime,
+      );
+
+      const latest = isRetry ? null : await userRepository.findById(user.id);
+      if (!latest || latest.refreshToken === user.refreshToken) {
+        throw error;
+      }
+
+      logger.info("Refresh token rotated elsewhere, using latest tokens", {
+        userId: user.id,
+      });
+      return stravaApiService.isTokenExpiring(latest.tokenExpiresAt)
+        ? this.refreshOnce(latest, true)
+        : toTokens(latest, true);
+    }
+
+    metricsService.recordTokenRefresh(
+      parseInt(user.id),
+      true,
+      Date.now() - startTime,
+    );
+
+    const stored = await userRepository.swapTokens(user.id, user.refreshToken, {
+      accessToken: tokenData.access_token,
+      refreshToken: tokenData.refresh_token,
+      tokenExpiresAt: new Date(tokenData.expires_at * 1000),
+    });
+    if (stored) {
+      return toTokens(stored, true);
+    }
+
+    // Another process stored its tokens first; ours are still valid with
+    // Strava, but the stored ones are what every later refresh will use
+    const latest = await userRepository.findById(user.id);
+    if (!latest) {
+      throw new Error("User not found");
+    }
+    return toTokens(latest, true);
+  }
+}
+
+// Export singleton instance
+export const userTokenService = new UserTokenService();
@@ -0,0 +1,111 @@
+import axios from "axios";
+import { config } from "../config/environment";
+import { createServiceLogger } from "../utils/logger";
+import { metricsService } from "./metricsService";
+import { fetchOpenMeteoHourly, NoWeatherDataError } from "./openMeteo";
+import { getErrorStatus } from "./weatherProvider";
+import type { WeatherData } from "./weatherService";
+
+const logger = createServiceLogger("WeatherArchive");
+
+/**
+ * Historical weather archive
+ *
+ * Provides hourly weather for any past time, used for activities older
+ * than the One Call Time Machine window.
+ */
+export interface HistoricalWeatherArchive {
+  readonly name: string;
+  getHourlyWeather(lat: number, lon: number, time: Date): Promise<WeatherData>;
+}
+
+export type WeatherArchiveName = "open-meteo";
+
+/**
+ * Thrown when the archive has no data for the requested time
+ *
+ * Reanalysis data lags a few days behind, so activities just past the Time
+ * Machine window may not be archived yet.
+ */
+export class ArchiveWeatherUnavailableError extends Error {
+  constructor(reason: string) {
+    super(`Archived weather unavailable: ${reason}`);
+    this.name = "ArchiveWeatherUnavailableError";
+  }
+}
+
+/**
+ * Open-Meteo historical weather archive
+ *
+ * Backed by ERA5 reanalysis, covering any date from 1940 until a few days
+ * ago. Free to use and needs no API key.
+ */
+export class OpenMeteoArchive implements HistoricalWeatherArchive {
+  readonly name = "open-meteo";
+
+  async getHourlyWeather(
+    lat: number,
+    lon: number,
+    time: Date,
+  ): Promise<WeatherData> {
+    logger.debug("Requesting archived weather from Open-Meteo", {
+      coordinates: { lat, lon },
+      targetTime: time.toISOString(),
+    });
+
+    const startTime = Date.now();
+    try {
+      const { status, weather } = await fetchOpenMeteoHourly(
+        config.api.openMeteo.archiveUrl,
+        lat,
+        lon,
+        time,
+      );
+
+      metricsService.recordApiCall(
+        "weather_api",
+        "GET /archive",
+        Date.now() - startTime,
+        status,
+        undefined,
+        { provider: this.name },
+      );
+
+      return weather;
+    } catch (error) {
+      metricsService.recordApiCall(
+        "weather_api",
+        "GET /archive",
+        Date.now() - startTime,
+        getErrorStatus(error),
+        error instanceof Error ? error.message : "Unknown error",
+        { provider: this.name },
+      );
+
+      // Out-of-range dates are rejected with a 400; recent ones come back empty
+      if (
+        error instanceof NoWeatherDataError ||
+        (axios.isAxiosError(error) && error.response?.status === 400)
+      ) {
+        throw new ArchiveWeatherUnavailableError(error.message);
+      }
+      throw new Error(
+        `Weather archive error: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+}
+
+/**
+ * Create the configured archive, or null when none is configured
+ */
+export function createWeatherArchive(
+  name: WeatherArchiveName | undefined,
+): HistoricalWeatherArchive | null {
+  switch (name) {
+    case "open-meteo":
+      return new OpenMeteoArchive();
+    default:
+      return null;
+  }
+}
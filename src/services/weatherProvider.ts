@@ -0,0 +1,393 @@
+import axios, { AxiosError } from "axios";
+import { config } from "../config/environment";
+import { createServiceLogger } from "../utils/logger";
+import { metricsService } from "./metricsService";
+import { fetchOpenMeteoHourly } from "./openMeteo";
+import type { WeatherData } from "./weatherService";
+
+const logger = createServiceLogger("WeatherProvider");
+
+/**
+ * Weather provider
+ *
+ * A source of current and recent historical weather. WeatherService tries
+ * the configured providers in order, failing over to the next one when a
+ * provider is unavailable.
+ */
+export interface WeatherProvider {
+  readonly name: WeatherProviderName;
+  getCurrentWeather(lat: number, lon: number): Promise<WeatherData>;
+  getHistoricalWeather(
+    lat: number,
+    lon: number,
+    time: Date,
+  ): Promise<WeatherData>;
+}
+
+export type WeatherProviderName = "openweathermap" | "open-meteo";
+
+/**
+ * Thrown by providers for failed requests
+ *
+ * `failover` is set when the provider itself is unavailable (rejected
+ * credentials, rate limited or timed out), so another provider may succeed.
+ */
+export class WeatherProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: WeatherProviderName,
+    public readonly failover: boolean,
+  ) {
+    super(message);
+    this.name = "WeatherProviderError";
+  }
+}
+
+/**
+ * OpenWeatherMap API response interfaces
+ */
+interface OneCallCurrentResponse {
+  current: {
+    dt: number;
+    temp: number;
+    feels_like: number;
+    humidity: number;
+    pressure: number;
+    wind_speed: number;
+    wind_deg: number;
+    wind_gust?: number;
+    clouds: number;
+    visibility: number;
+    uvi?: number;
+    weather: Array<{
+      main: string;
+      description: string;
+      icon: string;
+    }>;
+  };
+}
+
+interface TimeMachineResponse {
+  data: Array<{
+    dt: number;
+    temp: number;
+    feels_like: number;
+    humidity: number;
+    pressure: number;
+    wind_speed: number;
+    wind_deg: number;
+    wind_gust?: number;
+    clouds: number;
+    visibility?: number;
+    uvi?: number;
+    weather: Array<{
+      main: string;
+      description: string;
+      icon: string;
+    }>;
+  }>;
+}
+
+const OPENWEATHERMAP_CONFIG = {
+  API_TIMEOUT_MS: 5000, // 5 seconds
+  DEFAULT_VISIBILITY_M: 10000, // 10km default visibility
+} as const;
+
+/**
+ * HTTP status of a failed request, or undefined when no response arrived
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  return axios.isAxiosError(error) ? error.response?.status : undefined;
+}
+
+/**
+ * Classify a failed request, logging it and throwing a WeatherProviderError
+ *
+ * @param error - Axios error or generic error
+ * @param provider - Provider that made the request
+ * @param apiName - Name of the API for logging
+ * @throws WeatherProviderError with user-friendly message
+ */
+function handleApiError(
+  error: unknown,
+  provider: WeatherProviderName,
+  apiName: string,
+): never {
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError;
+
+    logger.error(`${apiName} request failed`, {
+      provider,
+      status: axiosError.response?.status,
+      statusText: axiosError.response?.statusText,
+      message: axiosError.message,
+      data: axiosError.response?.data,
+    });
+
+    if (axiosError.response?.status === 401) {
+      throw new WeatherProviderError(
+        "Weather API authentication failed",
+        provider,
+        true,
+      );
+    } else if (axiosError.response?.status === 429) {
+      throw new WeatherProviderError(
+        "Weather API rate limit exceeded",
+        provider,
+        true,
+      );
+    } else if (axiosError.code === "ECONNABORTED") {
+      throw new WeatherProviderError(
+        "Weather API request timeout",
+        provider,
+        true,
+      );
+    }
+  }
+
+  throw new WeatherProviderError(
+    `Weather API error: ${error instanceof Error ? error.message : "Unknown error"}`,
+    provider,
+    false,
+  );
+}
+
+/**
+ * OpenWeatherMap One Call API 3.0
+ *
+ * Current conditions from One Call, and the last five days from the
+ * Time Machine endpoint.
+ */
+export class OpenWeatherMapProvider implements WeatherProvider {
+  readonly name = "openweathermap";
+
+  /**
+   * Get current weather using One Call API
+   *
+   * @param lat - Latitude
+   * @param lon - Longitude
+   * @returns {Promise<WeatherData>} Current weather data
+   * @throws WeatherProviderError if API request fails
+   */
+  async getCurrentWeather(lat: number, lon: number): Promise<WeatherData> {
+    const url = config.api.openWeatherMap.oneCallUrl;
+    const params = {
+      lat: lat.toFixed(6),
+      lon: lon.toFixed(6),
+      appid: config.OPENWEATHERMAP_API_KEY,
+      units: "metric",
+      exclude: "minutely,hourly,daily,alerts", // Only need current data
+    };
+
+    logger.debug("Requesting current weather from One Call API", {
+      coordinates: { lat, lon },
+    });
+
+    const startTime = Date.now();
+    try {
+      const response = await axios.get<OneCallCurrentResponse>(url, {
+        params,
+        timeout: OPENWEATHERMAP_CONFIG.API_TIMEOUT_MS,
+      });
+
+      const duration = Date.now() - startTime;
+      metricsService.recordApiCall(
+        "weather_api",
+        "GET /onecall",
+        duration,
+        response.status,
+        undefined,
+        { provider: this.name },
+      );
+
+      const current = response.data.current;
+
+      return this.formatWeatherData(current);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      metricsService.recordApiCall(
+        "weather_api",
+        "GET /onecall",
+        duration,
+        getErrorStatus(error),
+        error instanceof Error ? error.message : "Unknown error",
+        { provider: this.name },
+      );
+      handleApiError(error, this.name, "One Call API");
+    }
+  }
+
+  /**
+   * Get historical weather using One Call Time Machine
+   *
+   * @param lat - Latitude
+   * @param lon - Longitude
+   * @param time - Historical timestamp
+   * @returns {Promise<WeatherData>} Historical weather data
+   * @throws WeatherProviderError if API request fails
+   */
+  async getHistoricalWeather(
+    lat: number,
+    lon: number,
+    time: Date,
+  ): Promise<WeatherData> {
+    const url = `${config.api.openWeatherMap.oneCallUrl}/timemachine`;
+    const dt = Math.floor(time.getTime() / 1000);
+
+    const params = {
+      lat: lat.toFixed(6),
+      lon: lon.toFixed(6),
+      dt: dt.toString(),
+      appid: config.OPENWEATHERMAP_API_KEY,
+      units: "metric",
+    };
+
+    logger.debug("Requesting historical weather from Time Machine", {
+      coordinates: { lat, lon },
+      targetTime: time.toISOString(),
+      unixTime: dt,
+    });
+
+    const startTime = Date.now();
+    try {
+      const response = await axios.get<TimeMachineResponse>(url, {
+        params,
+        timeout: OPENWEATHERMAP_CONFIG.API_TIMEOUT_MS,
+      });
+
+      const duration = Date.now() - startTime;
+      metricsService.recordApiCall(
+        "weather_api",
+        "GET /timemachine",
+        duration,
+        response.status,
+        undefined,
+        { provider: this.name },
+      );
+
+      const data = response.data.data[0]; // Time Machine returns array with single item
+
+      return this.formatWeatherData(data);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      metricsService.recordApiCall(
+        "weather_api",
+        "GET /timemachine",
+        duration,
+        getErrorStatus(error),
+        error instanceof Error ? error.message : "Unknown error",
+        { provider: this.name },
+      );
+      handleApiError(error, this.name, "Time Machine API");
+    }
+  }
+
+  /**
+   * Format raw API data into WeatherData interface
+   *
+   * @param data - Raw weather data from API
+   * @returns Formatted weather data
+   */
+  private formatWeatherData(data: any): WeatherData {
+    return {
+      temperature: Math.round(data.temp),
+      temperatureFeel: Math.round(data.feels_like),
+      humidity: data.humidity,
+      pressure: data.pressure,
+      windSpeed: Math.round(data.wind_speed * 10) / 10, // 1 decimal place
+      windDirection: data.wind_deg,
+      windGust: data.wind_gust
+        ? Math.round(data.wind_gust * 10) / 10
+        : undefined,
+      cloudCover: data.clouds,
+      visibility: Math.round(
+        (data.visibility || OPENWEATHERMAP_CONFIG.DEFAULT_VISIBILITY_M) / 1000,
+      ), // Convert to km
+      condition: data.weather[0].main,
+      description: data.weather[0].description,
+      icon: data.weather[0].icon,
+      uvIndex: data.uvi || 0,
+      timestamp: new Date(data.dt * 1000).toISOString(),
+    };
+  }
+}
+
+/**
+ * Open-Meteo forecast API
+ *
+ * Hourly model data, which also covers the past few months. Free to use
+ * and needs no API key, which makes it a good failover provider.
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly name = "open-meteo";
+
+  async getCurrentWeather(lat: number, lon: number): Promise<WeatherData> {
+    return this.getHourlyWeather(lat, lon, new Date());
+  }
+
+  async getHistoricalWeather(
+    lat: number,
+    lon: number,
+    time: Date,
+  ): Promise<WeatherData> {
+    return this.getHourlyWeather(lat, lon, time);
+  }
+
+  private async getHourlyWeather(
+    lat: number,
+    lon: number,
+    time: Date,
+  ): Promise<WeatherData> {
+    logger.debug("Requesting weather from Open-Meteo", {
+      coordinates: { lat, lon },
+      targetTime: time.toISOString(),
+    });
+
+    const startTime = Date.now();
+    try {
+      const { status, weather } = await fetchOpenMeteoHourly(
+        config.api.openMeteo.forecastUrl,
+        lat,
+        lon,
+        time,
+      );
+
+      metricsService.recordApiCall(
+        "weather_api",
+        "GET /forecast",
+        Date.now() - startTime,
+        status,
+        undefined,
+        { provider: this.name },
+      );
+
+      return weather;
+    } catch (error) {
+      metricsService.recordApiCall(
+        "weather_api",
+        "GET /forecast",
+        Date.now() - startTime,
+        getErrorStatus(error),
+        error instanceof Error ? error.message : "Unknown error",
+        { provider: this.name },
+      );
+      handleApiError(error, this.name, "Open-Meteo forecast API");
+    }
+  }
+}
+
+/**
+ * Create the configured providers in failover order
+ */
+export function createWeatherProviders(
+  names: readonly WeatherProviderName[],
+): WeatherProvider[] {
+  return names.map((name) => {
+    switch (name) {
+      case "openweathermap":
+        return new OpenWeatherMapProvider();
+      case "open-meteo":
+        return new OpenMeteoProvider();
+    }
+  });
+}
@@ -1,7 +1,16 @@
-import axios, { AxiosError } from "axios";
 import { config } from "../config/environment";
 import { createServiceLogger } from "../utils/logger";
-import { metricsService } from "./metricsService";
+import type { WeatherDataSource } from "../lib/database";
+import {
+  createWeatherProviders,
+  WeatherProviderError,
+  type WeatherProvider,
+} from "./weatherProvider";
+import {
+  ArchiveWeatherUnavailableError,
+  createWeatherArchive,
+  type HistoricalWeatherArchive,
+} from "./weatherArchive";
 
 /**
  * Weather data interface
@@ -23,51 +32,47 @@ export interface WeatherData {
   icon: string; // Weather icon code
   uvIndex?: number; // UV index (0-11+, optional)
   timestamp: string; // ISO timestamp of the weather data
+  route?: RouteWeatherSummary; // Conditions along the route (optional)
+  windExposure?: WindExposure; // Wind relative to direction of travel (optional)
+  provider?: string; // Provider or archive that served the data (optional)
 }
 
 /**
- * OpenWeatherMap API response interfaces
+ * Share of moving time spent riding into, with and across the wind
+ *
+ * Percentages (0-100) that add up to 100.
  */
-interface OneCallCurrentResponse {
-  current: {
-    dt: number;
-    temp: number;
-    feels_like: number;
-    humidity: number;
-    pressure: number;
-    wind_speed: number;
-    wind_deg: number;
-    wind_gust?: number;
-    clouds: number;
-    visibility: number;
-    uvi?: number;
-    weather: Array<{
-      main: string;
-      description: string;
-      icon: string;
-    }>;
-  };
+export interface WindExposure {
+  headwind: number;
+  tailwind: number;
+  crosswind: number;
 }
 
-interface TimeMachineResponse {
-  data: Array<{
-    dt: number;
-    temp: number;
-    feels_like: number;
-    humidity: number;
-    pressure: number;
-    wind_speed: number;
-    wind_deg: number;
-    wind_gust?: number;
-    clouds: number;
-    visibility?: number;
-    uvi?: number;
-    weather: Array<{
-      main: string;
-      description: string;
-      icon: string;
-    }>;
-  }>;
+/**
+ * Point on an activity route where weather is sampled
+ */
+export type RouteSamplePoint = "start" | "midpoint" | "finish";
+
+/**
+ * Weather sampled at one point along an activity route
+ */
+export interface RouteWeatherSample {
+  point: RouteSamplePoint;
+  latitude: number;
+  longitude: number;
+  time: string; // ISO timestamp the activity passed this point
+  weather: WeatherData;
+}
+
+/**
+ * Range of conditions encountered along an activity route
+ */
+export interface RouteWeatherSummary {
+  minTemperature: number; // Lowest temperature in Celsius
+  maxTemperature: number; // Highest temperature in Celsius
+  precipitation: string[]; // Precipitation descriptions encountered
+  windShift: number; // Change in wind direction from start to finish (0-180)
+  samples: RouteWeatherSample[];
 }
 
 const logger = createServiceLogger("WeatherService");
@@ -78,24 +83,47 @@ const logger = createServiceLogger("WeatherService");
 const WEATHER_CONFIG = {
   HISTORICAL_LIMIT_HOURS: 120, // 5 days (Time Machine limit)
   RECENT_ACTIVITY_THRESHOLD_HOURS: 1, // Use current data if < 1 hour old
-  API_TIMEOUT_MS: 5000, // 5 seconds
-  DEFAULT_VISIBILITY_M: 10000, // 10km default visibility
 } as const;
 
 /**
- * Weather service using OpenWeatherMap One Call API 3.0
+ * Thrown when an activity is too old for the Time Machine and no
+ * historical archive is configured, or the archive has no data for it
+ */
+export class HistoricalWeatherUnavailableError extends Error {
+  constructor(
+    message = `No historical weather archive configured for activities older than ${WEATHER_CONFIG.HISTORICAL_LIMIT_HOURS} hours`,
+  ) {
+    super(message);
+    this.name = "HistoricalWeatherUnavailableError";
+  }
+}
+
+/**
+ * Weather service
  *
  * Provides weather data for Strava activities with automatic
  * selection between current and historical data based on activity age.
  *
  * Features:
  * - Historical data for activities up to 5 days old
+ * - Archive data for older activities when an archive is configured
  * - Current data for recent activities
  * - Automatic API selection based on activity age
+ * - Failover between weather providers (OpenWeatherMap, Open-Meteo)
  */
 export class WeatherService {
-  constructor() {
-    logger.info("Weather service initialized");
+  constructor(
+    private readonly providers: WeatherProvider[] = createWeatherProviders(
+      config.api.weather.providers,
+    ),
+    private readonly archive: HistoricalWeatherArchive | null = createWeatherArchive(
+      config.WEATHER_ARCHIVE_PROVIDER,
+    ),
+  ) {
+    logger.info("Weather service initialized", {
+      providers: providers.map((provider) => provider.name),
+      archive: archive?.name ?? "none",
+    });
   }
 
   /**
@@ -104,13 +132,18 @@ export class WeatherService {
    * Automatically selects the appropriate data source based on activity age:
    * - < 1 hour old: Current weather data
    * - 1 hour to 5 days: Historical weather data (Time Machine)
-   * - > 5 days: Current weather as fallback
+   * - > 5 days: Historical archive; refused when no archive is configured
+   *   or the archive has no data for the activity yet
+   *
+   * The returned data names the provider that served it, which after
+   * failover is not the first configured one.
    *
    * @param lat - Latitude of activity location
    * @param lon - Longitude of activity location
    * @param activityTime - Activity start time
    * @param activityId - Unique activity identifier for logging
    * @returns {Promise<WeatherData>} Weather data for the specified time and location
+   * @throws HistoricalWeatherUnavailableError if the activity needs an archive and none is configured or it has no data
    * @throws Error if weather data cannot be retrieved
    */
   async getWeatherForActivity(
@@ -128,43 +161,54 @@ export class WeatherService {
     logger.info("Fetching weather data for activity", logContext);
 
     try {
-      const now = new Date();
       const hoursSinceActivity =
-        (now.getTime() - activityTime.getTime()) / (1000 * 60 * 60);
+        (Date.now() - activityTime.getTime()) / (1000 * 60 * 60);
+      const dataSource = this.getDataSource(activityTime);
 
       let weatherData: WeatherData;
-      let dataSource: string;
 
-      if (
-        hoursSinceActivity > WEATHER_CONFIG.RECENT_ACTIVITY_THRESHOLD_HOURS &&
-        hoursSinceActivity <= WEATHER_CONFIG.HISTORICAL_LIMIT_HOURS
-      ) {
-        // Use Time Machine for historical data
-        dataSource = "historical";
-        weatherData = await this.getHistoricalWeather(lat, lon, activityTime);
-      } else if (
-        hoursSinceActivity <= WEATHER_CONFIG.RECENT_ACTIVITY_THRESHOLD_HOURS
-      ) {
+      if (dataSource === "historical") {
+        // Use historical data for the activity start time
+        weatherData = await this.withFailover(logContext, (provider) =>
+          provider.getHistoricalWeather(lat, lon, activityTime),
+        );
+      } else if (dataSource === "current") {
         // Use current data for very recent activities
-        dataSource = "current";
-        weatherData = await this.getCurrentWeatherFromOneCall(lat, lon);
+        weatherData = await this.withFailover(logContext, (provider) =>
+          provider.getCurrentWeather(lat, lon),
+        );
       } else {
-        // Activity too old for Time Machine, use current as fallback
-        dataSource = "current-fallback";
-        logger.warn(
-          "Activity outside Time Machine range, using current weather",
-          {
+        // Activity too old for Time Machine, use the archive
+        if (!this.archive) {
+          logger.warn("Activity outside Time Machine range and no archive", {
             ...logContext,
             hoursSinceActivity,
             maxHistoricalHours: WEATHER_CONFIG.HISTORICAL_LIMIT_HOURS,
-          },
-        );
-        weatherData = await this.getCurrentWeatherFromOneCall(lat, lon);
+          });
+          throw new HistoricalWeatherUnavailableError();
+        }
+        try {
+          weatherData = {
+            ...(await this.archive.getHourlyWeather(lat, lon, activityTime)),
+            provider: this.archive.name,
+          };
+        } catch (error) {
+          if (error instanceof ArchiveWeatherUnavailableError) {
+            logger.warn("Activity not in the weather archive yet", {
+              ...logContext,
+              hoursSinceActivity,
+              error: error.message,
+            });
+            throw new HistoricalWeatherUnavailableError(error.message);
+          }
+          throw error;
+        }
       }
 
       logger.info("Weather data retrieved successfully", {
         ...logContext,
         dataSource,
+        provider: weatherData.provider,
         hoursSinceActivity: hoursSinceActivity.toFixed(1),
         temperature: weatherData.temperature,
         condition: weatherData.condition,
@@ -172,6 +216,10 @@ export class WeatherService {
 
       return weatherData;
     } catch (error) {
+      if (error instanceof HistoricalWeatherUnavailableError) {
+        throw error;
+      }
+
       logger.error("Failed to fetch weather data", {
         ...logContext,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -185,182 +233,61 @@ export class WeatherService {
   }
 
   /**
-   * Get current weather using One Call API
+   * Determine which data source getWeatherForActivity uses for an activity
    *
-   * @param lat - Latitude
-   * @param lon - Longitude
-   * @returns {Promise<WeatherData>} Current weather data
-   * @throws Error if API request fails
+   * @param activityTime - Activity start time
+   * @param now - Reference time (defaults to the current time)
+   * @returns Data source selected by activity age
    */
-  private async getCurrentWeatherFromOneCall(
-    lat: number,
-    lon: number,
-  ): Promise<WeatherData> {
-    const url = config.api.openWeatherMap.oneCallUrl;
-    const params = {
-      lat: lat.toFixed(6),
-      lon: lon.toFixed(6),
-      appid: config.OPENWEATHERMAP_API_KEY,
-      units: "metric",
-      exclude: "minutely,hourly,daily,alerts", // Only need current data
-    };
-
-    logger.debug("Requesting current weather from One Call API", {
-      coordinates: { lat, lon },
-    });
-
-    const startTime = Date.now();
-    try {
-      const response = await axios.get<OneCallCurrentResponse>(url, {
-        params,
-        timeout: WEATHER_CONFIG.API_TIMEOUT_MS,
-      });
-
-      const duration = Date.now() - startTime;
-      await metricsService.recordApiCall(
-        "weather_api",
-        "GET /onecall",
-        duration,
-        response.status,
-      );
-
-      const current = response.data.current;
+  getDataSource(activityTime: Date, now: Date = new Date()): WeatherDataSource {
+    const hoursSinceActivity =
+      (now.getTime() - activityTime.getTime()) / (1000 * 60 * 60);
 
-      return this.formatWeatherData(current);
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      await metricsService.recordApiCall(
-        "weather_api",
-        "GET /onecall",
-        duration,
-        undefined,
-        error instanceof Error ? error.message : "Unknown error",
-      );
-      this.handleApiError(error, "One Call API");
+    if (hoursSinceActivity <= WEATHER_CONFIG.RECENT_ACTIVITY_THRESHOLD_HOURS) {
+      return "current";
     }
-  }
-
-  /**
-   * Get historical weather using One Call Time Machine
-   *
-   * @param lat - Latitude
-   * @param lon - Longitude
-   * @param time - Historical timestamp
-   * @returns {Promise<WeatherData>} Historical weather data
-   * @throws Error if API request fails
-   */
-  private async getHistoricalWeather(
-    lat: number,
-    lon: number,
-    time: Date,
-  ): Promise<WeatherData> {
-    const url = `${config.api.openWeatherMap.oneCallUrl}/timemachine`;
-    const dt = Math.floor(time.getTime() / 1000);
-
-    const params = {
-      lat: lat.toFixed(6),
-      lon: lon.toFixed(6),
-      dt: dt.toString(),
-      appid: config.OPENWEATHERMAP_API_KEY,
-      units: "metric",
-    };
-
-    logger.debug("Requesting historical weather from Time Machine", {
-      coordinates: { lat, lon },
-      targetTime: time.toISOString(),
-      unixTime: dt,
-    });
 
-    const startTime = Date.now();
-    try {
-      const response = await axios.get<TimeMachineResponse>(url, {
-        params,
-        timeout: WEATHER_CONFIG.API_TIMEOUT_MS,
-      });
-
-      const duration = Date.now() - startTime;
-      await metricsService.recordApiCall(
-        "weather_api",
-        "GET /timemachine",
-        duration,
-        response.status,
-      );
-
-      const data = response.data.data[0]; // Time Machine returns array with single item
-
-      return this.formatWeatherData(data);
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      await metricsService.recordApiCall(
-        "weather_api",
-        "GET /timemachine",
-        duration,
-        undefined,
-        error instanceof Error ? error.message : "Unknown error",
-      );
-      this.handleApiError(error, "Time Machine API");
+    if (hoursSinceActivity <= WEATHER_CONFIG.HISTORICAL_LIMIT_HOURS) {
+      return "historical";
     }
-  }
 
-  /**
-   * Format raw API data into WeatherData interface
-   *
-   * @param data - Raw weather data from API
-   * @returns Formatted weather data
-   */
-  private formatWeatherData(data: any): WeatherData {
-    return {
-      temperature: Math.round(data.temp),
-      temperatureFeel: Math.round(data.feels_like),
-      humidity: data.humidity,
-      pressure: data.pressure,
-      windSpeed: Math.round(data.wind_speed * 10) / 10, // 1 decimal place
-      windDirection: data.wind_deg,
-      windGust: data.wind_gust
-        ? Math.round(data.wind_gust * 10) / 10
-        : undefined,
-      cloudCover: data.clouds,
-      visibility: Math.round(
-        (data.visibility || WEATHER_CONFIG.DEFAULT_VISIBILITY_M) / 1000,
-      ), // Convert to km
-      condition: data.weather[0].main,
-      description: data.weather[0].description,
-      icon: data.weather[0].icon,
-      uvIndex: data.uvi || 0,
-      timestamp: new Date(data.dt * 1000).toISOString(),
-    };
+    return "archive";
   }
 
   /**
-   * Handle API errors with appropriate logging and messages
+   * Run a request against each provider in turn until one succeeds
    *
-   * @param error - Axios error or generic error
-   * @param apiName - Name of the API for logging
-   * @throws Error with user-friendly message
+   * Only failover errors (rejected credentials, rate limits, timeouts) move
+   * on to the next provider; any other error is thrown immediately. The
+   * result is tagged with the provider that served it.
    */
-  private handleApiError(error: unknown, apiName: string): never {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-
-      logger.error(`${apiName} request failed`, {
-        status: axiosError.response?.status,
-        statusText: axiosError.response?.statusText,
-        message: axiosError.message,
-        data: axiosError.response?.data,
-      });
-
-      if (axiosError.response?.status === 401) {
-        throw new Error("Weather API authentication failed");
-      } else if (axiosError.response?.status === 429) {
-        throw new Error("Weather API rate limit exceeded");
-      } else if (axiosError.code === "ECONNABORTED") {
-        throw new Error("Weather API request timeout");
+  private async withFailover(
+    logContext: Record<string, unknown>,
+    request: (provider: WeatherProvider) => Promise<WeatherData>,
+  ): Promise<WeatherData> {
+    for (const [index, provider] of this.providers.entries()) {
+      try {
+        return { ...(await request(provider)), provider: provider.name };
+      } catch (error) {
+        const next = this.providers[index + 1];
+        if (
+          !(error instanceof WeatherProviderError) ||
+          !error.failover ||
+          !next
+        ) {
+          throw error;
+        }
+
+        logger.warn("Weather provider unavailable, failing over", {
+          ...logContext,
+          provider: provider.name,
+          nextProvider: next.name,
+          error: error.message,
+        });
       }
     }
 
-    throw new Error(
-      `Weather API error: ${error instanceof Error ? error.message : "Unknown error"}`,
-    );
+    throw new Error("No weather providers configured");
   }
 
   /**
@@ -0,0 +1,95 @@
+import { webhookRepository } from "../lib";
+import { createServiceLogger } from "../utils/logger";
+
+const logger = createServiceLogger("WebhookEventRetentionJob");
+
+/**
+ * Webhook event retention configuration
+ */
+export const WEBHOOK_EVENT_RETENTION_CONFIG = {
+  POLL_INTERVAL_MS: 60 * 60 * 1000,
+  // Strava stops redelivering an event within hours; keep a wide margin
+  RETENTION_MS: 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Background job that prunes the webhook event inbox
+ *
+ * Inbox rows only exist to catch redeliveries, so once Strava can no longer
+ * redeliver an event its row is dead weight.
+ */
+export class WebhookEventRetentionJob {
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info("Webhook event retention job started");
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await this.currentRun;
+    logger.info("Webhook event retention job stopped");
+  }
+
+  /**
+   * Delete inbox events older than the retention window
+   *
+   * @returns Number of events deleted
+   */
+  async runOnce(): Promise<number> {
+    const pruned = await webhookRepository.pruneEvents(
+      new Date(Date.now() - WEBHOOK_EVENT_RETENTION_CONFIG.RETENTION_MS),
+    );
+
+    if (pruned > 0) {
+      logger.info("Webhook event retention run completed", { pruned });
+    }
+    return pruned;
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.currentRun = this.poll();
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.runOnce();
+    } catch (error) {
+      logger.error("Webhook event retention run failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      this.currentRun = null;
+      this.schedule(WEBHOOK_EVENT_RETENTION_CONFIG.POLL_INTERVAL_MS);
+    }
+  }
+}
+
+// Export singleton instance
+export const webhookEventRetentionJob = new WebhookEventRetentionJob();
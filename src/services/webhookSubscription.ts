@@ -1,4 +1,5 @@
 import { config } from "../config/environment";
+import { webhookRepository } from "../lib";
 import { logger } from "../utils/logger";
 
 /**
@@ -99,12 +100,44 @@ export class WebhookSubscriptionService {
     }
   }
 
+  /**
+   * Id of the subscription webhook events must belong to
+   *
+   * Asks Strava when none is stored yet, e.g. before startup setup has run
+   * or when the subscription was created outside this app, and stores the
+   * answer for later events.
+   *
+   * @returns The subscription id, or null if it cannot be determined
+   */
+  async getSubscriptionId(): Promise<number | null> {
+    const stored = await webhookRepository.findSubscriptionId();
+    if (stored !== null) {
+      return stored;
+    }
+
+    try {
+      const existing = await this.viewSubscription();
+      if (!existing) {
+        return null;
+      }
+
+      await webhookRepository.saveSubscription(existing);
+      return existing.id;
+    } catch (error) {
+      this.serviceLogger.warn("Could not look up webhook subscription id", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return null;
+    }
+  }
+
   /**
    * Create a new webhook subscription
    *
    * Creates a webhook subscription to receive Strava activity events.
    * Only one subscription is allowed per application - existing subscriptions
-   * must be deleted before creating a new one.
+   * must be deleted before creating a new one. The new subscription id is
+   * stored so the webhook handler can reject events for any other id.
    *
    * @param callbackUrl - Public HTTPS URL to receive webhook events
    * @returns Created subscription details
@@ -176,6 +209,7 @@ export class WebhookSubscriptionService {
       }
 
       const subscription = await response.json();
+      await webhookRepository.saveSubscription(subscription);
 
       this.serviceLogger.info("Webhook subscription created successfully", {
         subscriptionId: subscription.id,
@@ -220,6 +254,7 @@ export class WebhookSubscriptionService {
 
       // 204 No Content is success for DELETE
       if (response.status === 204) {
+        await webhookRepository.deleteSubscription(subscriptionId);
         this.serviceLogger.info("Webhook subscription deleted successfully", {
           subscriptionId,
         });
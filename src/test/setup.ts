@@ -15,6 +15,10 @@ beforeAll(() => {
   vi.stubEnv("STRAVA_CLIENT_SECRET", "test-client-secret");
   vi.stubEnv("STRAVA_WEBHOOK_VERIFY_TOKEN", "test-webhook-token");
   vi.stubEnv("OPENWEATHERMAP_API_KEY", "test-weather-api-key");
+  vi.stubEnv(
+    "TOKEN_ENCRYPTION_KEYS",
+    `test:${Buffer.alloc(32, 1).toString("base64")}`,
+  );
   vi.stubEnv("APP_URL", "http://localhost:3000");
 });
 
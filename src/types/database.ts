@@ -1,5 +1,15 @@
 import { z } from "zod";
-import type { UserTable, UserPreferenceTable } from "../lib/database";
+import type {
+  UserTable,
+  UserPreferenceTable,
+  ActivityJobTable,
+  ActivityWeatherTable,
+  BackfillJobTable,
+  UserAuthStatus,
+  ActivityOutcome,
+  WeatherDataSource,
+} from "../lib/database";
+import type { WeatherData } from "../services/weatherService";
 
 // Zod schemas for runtime validation
 export const UserInsertSchema = z.object({
@@ -20,6 +30,7 @@ export const UserUpdateSchema = z.object({
   accessToken: z.string().optional(),
   refreshToken: z.string().optional(),
   tokenExpiresAt: z.date().optional(),
+  authStatus: z.enum(["active", "reauth_required"]).optional(),
   weatherEnabled: z.boolean().optional(),
   firstName: z.string().nullable().optional(),
   lastName: z.string().nullable().optional(),
@@ -36,6 +47,12 @@ export const UserPreferenceInsertSchema = z.object({
   includeUvIndex: z.boolean().default(false),
   includeVisibility: z.boolean().default(false),
   customFormat: z.string().nullable(),
+  includeSportTypes: z.array(z.string()).default([]),
+  excludeSportTypes: z.array(z.string()).default([]),
+  skipPrivate: z.boolean().default(false),
+  skipTrainer: z.boolean().default(false),
+  minDurationMinutes: z.number().int().positive().nullable().default(null),
+  skipWithoutMovement: z.boolean().default(false),
 });
 
 export const UserPreferenceUpdateSchema = z.object({
@@ -44,11 +61,21 @@ export const UserPreferenceUpdateSchema = z.object({
   includeUvIndex: z.boolean().optional(),
   includeVisibility: z.boolean().optional(),
   customFormat: z.string().nullable().optional(),
+  includeSportTypes: z.array(z.string()).optional(),
+  excludeSportTypes: z.array(z.string()).optional(),
+  skipPrivate: z.boolean().optional(),
+  skipTrainer: z.boolean().optional(),
+  minDurationMinutes: z.number().int().positive().nullable().optional(),
+  skipWithoutMovement: z.boolean().optional(),
 });
 
 // Export types derived from database interfaces
 export type User = UserTable;
 export type UserPreference = UserPreferenceTable;
+export type ActivityJob = Required<ActivityJobTable>;
+export type ActivityWeather = Required<ActivityWeatherTable>;
+export type BackfillJob = Required<BackfillJobTable>;
+export type { UserAuthStatus, ActivityOutcome, WeatherDataSource };
 
 // Export insert/update types
 export type UserInsert = z.infer<typeof UserInsertSchema>;
@@ -56,6 +83,25 @@ export type UserUpdate = z.infer<typeof UserUpdateSchema>;
 export type UserPreferenceInsert = z.infer<typeof UserPreferenceInsertSchema>;
 export type UserPreferenceUpdate = z.infer<typeof UserPreferenceUpdateSchema>;
 
+// Processing outcome to record in the activity history
+export interface ActivityWeatherInsert {
+  activityId: string;
+  userId: string;
+  activityName?: string | null;
+  sportType?: string | null;
+  activityStartDate?: Date | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  dataSource?: WeatherDataSource | null;
+  weatherProvider?: string | null;
+  weatherData?: WeatherData | null;
+  appendedText?: string | null;
+  outcome: ActivityOutcome;
+  reason?: string | null;
+  retryCount?: number;
+  durationMs?: number | null;
+}
+
 // User with preferences joined
 export type UserWithPreferences = User & {
   preferences: UserPreference | null;
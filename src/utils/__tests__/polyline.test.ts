@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  bearingBetween,
+  decodePolyline,
+  distanceBetween,
+  pointAlongRoute,
+  type LatLng,
+} from "../polyline";
+
+describe("polyline", () => {
+  describe("decodePolyline", () => {
+    it("should decode the reference polyline", () => {
+      expect(decodePolyline("_p~iF~ps|U_ulLnnqC_mqNvxq`@")).toEqual([
+        [38.5, -120.2],
+        [40.7, -120.95],
+        [43.252, -126.453],
+      ]);
+    });
+
+    it("should decode an empty polyline to no points", () => {
+      expect(decodePolyline("")).toEqual([]);
+    });
+  });
+
+  describe("distanceBetween", () => {
+    it("should measure great-circle distance in meters", () => {
+      // One degree of latitude is about 111km
+      expect(distanceBetween([0, 0], [1, 0])).toBeCloseTo(111195, -1);
+    });
+  });
+
+  describe("bearingBetween", () => {
+    it("should return compass bearings", () => {
+      expect(bearingBetween([0, 0], [1, 0])).toBeCloseTo(0);
+      expect(bearingBetween([0, 0], [0, 1])).toBeCloseTo(90);
+      expect(bearingBetween([1, 0], [0, 0])).toBeCloseTo(180);
+      expect(bearingBetween([0, 1], [0, 0])).toBeCloseTo(270);
+    });
+  });
+
+  describe("pointAlongRoute", () => {
+    const route: LatLng[] = [
+      [0, 0],
+      [0, 1],
+      [0, 3],
+    ];
+
+    it("should interpolate by distance rather than point count", () => {
+      const [lat, lon] = pointAlongRoute(route, 0.5)!;
+
+      expect(lat).toBeCloseTo(0);
+      expect(lon).toBeCloseTo(1.5);
+    });
+
+    it("should return the ends of the route", () => {
+      expect(pointAlongRoute(route, 0)).toEqual([0, 0]);
+      expect(pointAlongRoute(route, 1)).toEqual([0, 3]);
+    });
+
+    it("should handle single-point and empty routes", () => {
+      expect(pointAlongRoute([[1, 2]], 0.5)).toEqual([1, 2]);
+      expect(pointAlongRoute([], 0.5)).toBeNull();
+    });
+  });
+});
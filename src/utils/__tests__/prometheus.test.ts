@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { Counter, Gauge, Histogram, Registry } from "../prometheus";
+
+describe("Prometheus registry", () => {
+  it("should render labelled counters", () => {
+    const registry = new Registry();
+    const counter = registry.register(
+      new Counter("jobs_total", "Jobs processed", ["outcome"]),
+    );
+
+    counter.inc({ outcome: "ok" });
+    counter.inc({ outcome: "ok" }, 2);
+    counter.inc({ outcome: 'bad "quote"' });
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP jobs_total Jobs processed",
+        "# TYPE jobs_total counter",
+        'jobs_total{outcome="ok"} 3',
+        'jobs_total{outcome="bad \\"quote\\""} 1',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should render cumulative histogram buckets", () => {
+    const registry = new Registry();
+    const histogram = registry.register(
+      new Histogram("latency_seconds", "Latency", [], [0.1, 1]),
+    );
+
+    histogram.observe({}, 0.05);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 5);
+
+    expect(registry.render()).toContain(
+      [
+        'latency_seconds_bucket{le="0.1"} 1',
+        'latency_seconds_bucket{le="1"} 2',
+        'latency_seconds_bucket{le="+Inf"} 3',
+        "latency_seconds_sum 5.55",
+        "latency_seconds_count 3",
+      ].join("\n"),
+    );
+  });
+
+  it("should collect gauges on render", () => {
+    const registry = new Registry();
+    let depth = 1;
+    registry.register(
+      new Gauge("queue_depth", "Queued jobs", ["state"], (gauge) =>
+        gauge.set({ state: "queued" }, depth),
+      ),
+    );
+
+    expect(registry.render()).toContain('queue_depth{state="queued"} 1');
+    depth = 4;
+    expect(registry.render()).toContain('queue_depth{state="queued"} 4');
+  });
+
+  it("should reject duplicate metric names", () => {
+    const registry = new Registry();
+    registry.register(new Counter("jobs_total", "Jobs processed"));
+
+    expect(() =>
+      registry.register(new Counter("jobs_total", "Jobs processed")),
+    ).toThrow("Metric jobs_total is already registered");
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../../config/environment", () => ({
+  config: {
+    tokenEncryption: {
+      keys: { primary: Buffer.alloc(32, 1) },
+      activeKeyId: "primary",
+    },
+  },
+}));
+
+import { TokenCipher, TokenEncryptionError } from "../tokenEncryption";
+
+describe("tokenEncryption", () => {
+  const oldKey = Buffer.alloc(32, 1);
+  const newKey = Buffer.alloc(32, 2);
+  const tokens = {
+    accessToken: "strava-access-token",
+    refreshToken: "strava-refresh-token",
+  };
+
+  describe("TokenCipher", () => {
+    const cipher = new TokenCipher({ old: oldKey }, "old");
+
+    it("should round-trip tokens without storing plaintext", () => {
+      const stored = cipher.encrypt(tokens);
+
+      expect(stored.tokenKeyId).toBe("old");
+      expect(JSON.stringify(stored)).not.toContain("strava-");
+      expect(cipher.decrypt(stored)).toEqual(tokens);
+    });
+
+    it("should use a fresh data key and IV for every write", () => {
+      const first = cipher.encrypt(tokens);
+      const second = cipher.encrypt(tokens);
+
+      expect(second.accessToken).not.toBe(first.accessToken);
+      expect(second.tokenDataKey).not.toBe(first.tokenDataKey);
+    });
+
+    it("should read rows encrypted under an older key after rotation", () => {
+      const stored = cipher.encrypt(tokens);
+      const rotated = new TokenCipher({ old: oldKey, new: newKey }, "new");
+
+      expect(rotated.decrypt(stored)).toEqual(tokens);
+      expect(rotated.encrypt(tokens).tokenKeyId).toBe("new");
+    });
+
+    it("should return rows stored before encryption unchanged", () => {
+      expect(
+        cipher.decrypt({ ...tokens, tokenKeyId: null, tokenDataKey: null }),
+      ).toEqual(tokens);
+    });
+
+    it("should reject rows under a key that is not configured", () => {
+      const stored = new TokenCipher({ new: newKey }, "new").encrypt(tokens);
+
+      expect(() => cipher.decrypt(stored)).toThrow(
+        new TokenEncryptionError("Token encryption key new is not configured"),
+      );
+    });
+
+    it("should reject tampered ciphertext", () => {
+      const stored = cipher.encrypt(tokens);
+
+      // Swapping the tokens fails authentication as each is bound to its column
+      expect(() =>
+        cipher.decrypt({
+          ...stored,
+          accessToken: stored.refreshToken,
+          refreshToken: stored.accessToken,
+        }),
+      ).toThrow("Failed to decrypt tokens with key old");
+    });
+
+    it("should require 32-byte keys and a configured active key", () => {
+      expect(
+        () => new TokenCipher({ short: Buffer.alloc(16) }, "short"),
+      ).toThrow("Token encryption key short must be 32 bytes");
+      expect(() => new TokenCipher({ old: oldKey }, "missing")).toThrow(
+        "Active token encryption key missing is not configured",
+      );
+    });
+  });
+});
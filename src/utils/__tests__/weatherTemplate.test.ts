@@ -0,0 +1,321 @@
+import { describe, it, expect } from "vitest";
+import type { WeatherData } from "../../services/weatherService";
+import {
+  getWeatherEmoji,
+  renderWeatherTemplate,
+  toCompassDirection,
+  validateWeatherTemplate,
+  WeatherTemplateError,
+} from "../weatherTemplate";
+
+describe("weatherTemplate", () => {
+  const weather: WeatherData = {
+    temperature: 15,
+    temperatureFeel: 13,
+    humidity: 65,
+    pressure: 1013,
+    windSpeed: 3.5,
+    windDirection: 225,
+    windGust: 6.2,
+    cloudCover: 40,
+    visibility: 10,
+    condition: "Clouds",
+    description: "scattered clouds",
+    icon: "03d",
+    uvIndex: 3,
+    timestamp: "2024-01-15T07:30:00Z",
+  };
+
+  const celsius = { temperatureUnit: "celsius" as const };
+  const fahrenheit = { temperatureUnit: "fahrenheit" as const };
+
+  describe("renderWeatherTemplate", () => {
+    const renderCases = [
+      { template: "{temp}", expected: "15°C" },
+      { template: "{feels}", expected: "13°C" },
+      { template: "{humidity}", expected: "65%" },
+      { template: "{pressure}", expected: "1013hPa" },
+      { template: "{wind}", expected: "3.5m/s" },
+      { template: "{wind_dir}", expected: "SW" },
+      { template: "{wind_deg}", expected: "225°" },
+      { template: "{gust}", expected: "6.2m/s" },
+      { template: "{clouds}", expected: "40%" },
+      { template: "{visibility}", expected: "10km" },
+      { template: "{uv}", expected: "3" },
+      { template: "{condition}", expected: "Clouds" },
+      { template: "{description}", expected: "scattered clouds" },
+      { template: "{icon_emoji}", expected: "⛅" },
+    ];
+
+    renderCases.forEach(({ template, expected }) => {
+      it(`should render ${template} as "${expected}"`, () => {
+        expect(renderWeatherTemplate(template, weather, celsius)).toBe(
+          expected,
+        );
+      });
+    });
+
+    it("should render route placeholders when the route was sampled", () => {
+      const routeWeather: WeatherData = {
+        ...weather,
+        route: {
+          minTemperature: 8,
+          maxTemperature: 15,
+          precipitation: ["light rain"],
+          windShift: 90,
+          samples: [],
+        },
+      };
+
+      expect(
+        renderWeatherTemplate(
+          "{temp_min}-{temp_max}{?route_precip}, {route_precip}{/route_precip}, shift {wind_shift}",
+          routeWeather,
+          celsius,
+        ),
+      ).toBe("8°C-15°C, light rain, shift 90°");
+      expect(
+        renderWeatherTemplate(
+          "{temp}{?temp_min} ({temp_min} to {temp_max}){/temp_min}",
+          weather,
+          celsius,
+        ),
+      ).toBe("15°C");
+    });
+
+    it("should render wind exposure placeholders", () => {
+      expect(
+        renderWeatherTemplate(
+          "Into the wind {headwind}, with it {tailwind}, across {crosswind}",
+          {
+            ...weather,
+            windExposure: { headwind: 40, tailwind: 35, crosswind: 25 },
+          },
+          celsius,
+        ),
+      ).toBe("Into the wind 40%, with it 35%, across 25%");
+    });
+
+    it("should render the documented example template", () => {
+      expect(
+        renderWeatherTemplate("🌡️ {temp} | {condition}", weather, celsius),
+      ).toBe("🌡️ 15°C | Clouds");
+    });
+
+    it("should use the preferred temperature unit by default", () => {
+      expect(
+        renderWeatherTemplate("{temp} (feels {feels})", weather, fahrenheit),
+      ).toBe("59°F (feels 55°F)");
+    });
+
+    it("should let unit filters override the preferred unit", () => {
+      expect(renderWeatherTemplate("{temp|c}", weather, fahrenheit)).toBe(
+        "15°C",
+      );
+      expect(renderWeatherTemplate("{temp|f}", weather, celsius)).toBe("59°F");
+    });
+
+    it("should convert speeds and distances with unit filters", () => {
+      expect(
+        renderWeatherTemplate(
+          "{wind|kmh} {wind|mph} {wind|kn} {wind|ms} {visibility|mi}",
+          weather,
+          celsius,
+        ),
+      ).toBe("13km/h 8mph 7kn 3.5m/s 6.2mi");
+    });
+
+    it("should apply text filters", () => {
+      expect(
+        renderWeatherTemplate(
+          "{description|capitalize}, {condition|upper}, {wind_dir|lower}",
+          weather,
+          celsius,
+        ),
+      ).toBe("Scattered clouds, CLOUDS, sw");
+    });
+
+    it("should render sections only when the value is present", () => {
+      const template = "Wind {wind}{?gust}, gusts {gust|kmh}{/gust}";
+
+      expect(renderWeatherTemplate(template, weather, celsius)).toBe(
+        "Wind 3.5m/s, gusts 22km/h",
+      );
+      expect(
+        renderWeatherTemplate(
+          template,
+          { ...weather, windGust: undefined },
+          celsius,
+        ),
+      ).toBe("Wind 3.5m/s");
+    });
+
+    it("should render inverted sections only when the value is missing", () => {
+      const template = "{?uv}UV {uv}{/uv}{!uv}No UV data{/uv}";
+
+      expect(renderWeatherTemplate(template, weather, celsius)).toBe("UV 3");
+      expect(
+        renderWeatherTemplate(
+          template,
+          { ...weather, uvIndex: undefined },
+          celsius,
+        ),
+      ).toBe("No UV data");
+    });
+
+    it("should support nested sections", () => {
+      const template = "{?gust}G{?uv} UV{/uv}{/gust}";
+
+      expect(renderWeatherTemplate(template, weather, celsius)).toBe("G UV");
+      expect(
+        renderWeatherTemplate(
+          template,
+          { ...weather, uvIndex: undefined },
+          celsius,
+        ),
+      ).toBe("G");
+    });
+
+    it("should render missing values as empty text", () => {
+      expect(
+        renderWeatherTemplate(
+          "[{gust}]",
+          { ...weather, windGust: undefined },
+          celsius,
+        ),
+      ).toBe("[]");
+    });
+
+    it("should treat doubled braces as literals", () => {
+      expect(renderWeatherTemplate("{{temp}} = {temp}", weather, celsius)).toBe(
+        "{temp} = 15°C",
+      );
+    });
+
+    it("should allow whitespace around placeholder names and filters", () => {
+      expect(renderWeatherTemplate("{ temp | f }", weather, celsius)).toBe(
+        "59°F",
+      );
+    });
+
+    it("should throw WeatherTemplateError for invalid templates", () => {
+      expect(() => renderWeatherTemplate("{nope}", weather, celsius)).toThrow(
+        WeatherTemplateError,
+      );
+    });
+  });
+
+  describe("validateWeatherTemplate", () => {
+    it("should accept valid templates", () => {
+      expect(
+        validateWeatherTemplate(
+          "{icon_emoji} {temp|f}{?gust} gusting {gust|mph}{/gust}",
+        ),
+      ).toBeNull();
+      expect(validateWeatherTemplate("")).toBeNull();
+      expect(validateWeatherTemplate("No placeholders at all")).toBeNull();
+    });
+
+    const invalidCases = [
+      {
+        template: "Temp: {temperature}",
+        message: "Unknown placeholder 'temperature' at position 6",
+        position: 6,
+      },
+      {
+        template: "{temp} {}",
+        message: "Empty placeholder at position 7",
+        position: 7,
+      },
+      {
+        template: "{temp|kelvin}",
+        message: "Unknown filter 'kelvin' on 'temp' at position 0",
+        position: 0,
+      },
+      {
+        template: "{humidity} {wind|f}",
+        message: "Filter 'f' cannot be applied to 'wind' at position 11",
+        position: 11,
+      },
+      {
+        template: "{temp|c|f}",
+        message: "Only one unit filter is allowed on 'temp' at position 0",
+        position: 0,
+      },
+      {
+        template: "Hot {temp",
+        message: "Unclosed '{' at position 4",
+        position: 4,
+      },
+      {
+        template: "Hot } {temp}",
+        message: "Unexpected '}' at position 4",
+        position: 4,
+      },
+      {
+        template: "{?gust} {gust}",
+        message: "Section '{?gust}' is never closed at position 0",
+        position: 0,
+      },
+      {
+        template: "{temp}{/gust}",
+        message:
+          "Closing section '{/gust}' has no matching opening section at position 6",
+        position: 6,
+      },
+      {
+        template: "{!gust}{/uv}",
+        message:
+          "Closing section '{/uv}' does not match '{!gust}' at position 7",
+        position: 7,
+      },
+      {
+        template: "{?sunshine}{/sunshine}",
+        message: "Unknown placeholder 'sunshine' at position 0",
+        position: 0,
+      },
+      {
+        template: "{constructor}",
+        message: "Unknown placeholder 'constructor' at position 0",
+        position: 0,
+      },
+      {
+        template: "{temp|toString}",
+        message: "Unknown filter 'toString' on 'temp' at position 0",
+        position: 0,
+      },
+    ];
+
+    invalidCases.forEach(({ template, message, position }) => {
+      it(`should reject "${template}"`, () => {
+        const error = validateWeatherTemplate(template);
+
+        expect(error).toBeInstanceOf(WeatherTemplateError);
+        expect(error?.message).toBe(message);
+        expect(error?.position).toBe(position);
+      });
+    });
+  });
+
+  describe("getWeatherEmoji", () => {
+    it("should map icon codes to emoji", () => {
+      expect(getWeatherEmoji("01d")).toBe("☀️");
+      expect(getWeatherEmoji("01n")).toBe("🌙");
+      expect(getWeatherEmoji("10n")).toBe("🌦️");
+      expect(getWeatherEmoji("11d")).toBe("⛈️");
+    });
+
+    it("should return an empty string for unknown icons", () => {
+      expect(getWeatherEmoji("99d")).toBe("");
+    });
+  });
+
+  describe("toCompassDirection", () => {
+    it("should normalize and convert degrees", () => {
+      expect(toCompassDirection(0)).toBe("N");
+      expect(toCompassDirection(225)).toBe("SW");
+      expect(toCompassDirection(-45)).toBe("NW");
+      expect(toCompassDirection(361)).toBe("N");
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Encoded polyline helpers
+ *
+ * Strava returns activity routes in Google's encoded polyline format
+ * (precision 5). Points are [latitude, longitude] pairs.
+ */
+
+export type LatLng = [number, number];
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Decode an encoded polyline into coordinates
+ *
+ * @param encoded - Encoded polyline string
+ * @returns Decoded [latitude, longitude] points
+ */
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push([lat / 1e5, lng / 1e5]);
+  }
+
+  return points;
+}
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export function distanceBetween(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to[0] - from[0]);
+  const dLng = toRadians(to[1] - from[1]);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from[0])) *
+      Math.cos(toRadians(to[0])) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Find the point a given fraction of the way along a route by distance
+ *
+ * @param points - Route points in order
+ * @param fraction - Fraction of the total distance (0 to 1)
+ * @returns Interpolated point, or null for an empty route
+ */
+export function pointAlongRoute(
+  points: LatLng[],
+  fraction: number,
+): LatLng | null {
+  if (points.length === 0) return null;
+
+  const segments = points
+    .slice(1)
+    .map((point, i) => distanceBetween(points[i]!, point));
+  const total = segments.reduce((sum, length) => sum + length, 0);
+  let remaining = total * Math.min(Math.max(fraction, 0), 1);
+
+  for (const [i, length] of segments.entries()) {
+    if (remaining <= length && length > 0) {
+      const from = points[i]!;
+      const to = points[i + 1]!;
+      const ratio = remaining / length;
+      return [
+        from[0] + (to[0] - from[0]) * ratio,
+        from[1] + (to[1] - from[1]) * ratio,
+      ];
+    }
+    remaining -= length;
+  }
+
+  return points[points.length - 1]!;
+}
+
+/**
+ * Initial compass bearing from one point to another in degrees (0-360)
+ */
+export function bearingBetween(from: LatLng, to: LatLng): number {
+  const lat1 = toRadians(from[0]);
+  const lat2 = toRadians(to[0]);
+  const dLng = toRadians(to[1] - from[1]);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
@@ -0,0 +1,196 @@
+/**
+ * Minimal in-process Prometheus registry
+ *
+ * Supports counters, gauges and histograms with labels, rendered in the
+ * Prometheus text exposition format (version 0.0.4).
+ */
+
+export type Labels = Record<string, string>;
+
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Default histogram buckets in seconds, from 5ms to 10s
+ */
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Series keyed by their label values, in the order labels were declared
+ */
+abstract class LabelledMetric<T> implements Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    protected readonly help: string,
+    protected readonly labelNames: readonly string[] = [],
+  ) {}
+
+  abstract render(): string[];
+
+  protected header(type: string): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${type}`];
+  }
+
+  protected get(labels: Labels, initial: () => T): T {
+    const ordered = Object.fromEntries(
+      this.labelNames.map((name) => [name, labels[name] ?? ""]),
+    );
+    const key = JSON.stringify(Object.values(ordered));
+
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends LabelledMetric<{ count: number }> {
+  inc(labels: Labels = {}, amount = 1): void {
+    this.get(labels, () => ({ count: 0 })).count += amount;
+  }
+
+  render(): string[] {
+    return [
+      ...this.header("counter"),
+      ...[...this.series.values()].map(
+        ({ labels, value }) =>
+          `${this.name}${formatLabels(labels)} ${formatValue(value.count)}`,
+      ),
+    ];
+  }
+}
+
+/**
+ * Value that goes up and down, optionally read fresh on every scrape
+ */
+export class Gauge extends LabelledMetric<{ current: number }> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[] = [],
+    private readonly collect?: (gauge: Gauge) => void,
+  ) {
+    super(name, help, labelNames);
+  }
+
+  set(labels: Labels, value: number): void {
+    this.get(labels, () => ({ current: 0 })).current = value;
+  }
+
+  render(): string[] {
+    this.collect?.(this);
+
+    return [
+      ...this.header("gauge"),
+      ...[...this.series.values()].map(
+        ({ labels, value }) =>
+          `${this.name}${formatLabels(labels)} ${formatValue(value.current)}`,
+      ),
+    ];
+  }
+}
+
+/**
+ * Distribution of observations in cumulative buckets
+ */
+export class Histogram extends LabelledMetric<{
+  buckets: number[];
+  sum: number;
+  count: number;
+}> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[] = [],
+    private readonly buckets: readonly number[] = DEFAULT_BUCKETS,
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.get(labels, () => ({
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.buckets[i]!++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    return [
+      ...this.header("histogram"),
+      ...[...this.series.values()].flatMap(({ labels, value }) => [
+        ...this.buckets.map(
+          (bound, i) =>
+            `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.buckets[i]}`,
+        ),
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+        `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+        `${this.name}_count${formatLabels(labels)} ${value.count}`,
+      ]),
+    ];
+  }
+}
+
+/**
+ * Collection of metrics rendered together on a scrape
+ */
+export class Registry {
+  private readonly metrics = new Map<string, Metric>();
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  /**
+   * Render every metric in the Prometheus text format
+   */
+  render(): string {
+    return (
+      [...this.metrics.values()]
+        .flatMap((metric) => metric.render())
+        .join("\n") + "\n"
+    );
+  }
+}
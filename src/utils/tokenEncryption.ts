@@ -0,0 +1,179 @@
+import crypto from "crypto";
+import { config } from "../config/environment";
+
+/**
+ * Envelope encryption for Strava tokens at rest
+ *
+ * Each user row gets a fresh data key that encrypts both tokens with
+ * AES-256-GCM. The data key is itself encrypted ("wrapped") with a master
+ * key from config, and the master key id is stored on the row so keys can
+ * be rotated without losing access to older rows.
+ *
+ * Sealed values are base64 of: IV (12 bytes) | auth tag (16 bytes) | ciphertext.
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Plaintext Strava tokens
+ */
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Token columns as stored on the users table
+ */
+export interface EncryptedTokenPair extends TokenPair {
+  tokenKeyId: string | null;
+  tokenDataKey: string | null;
+}
+
+/**
+ * Raised when tokens cannot be encrypted or decrypted
+ */
+export class TokenEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenEncryptionError";
+  }
+}
+
+function seal(key: Buffer, plaintext: Buffer, context: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    "base64",
+  );
+}
+
+function open(key: Buffer, sealed: string, context: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    key,
+    data.subarray(0, IV_LENGTH),
+  );
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Encrypts and decrypts token pairs with the configured master keys
+ */
+export class TokenCipher {
+  constructor(
+    private readonly keys: Record<string, Buffer>,
+    readonly activeKeyId: string,
+  ) {
+    for (const [id, key] of Object.entries(keys)) {
+      if (key.length !== KEY_LENGTH) {
+        throw new TokenEncryptionError(
+          `Token encryption key ${id} must be ${KEY_LENGTH} bytes`,
+        );
+      }
+    }
+    if (!keys[activeKeyId]) {
+      throw new TokenEncryptionError(
+        `Active token encryption key ${activeKeyId} is not configured`,
+      );
+    }
+  }
+
+  /**
+   * Encrypt a token pair under a new data key wrapped by the active key
+   *
+   * @param tokens - Plaintext tokens
+   * @returns Column values to store
+   */
+  encrypt(tokens: TokenPair): EncryptedTokenPair {
+    const dataKey = crypto.randomBytes(KEY_LENGTH);
+
+    return {
+      accessToken: seal(
+        dataKey,
+        Buffer.from(tokens.accessToken),
+        "accessToken",
+      ),
+      refreshToken: seal(
+        dataKey,
+        Buffer.from(tokens.refreshToken),
+        "refreshToken",
+      ),
+      tokenKeyId: this.activeKeyId,
+      tokenDataKey: seal(this.masterKey(this.activeKeyId), dataKey, "dataKey"),
+    };
+  }
+
+  /**
+   * Decrypt a stored token pair
+   *
+   * Rows without a key id predate encryption and are returned unchanged
+   * until the rotation command encrypts them.
+   *
+   * @param stored - Token columns from the users table
+   * @returns Plaintext tokens
+   */
+  decrypt(stored: EncryptedTokenPair): TokenPair {
+    if (!stored.tokenKeyId) {
+      return {
+        accessToken: stored.accessToken,
+        refreshToken: stored.refreshToken,
+      };
+    }
+
+    try {
+      const dataKey = open(
+        this.masterKey(stored.tokenKeyId),
+        stored.tokenDataKey ?? "",
+        "dataKey",
+      );
+
+      return {
+        accessToken: open(
+          dataKey,
+          stored.accessToken,
+          "accessToken",
+        ).toString(),
+        refreshToken: open(
+          dataKey,
+          stored.refreshToken,
+          "refreshToken",
+        ).toString(),
+      };
+    } catch (error) {
+      if (error instanceof TokenEncryptionError) throw error;
+      throw new TokenEncryptionError(
+        `Failed to decrypt tokens with key ${stored.tokenKeyId}`,
+      );
+    }
+  }
+
+  private masterKey(keyId: string): Buffer {
+    const key = this.keys[keyId];
+    if (!key) {
+      throw new TokenEncryptionError(
+        `Token encryption key ${keyId} is not configured`,
+      );
+    }
+    return key;
+  }
+}
+
+// Export singleton instance
+export const tokenCipher = new TokenCipher(
+  config.tokenEncryption.keys,
+  config.tokenEncryption.activeKeyId,
+);
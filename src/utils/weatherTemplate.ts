@@ -0,0 +1,508 @@
+import type { WeatherData } from "../services/weatherService";
+
+/**
+ * Weather template engine
+ *
+ * Renders user-defined `customFormat` strings against WeatherData. The
+ * language is deliberately small and never evaluates user input:
+ *
+ * - `{temp}`                placeholder, rendered with its default unit
+ * - `{temp|f}`              placeholder with filters (unit or text filters)
+ * - `{?gust}...{/gust}`     section rendered only when the value is present
+ * - `{!gust}...{/gust}`     section rendered only when the value is missing
+ * - `{{` and `}}`           literal braces
+ *
+ * Positions reported in errors are zero-based offsets into the template.
+ */
+
+export type TemperatureUnit = "celsius" | "fahrenheit";
+
+export interface WeatherTemplateOptions {
+  temperatureUnit: TemperatureUnit;
+}
+
+/**
+ * Error raised when a template cannot be parsed
+ */
+export class WeatherTemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+  ) {
+    super(`${message} at position ${position}`);
+    this.name = "WeatherTemplateError";
+  }
+}
+
+type ValueKind =
+  | "temperature"
+  | "speed"
+  | "distance"
+  | "percent"
+  | "pressure"
+  | "degrees"
+  | "number"
+  | "text";
+
+interface PlaceholderDefinition {
+  kind: ValueKind;
+  resolve: (weather: WeatherData) => number | string | undefined;
+}
+
+/**
+ * Supported placeholders and how to read them from WeatherData
+ */
+const PLACEHOLDERS: Record<string, PlaceholderDefinition> = {
+  temp: { kind: "temperature", resolve: (w) => w.temperature },
+  feels: { kind: "temperature", resolve: (w) => w.temperatureFeel },
+  humidity: { kind: "percent", resolve: (w) => w.humidity },
+  pressure: { kind: "pressure", resolve: (w) => w.pressure },
+  wind: { kind: "speed", resolve: (w) => w.windSpeed },
+  wind_dir: {
+    kind: "text",
+    resolve: (w) => toCompassDirection(w.windDirection),
+  },
+  wind_deg: { kind: "degrees", resolve: (w) => w.windDirection },
+  gust: { kind: "speed", resolve: (w) => w.windGust },
+  clouds: { kind: "percent", resolve: (w) => w.cloudCover },
+  visibility: { kind: "distance", resolve: (w) => w.visibility },
+  uv: { kind: "number", resolve: (w) => w.uvIndex },
+  condition: { kind: "text", resolve: (w) => w.condition },
+  description: { kind: "text", resolve: (w) => w.description },
+  icon_emoji: { kind: "text", resolve: (w) => getWeatherEmoji(w.icon) },
+  temp_min: { kind: "temperature", resolve: (w) => w.route?.minTemperature },
+  temp_max: { kind: "temperature", resolve: (w) => w.route?.maxTemperature },
+  route_precip: {
+    kind: "text",
+    resolve: (w) => w.route?.precipitation.join(", ") || undefined,
+  },
+  wind_shift: { kind: "degrees", resolve: (w) => w.route?.windShift },
+  headwind: { kind: "percent", resolve: (w) => w.windExposure?.headwind },
+  tailwind: { kind: "percent", resolve: (w) => w.windExposure?.tailwind },
+  crosswind: { kind: "percent", resolve: (w) => w.windExposure?.crosswind },
+};
+
+/**
+ * Unit filters and the value kind each one applies to
+ */
+const UNIT_FILTERS: Record<string, ValueKind> = {
+  c: "temperature",
+  f: "temperature",
+  ms: "speed",
+  kmh: "speed",
+  mph: "speed",
+  kn: "speed",
+  km: "distance",
+  mi: "distance",
+};
+
+/**
+ * Text filters, applicable to any placeholder
+ */
+const TEXT_FILTERS: Record<string, (value: string) => string> = {
+  upper: (value) => value.toUpperCase(),
+  lower: (value) => value.toLowerCase(),
+  capitalize: (value) => value.charAt(0).toUpperCase() + value.slice(1),
+};
+
+/**
+ * OpenWeatherMap icon code prefixes mapped to emoji
+ */
+const ICON_EMOJI: Record<string, string> = {
+  "01": "☀️",
+  "02": "🌤️",
+  "03": "⛅",
+  "04": "☁️",
+  "09": "🌧️",
+  "10": "🌦️",
+  "11": "⛈️",
+  "13": "❄️",
+  "50": "🌫️",
+};
+
+/**
+ * Wind direction compass points
+ */
+const WIND_DIRECTIONS = [
+  "N",
+  "NNE",
+  "NE",
+  "ENE",
+  "E",
+  "ESE",
+  "SE",
+  "SSE",
+  "S",
+  "SSW",
+  "SW",
+  "WSW",
+  "W",
+  "WNW",
+  "NW",
+  "NNW",
+] as const;
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "placeholder"; name: string; filters: string[]; position: number }
+  | {
+      type: "section";
+      name: string;
+      inverted: boolean;
+      children: TemplateNode[];
+      position: number;
+    };
+
+/**
+ * Own-property lookup so names like "constructor" never resolve
+ */
+function lookup<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(table, key) ? table[key] : undefined;
+}
+
+/**
+ * Parse a template into nodes, validating every placeholder and filter
+ *
+ * @param template - Template source
+ * @returns Parsed template nodes
+ * @throws WeatherTemplateError describing the first problem found
+ */
+export function parseWeatherTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{
+    name: string;
+    tag: string;
+    position: number;
+    children: TemplateNode[];
+  }> = [];
+  let current = root;
+  let text = "";
+  let i = 0;
+
+  const flushText = () => {
+    if (text) {
+      current.push({ type: "text", value: text });
+      text = "";
+    }
+  };
+
+  while (i < template.length) {
+    const char = template[i]!;
+
+    if (char === "{" && template[i + 1] === "{") {
+      text += "{";
+      i += 2;
+      continue;
+    }
+
+    if (char === "}") {
+      if (template[i + 1] === "}") {
+        text += "}";
+        i += 2;
+        continue;
+      }
+      throw new WeatherTemplateError("Unexpected '}'", i);
+    }
+
+    if (char !== "{") {
+      text += char;
+      i++;
+      continue;
+    }
+
+    const end = template.indexOf("}", i + 1);
+    if (end === -1) {
+      throw new WeatherTemplateError("Unclosed '{'", i);
+    }
+
+    const position = i;
+    const body = template.slice(i + 1, end);
+    i = end + 1;
+    flushText();
+
+    const marker = body.charAt(0);
+
+    if (marker === "?" || marker === "!") {
+      const name = body.slice(1);
+      assertKnownPlaceholder(name, position);
+      const section: TemplateNode = {
+        type: "section",
+        name,
+        inverted: marker === "!",
+        children: [],
+        position,
+      };
+      current.push(section);
+      stack.push({ name, tag: `{${body}}`, position, children: current });
+      current = section.children;
+      continue;
+    }
+
+    if (marker === "/") {
+      const name = body.slice(1);
+      const open = stack.pop();
+      if (!open) {
+        throw new WeatherTemplateError(
+          `Closing section '{/${name}}' has no matching opening section`,
+          position,
+        );
+      }
+      if (open.name !== name) {
+        throw new WeatherTemplateError(
+          `Closing section '{/${name}}' does not match '${open.tag}'`,
+          position,
+        );
+      }
+      current = open.children;
+      continue;
+    }
+
+    const [name = "", ...filters] = body.split("|").map((part) => part.trim());
+    const definition = assertKnownPlaceholder(name, position);
+    validateFilters(name, definition, filters, position);
+    current.push({ type: "placeholder", name, filters, position });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new WeatherTemplateError(
+      `Section '${unclosed.tag}' is never closed`,
+      unclosed.position,
+    );
+  }
+
+  flushText();
+  return root;
+}
+
+/**
+ * Validate a template without rendering it
+ *
+ * @param template - Template source
+ * @returns Null when valid, otherwise the parse error
+ */
+export function validateWeatherTemplate(
+  template: string,
+): WeatherTemplateError | null {
+  try {
+    parseWeatherTemplate(template);
+    return null;
+  } catch (error) {
+    if (error instanceof WeatherTemplateError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Render a template against weather data
+ *
+ * @param template - Template source
+ * @param weather - Weather data to render
+ * @param options - Rendering options such as the default temperature unit
+ * @returns Rendered text
+ * @throws WeatherTemplateError if the template is invalid
+ */
+export function renderWeatherTemplate(
+  template: string,
+  weather: WeatherData,
+  options: WeatherTemplateOptions,
+): string {
+  return renderNodes(parseWeatherTemplate(template), weather, options);
+}
+
+/**
+ * Convert wind direction degrees to compass direction
+ *
+ * @param degrees - Wind direction in degrees (0-360)
+ * @returns Compass direction string (e.g., "NE", "SW")
+ */
+export function toCompassDirection(degrees: number): string {
+  // Normalize degrees to 0-360 range to handle negative values
+  degrees = ((degrees % 360) + 360) % 360;
+  const index = Math.round(degrees / 22.5) % 16;
+  return WIND_DIRECTIONS[index] || "N";
+}
+
+/**
+ * Format a Celsius temperature in the requested unit
+ *
+ * @param celsius - Temperature in Celsius
+ * @param unit - Unit to display
+ * @returns Rounded temperature with unit suffix (e.g., "59°F")
+ */
+export function formatTemperature(
+  celsius: number,
+  unit: TemperatureUnit,
+): string {
+  if (unit === "fahrenheit") {
+    return `${Math.round((celsius * 9) / 5 + 32)}°F`;
+  }
+  return `${celsius}°C`;
+}
+
+/**
+ * Map an OpenWeatherMap icon code (e.g., "01d") to an emoji
+ *
+ * @param icon - OpenWeatherMap icon code
+ * @returns Emoji for the icon, or an empty string if unknown
+ */
+export function getWeatherEmoji(icon: string): string {
+  if (icon === "01n") {
+    return "🌙";
+  }
+  return ICON_EMOJI[icon.slice(0, 2)] || "";
+}
+
+function assertKnownPlaceholder(
+  name: string,
+  position: number,
+): PlaceholderDefinition {
+  if (!name) {
+    throw new WeatherTemplateError("Empty placeholder", position);
+  }
+
+  const definition = lookup(PLACEHOLDERS, name);
+  if (!definition) {
+    throw new WeatherTemplateError(`Unknown placeholder '${name}'`, position);
+  }
+  return definition;
+}
+
+function validateFilters(
+  name: string,
+  definition: PlaceholderDefinition,
+  filters: string[],
+  position: number,
+): void {
+  let hasUnitFilter = false;
+
+  for (const filter of filters) {
+    if (lookup(TEXT_FILTERS, filter)) {
+      continue;
+    }
+
+    const kind = lookup(UNIT_FILTERS, filter);
+    if (!kind) {
+      throw new WeatherTemplateError(
+        `Unknown filter '${filter}' on '${name}'`,
+        position,
+      );
+    }
+    if (kind !== definition.kind) {
+      throw new WeatherTemplateError(
+        `Filter '${filter}' cannot be applied to '${name}'`,
+        position,
+      );
+    }
+    if (hasUnitFilter) {
+      throw new WeatherTemplateError(
+        `Only one unit filter is allowed on '${name}'`,
+        position,
+      );
+    }
+    hasUnitFilter = true;
+  }
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  weather: WeatherData,
+  options: WeatherTemplateOptions,
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "placeholder":
+          return renderPlaceholder(node.name, node.filters, weather, options);
+        case "section": {
+          const present = hasValue(PLACEHOLDERS[node.name]!.resolve(weather));
+          return present !== node.inverted
+            ? renderNodes(node.children, weather, options)
+            : "";
+        }
+      }
+    })
+    .join("");
+}
+
+function renderPlaceholder(
+  name: string,
+  filters: string[],
+  weather: WeatherData,
+  options: WeatherTemplateOptions,
+): string {
+  const definition = PLACEHOLDERS[name]!;
+  const value = definition.resolve(weather);
+
+  if (!hasValue(value)) {
+    return "";
+  }
+
+  const unitFilter = filters.find((filter) => lookup(UNIT_FILTERS, filter));
+  let output = formatValue(definition.kind, value, unitFilter, options);
+
+  for (const filter of filters) {
+    const textFilter = lookup(TEXT_FILTERS, filter);
+    if (textFilter) {
+      output = textFilter(output);
+    }
+  }
+
+  return output;
+}
+
+function formatValue(
+  kind: ValueKind,
+  value: number | string,
+  unitFilter: string | undefined,
+  options: WeatherTemplateOptions,
+): string {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  switch (kind) {
+    case "temperature": {
+      const unit =
+        unitFilter === "f"
+          ? "fahrenheit"
+          : unitFilter === "c"
+            ? "celsius"
+            : options.temperatureUnit;
+      return formatTemperature(value, unit);
+    }
+    case "speed":
+      switch (unitFilter) {
+        case "kmh":
+          return `${Math.round(value * 3.6)}km/h`;
+        case "mph":
+          return `${Math.round(value * 2.23694)}mph`;
+        case "kn":
+          return `${Math.round(value * 1.94384)}kn`;
+        default:
+          return `${value}m/s`;
+      }
+    case "distance":
+      return unitFilter === "mi"
+        ? `${Math.round(value * 0.621371 * 10) / 10}mi`
+        : `${value}km`;
+    case "percent":
+      return `${value}%`;
+    case "pressure":
+      return `${value}hPa`;
+    case "degrees":
+      return `${value}°`;
+    default:
+      return String(value);
+  }
+}
+
+function hasValue(
+  value: number | string | undefined,
+): value is number | string {
+  return value !== undefined && value !== null && value !== "";
+}